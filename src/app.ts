@@ -3,11 +3,22 @@ import helmet from "helmet";
 import cors from 'cors';
 
 // Import your route handlers
+import authRoutes from './routes/auth.routes';
 import employeeRoutes from './routes/employee.routes';
 import leaveRoutes from './routes/leave.routes';
+import holidayRoutes from './routes/holiday.routes';
+import accrualRoutes from './routes/accrual.routes';
+import calendarRoutes from './routes/calendar.routes';
+import analyticsRoutes from './routes/analytics.routes';
+import webhookRoutes from './routes/webhook.routes';
+import staffingRoutes from './routes/staffing.routes';
+import leavePolicyRoutes from './routes/leavePolicy.routes';
+import delegationRoutes from './routes/delegation.routes';
+import compOffRoutes from './routes/compOff.routes';
+import organizationRoutes from './routes/organization.routes';
 
 // Import your custom error handler
-import { errorHandler } from "./middleware/errorHandler.middleware";
+import { errorHandler, notFound } from "./middleware/errorHandler.middleware";
 
 // Import Swagger setup
 import { setupSwagger } from './utils/swagger';
@@ -31,7 +42,8 @@ app.use(helmet({
 app.use(cors({
     origin: ['http://localhost:5011',"https://simple-leave-management.onrender.com"], // Allow all origins
     methods: ['GET', 'POST', 'PATCH', 'DELETE'], // Allow specific HTTP methods
-    allowedHeaders: ['Content-Type', 'Authorization'], // Allow specific headers
+    allowedHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key'], // Allow specific headers
+    exposedHeaders: ['Idempotent-Replayed'], // Lets clients tell a replayed response apart
 })); // Enables Cross-Origin Resource Sharing
 app.use(generalLimiter); // Apply general rate limiting to all routes
 app.use(express.json({ limit: '10mb' })); // Parses incoming JSON requests
@@ -50,10 +62,23 @@ app.get("/", (req: Request, res: Response) => {
 
 // --- API Routes ---
 // Mount the imported routes to specific base paths
+app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/employees', employeeRoutes);
 app.use('/api/v1/leaves', leaveRoutes);
+app.use('/api/v1/holidays', holidayRoutes);
+app.use('/api/v1/accruals', accrualRoutes);
+app.use('/api/v1/calendar', calendarRoutes);
+app.use('/api/v1/analytics', analyticsRoutes);
+app.use('/api/v1/webhooks', webhookRoutes);
+app.use('/api/v1/staffing-rules', staffingRoutes);
+app.use('/api/v1/leave-policies', leavePolicyRoutes);
+app.use('/api/v1/delegations', delegationRoutes);
+app.use('/api/v1/comp-offs', compOffRoutes);
+app.use('/api/v1/organizations', organizationRoutes);
 
 // --- Error Handling Middleware ---
+// Anything that reached this point matched no route
+app.use(notFound);
 // This should be the last middleware in the chain
 app.use(errorHandler);
 
@@ -0,0 +1,13 @@
+// Leaves longer than this many charged days also need HR approval after the manager
+const DEFAULT_HR_APPROVAL_THRESHOLD_DAYS = 5;
+
+/**
+ * Reads HR_APPROVAL_THRESHOLD_DAYS. Set it to 0 to always require HR approval.
+ */
+export const getHrApprovalThresholdDays = (): number => {
+    const configured = Number(process.env.HR_APPROVAL_THRESHOLD_DAYS);
+    if (process.env.HR_APPROVAL_THRESHOLD_DAYS === undefined || !Number.isFinite(configured) || configured < 0) {
+        return DEFAULT_HR_APPROVAL_THRESHOLD_DAYS;
+    }
+    return configured;
+};
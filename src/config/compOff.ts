@@ -0,0 +1,25 @@
+// Days after the day worked that comp-off credit can still be used
+const DEFAULT_COMP_OFF_EXPIRY_DAYS = 90;
+// Hours of weekend/holiday work that earn a full comp-off day; half of it earns half a day
+const DEFAULT_COMP_OFF_HOURS_PER_DAY = 8;
+const DEFAULT_EXPIRY_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const readPositiveNumber = (name: string, fallback: number): number => {
+    const configured = Number(process.env[name]);
+    return process.env[name] !== undefined && Number.isFinite(configured) && configured > 0 ? configured : fallback;
+};
+
+/**
+ * Reads COMP_OFF_EXPIRY_DAYS, how long comp-off credit lasts counted from the day worked.
+ */
+export const getCompOffExpiryDays = (): number => Math.floor(readPositiveNumber('COMP_OFF_EXPIRY_DAYS', DEFAULT_COMP_OFF_EXPIRY_DAYS));
+
+/**
+ * Reads COMP_OFF_HOURS_PER_DAY, the hours worked that are credited as one comp-off day.
+ */
+export const getCompOffHoursPerDay = (): number => readPositiveNumber('COMP_OFF_HOURS_PER_DAY', DEFAULT_COMP_OFF_HOURS_PER_DAY);
+
+/**
+ * Reads COMP_OFF_EXPIRY_CHECK_INTERVAL_MS, how often expired credit is looked for (default one hour).
+ */
+export const getCompOffExpiryCheckIntervalMs = (): number => readPositiveNumber('COMP_OFF_EXPIRY_CHECK_INTERVAL_MS', DEFAULT_EXPIRY_CHECK_INTERVAL_MS);
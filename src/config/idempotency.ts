@@ -0,0 +1,13 @@
+// How long a stored response can be replayed for the same Idempotency-Key
+const DEFAULT_IDEMPOTENCY_KEY_TTL_HOURS = 24;
+
+/**
+ * Reads IDEMPOTENCY_KEY_TTL_HOURS. Retries arriving after this window run as new requests.
+ */
+export const getIdempotencyKeyTtlHours = (): number => {
+    const configured = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS);
+    if (process.env.IDEMPOTENCY_KEY_TTL_HOURS === undefined || !Number.isFinite(configured) || configured <= 0) {
+        return DEFAULT_IDEMPOTENCY_KEY_TTL_HOURS;
+    }
+    return configured;
+};
@@ -0,0 +1,86 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html: string;
+}
+
+/**
+ * Something that can deliver an email. Implementations should throw when delivery fails.
+ */
+export interface MailTransport {
+    readonly name: string;
+    send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Address notifications are sent from
+export const getMailFrom = (): string => process.env.MAIL_FROM || 'Leave Management <no-reply@localhost>';
+
+/**
+ * Sends through an SMTP server configured with SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER and SMTP_PASS.
+ */
+export const createSmtpTransport = (): MailTransport => {
+    const port = Number(process.env.SMTP_PORT) || 587;
+    const transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined
+    });
+
+    return {
+        name: 'smtp',
+        send: async (message) => {
+            await transporter.sendMail(message);
+        }
+    };
+};
+
+/**
+ * Writes every message as a JSON file into MAIL_FILE_DIR (default ./mail-outbox), for local development and tests.
+ */
+export const createFileTransport = (directory = process.env.MAIL_FILE_DIR || 'mail-outbox'): MailTransport => ({
+    name: 'file',
+    send: async (message) => {
+        await fs.mkdir(directory, { recursive: true });
+        const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 8)}.json`;
+        await fs.writeFile(path.join(directory, fileName), JSON.stringify(message, null, 2));
+    }
+});
+
+/**
+ * Prints every message to the console instead of sending it.
+ */
+export const createConsoleTransport = (): MailTransport => ({
+    name: 'console',
+    send: async (message) => {
+        console.log(`[mail] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+    }
+});
+
+/**
+ * Builds the transport selected by MAIL_TRANSPORT (smtp, file or console).
+ * Defaults to console so nothing is sent by accident in development.
+ */
+export const createMailTransport = (): MailTransport => {
+    const configured = (process.env.MAIL_TRANSPORT || 'console').toLowerCase();
+    switch (configured) {
+        case 'smtp':
+            if (!process.env.SMTP_HOST) {
+                console.error('MAIL_TRANSPORT is smtp but SMTP_HOST is not set, falling back to the console transport');
+                return createConsoleTransport();
+            }
+            return createSmtpTransport();
+        case 'file':
+            return createFileTransport();
+        case 'console':
+            return createConsoleTransport();
+        default:
+            console.error(`Invalid MAIL_TRANSPORT "${configured}", falling back to the console transport`);
+            return createConsoleTransport();
+    }
+};
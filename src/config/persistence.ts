@@ -0,0 +1,244 @@
+import { ClientSession, Types } from 'mongoose';
+import { IEmployee, Role } from '@/models/employee.model';
+import { BalanceLeaveType, ILeave, LeaveStatus, LeaveType } from '@/models/leave.model';
+import { IOrganization } from '@/models/organization.model';
+import { ILeavePolicy } from '@/models/leavePolicy.model';
+import { IHoliday } from '@/models/holiday.model';
+import { IStaffingRule } from '@/models/staffingRule.model';
+import { IAccrualPolicy } from '@/models/accrualPolicy.model';
+import { IDelegation } from '@/models/delegation.model';
+import { AuditEntityType, IAuditLog } from '@/models/auditLog.model';
+import { ILedgerEntry } from '@/models/ledgerEntry.model';
+import { IWebhookSubscription, WebhookEvent } from '@/models/webhookSubscription.model';
+import { CursorPosition, SortSpec } from '@/utils/pagination';
+
+// Where employees, leaves and organizations are kept
+export enum PersistenceDriver {
+    // MongoDB at MONGO_URI; every feature is available
+    MONGO = "mongo",
+    // Process memory, to run and exercise the API without a database; nothing survives a restart
+    MEMORY = "memory"
+}
+
+export type NewEmployee = Pick<IEmployee, 'organization' | 'fullName' | 'email' | 'password' | 'role' | 'department' | 'joiningDate' | 'leaveBalances'>
+    & Partial<Pick<IEmployee, 'location' | 'reportingManager'>>;
+
+export type NewLeave = Pick<ILeave, 'organization' | 'employeId' | 'leaveType' | 'reason' | 'startDate' | 'endDate' | 'startSession' | 'endSession'
+    | 'duration' | 'approvalSteps' | 'staffingWarnings' | 'documentRequired'> & Partial<Pick<ILeave, 'pendingLevel' | 'pendingApprover'>>;
+
+export type NewOrganization = Pick<IOrganization, 'name' | 'slug'>;
+
+export type NewDelegation = Pick<IDelegation, 'organization' | 'delegator' | 'delegate' | 'startDate' | 'endDate' | 'source'>
+    & Partial<Pick<IDelegation, 'reason' | 'leave' | 'createdBy'>>;
+
+export type NewAuditEntry = Pick<IAuditLog, 'entityType' | 'entityId' | 'action'>
+    & Partial<Pick<IAuditLog, 'actor' | 'fromStatus' | 'toStatus' | 'comment' | 'changes'>>;
+
+export type NewLedgerEntry = Pick<ILedgerEntry, 'employee' | 'leaveType' | 'kind' | 'days' | 'balanceAfter'>
+    & Partial<Pick<ILedgerEntry, 'leave' | 'accrualEntry' | 'compOff' | 'actor' | 'note'>>;
+
+// What a staffing check needs to know of the people in a department
+export type StaffingMember = Pick<IEmployee, '_id' | 'joiningDate' | 'isActive' | 'deactivatedAt'>;
+
+// The days a leave keeps someone off work
+export type LeaveAbsence = Pick<ILeave, 'startDate' | 'endDate' | 'startSession' | 'endSession'>;
+
+/**
+ * Undo log of an in-memory transaction: the writes made with it are rolled back if the transaction fails.
+ */
+export interface MemorySession {
+    rollback: (() => void)[];
+}
+
+// What the repositories' writes take to join the surrounding transaction
+export type PersistenceSession = ClientSession | MemorySession;
+
+/**
+ * Filters of the leave list and export. Leaves must match every filter that is set.
+ */
+export interface LeaveListCriteria {
+    organization: Types.ObjectId;
+    status?: LeaveStatus;
+    leaveType?: LeaveType;
+    // Leaves of these employees only; an empty list matches nothing
+    employees?: Types.ObjectId[];
+    // Leaves sharing at least one day with the range
+    overlapsFrom?: Date;
+    overlapsTo?: Date;
+    // Requests created in [createdFrom, createdBefore)
+    createdFrom?: Date;
+    createdBefore?: Date;
+    // Case-insensitive text the reason must contain
+    search?: string;
+}
+
+export interface LeavePageRequest {
+    limit: number;
+    // Offset pagination
+    skip?: number;
+    // Cursor pagination: only the leaves after this position in the sort order
+    after?: CursorPosition;
+}
+
+// One row of the leave export, with the few employee fields it shows
+export interface LeaveExportRecord {
+    _id: Types.ObjectId;
+    employeId: { _id: Types.ObjectId; fullName: string; email: string; department: string } | null;
+    leaveType: LeaveType;
+    status: LeaveStatus;
+    startDate: Date;
+    endDate: Date;
+    startSession: string;
+    endSession: string;
+    duration?: { chargedDays: number };
+    deductedDays?: number;
+    reason: string;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+/**
+ * Employee storage. Employees are returned without their password hash unless a method says otherwise.
+ */
+export interface EmployeeRepository {
+    findById(id: unknown): Promise<IEmployee | null>;
+    findByIds(ids: Types.ObjectId[]): Promise<IEmployee[]>;
+    findInOrganization(organization: Types.ObjectId, id: unknown): Promise<IEmployee | null>;
+    findByEmail(organization: Types.ObjectId, email: string): Promise<IEmployee | null>;
+    // With the password hash, to check a login; the same email may exist in several organizations
+    findForLogin(email: string, organization?: Types.ObjectId | null): Promise<IEmployee[]>;
+    findIdsByDepartment(organization: Types.ObjectId, department: string, employee?: unknown): Promise<Types.ObjectId[]>;
+    findActiveByRole(organization: Types.ObjectId, role: Role): Promise<IEmployee[]>;
+    // Whether anyone active reports to the employee
+    hasActiveReports(manager: Types.ObjectId): Promise<boolean>;
+    // Everyone in the department employed at some point between the two days
+    findEmployedDuring(organization: Types.ObjectId, department: string, startDate: Date, endDate: Date): Promise<StaffingMember[]>;
+    // Adds the days (negative to deduct) to one balance in a single step. Returns the updated employee, or null when
+    // the employee doesn't exist or a deduction would take the balance below zero and `allowNegative` isn't set.
+    adjustBalance(employee: Types.ObjectId, leaveType: BalanceLeaveType, days: number, allowNegative: boolean, session?: PersistenceSession): Promise<IEmployee | null>;
+    // Hashes the password; fails with a duplicate key error when the email is taken in the organization
+    create(fields: NewEmployee, session?: PersistenceSession): Promise<IEmployee>;
+}
+
+/**
+ * Leave storage.
+ */
+export interface LeaveRepository {
+    findInOrganization(organization: Types.ObjectId, id: unknown): Promise<ILeave | null>;
+    // Pending, approved and cancellation-requested leaves of the employee sharing a calendar day with the range
+    findActiveOverlapping(employee: Types.ObjectId, startDate: Date, endDate: Date): Promise<ILeave[]>;
+    // Leaves of the employees in one of the statuses sharing a calendar day with the range, except `excludeLeave`
+    findAbsences(employees: Types.ObjectId[], statuses: LeaveStatus[], startDate: Date, endDate: Date, excludeLeave?: Types.ObjectId): Promise<LeaveAbsence[]>;
+    // One page in the given order, with `employeId` populated with the employee's name and email
+    findPage(criteria: LeaveListCriteria, sort: SortSpec, page: LeavePageRequest): Promise<ILeave[]>;
+    count(criteria: LeaveListCriteria): Promise<number>;
+    // Every matching leave by start date, read as it is consumed
+    exportRecords(criteria: LeaveListCriteria): AsyncIterable<LeaveExportRecord>;
+    create(fields: NewLeave): Promise<ILeave>;
+    // Fails with a VersionError when the leave was changed since it was read
+    save(leave: ILeave, session?: PersistenceSession): Promise<ILeave>;
+}
+
+/**
+ * Organization storage.
+ */
+export interface OrganizationRepository {
+    findById(id: unknown): Promise<IOrganization | null>;
+    findBySlug(slug: string): Promise<IOrganization | null>;
+    // Fails with a duplicate key error when the slug is taken
+    create(fields: NewOrganization): Promise<IOrganization>;
+}
+
+/**
+ * Leave policy lookups.
+ */
+export interface LeavePolicyRepository {
+    // Active policies scoped to the department and leave type, or leaving them unset, by name
+    findApplicable(organization: Types.ObjectId, department?: string, leaveType?: LeaveType): Promise<ILeavePolicy[]>;
+}
+
+/**
+ * Holiday lookups.
+ */
+export interface HolidayRepository {
+    // Holidays between the two days for the department and location, or for everyone, by date
+    findApplicable(organization: Types.ObjectId, startDate: Date, endDate: Date, department?: string, location?: string): Promise<IHoliday[]>;
+}
+
+/**
+ * Staffing rule lookups.
+ */
+export interface StaffingRuleRepository {
+    findActive(organization: Types.ObjectId, department: string): Promise<IStaffingRule | null>;
+}
+
+/**
+ * Accrual policy lookups.
+ */
+export interface AccrualPolicyRepository {
+    findActive(organization: Types.ObjectId): Promise<IAccrualPolicy[]>;
+}
+
+/**
+ * Approval delegations. Active ones have started, haven't ended and aren't revoked.
+ */
+export interface DelegationRepository {
+    findActiveForDelegate(delegate: Types.ObjectId): Promise<IDelegation[]>;
+    findActiveForDelegator(delegator: Types.ObjectId): Promise<IDelegation[]>;
+    create(fields: NewDelegation): Promise<IDelegation>;
+    // Moves the end of the unrevoked delegations created from the leave
+    endForLeave(leave: Types.ObjectId, endDate: Date): Promise<void>;
+    revokeForLeave(leave: Types.ObjectId, revokedBy?: Types.ObjectId): Promise<void>;
+}
+
+/**
+ * The append-only history of leaves and employees.
+ */
+export interface AuditLogRepository {
+    create(entry: NewAuditEntry, session?: PersistenceSession): Promise<IAuditLog>;
+    // Oldest first, with `actor` populated with the name, email and role
+    findHistory(entityType: AuditEntityType, entityId: string): Promise<IAuditLog[]>;
+}
+
+/**
+ * Entries of the leave balance ledger. Balances themselves live on the employees.
+ */
+export interface LedgerEntryRepository {
+    create(entries: NewLedgerEntry[], session?: PersistenceSession): Promise<ILedgerEntry[]>;
+}
+
+/**
+ * Webhook subscription lookups.
+ */
+export interface WebhookSubscriptionRepository {
+    findActiveForEvent(organization: Types.ObjectId, event: WebhookEvent): Promise<IWebhookSubscription[]>;
+}
+
+export interface Repositories {
+    readonly driver: PersistenceDriver;
+    employees: EmployeeRepository;
+    leaves: LeaveRepository;
+    organizations: OrganizationRepository;
+    leavePolicies: LeavePolicyRepository;
+    holidays: HolidayRepository;
+    staffingRules: StaffingRuleRepository;
+    accrualPolicies: AccrualPolicyRepository;
+    delegations: DelegationRepository;
+    auditLogs: AuditLogRepository;
+    ledgerEntries: LedgerEntryRepository;
+    webhookSubscriptions: WebhookSubscriptionRepository;
+    // Runs the work in a transaction: the writes given its session are kept together or undone together
+    transaction<T>(work: (session: PersistenceSession) => Promise<T>): Promise<T>;
+}
+
+/**
+ * Reads PERSISTENCE_DRIVER (mongo or memory). Defaults to mongo.
+ */
+export const getPersistenceDriver = (): PersistenceDriver => {
+    const configured = (process.env.PERSISTENCE_DRIVER || PersistenceDriver.MONGO).toLowerCase();
+    if (!Object.values(PersistenceDriver).includes(configured as PersistenceDriver)) {
+        console.error(`Invalid PERSISTENCE_DRIVER "${configured}", falling back to MongoDB`);
+        return PersistenceDriver.MONGO;
+    }
+    return configured as PersistenceDriver;
+};
@@ -0,0 +1,49 @@
+import { Department, Role } from '@/models/employee.model';
+import { recordOpeningBalances } from '@/services/ledger.service';
+import { getDefaultLeaveBalances, getDefaultOrganization } from '@/services/organization.service';
+import { getRepositories } from '@/services/persistence.service';
+
+/**
+ * Creates the initial admin account of the default organization from ADMIN_EMAIL / ADMIN_PASSWORD
+ * so that a fresh deployment has someone who can log in and create employees.
+ * Does nothing if the variables are not set or the account already exists.
+ * Must run after `seedOrganization`.
+ */
+const seedAdmin = async () => {
+    const email = process.env.ADMIN_EMAIL;
+    const password = process.env.ADMIN_PASSWORD;
+
+    if (!email || !password) {
+        return;
+    }
+
+    const organization = await getDefaultOrganization();
+    if (!organization) {
+        throw new Error('The default organization has not been created');
+    }
+
+    const { employees } = getRepositories();
+    const existingAdmin = await employees.findByEmail(organization._id, email);
+    if (existingAdmin) {
+        return;
+    }
+
+    const department = organization.settings.departments.includes(Department.HR)
+        ? Department.HR
+        : organization.settings.departments[0];
+    const admin = await employees.create({
+        organization: organization._id,
+        fullName: process.env.ADMIN_FULL_NAME || 'System Admin',
+        email: email,
+        password: password,
+        role: Role.ADMIN,
+        department,
+        joiningDate: new Date(),
+        leaveBalances: getDefaultLeaveBalances(organization)
+    });
+    await recordOpeningBalances(admin);
+
+    console.log(`Admin account created with the email: ${email}`);
+};
+
+export default seedAdmin;
@@ -0,0 +1,79 @@
+import { Model } from 'mongoose';
+import Organization, { DEFAULT_ORGANIZATION_SLUG } from '@/models/organization.model';
+import { PersistenceDriver } from '@/config/persistence';
+import { getRepositories } from '@/services/persistence.service';
+import EmployeeModel from '@/models/employee.model';
+import LeaveModel from '@/models/leave.model';
+import LeavePolicyModel from '@/models/leavePolicy.model';
+import HolidayModel from '@/models/holiday.model';
+import StaffingRuleModel from '@/models/staffingRule.model';
+import AccrualPolicyModel from '@/models/accrualPolicy.model';
+import DelegationModel from '@/models/delegation.model';
+import CompOffModel from '@/models/compOff.model';
+import WebhookSubscriptionModel from '@/models/webhookSubscription.model';
+
+// Everything that belongs to one organization
+const TENANT_MODELS: Model<any>[] = [
+    EmployeeModel,
+    LeaveModel,
+    LeavePolicyModel,
+    HolidayModel,
+    StaffingRuleModel,
+    AccrualPolicyModel,
+    DelegationModel,
+    CompOffModel,
+    WebhookSubscriptionModel
+];
+
+// Unique indexes from before organizations existed; they would stop two organizations using the same value
+const SINGLE_ORGANIZATION_INDEXES: [Model<any>, string][] = [
+    [EmployeeModel, 'email_1'],
+    [HolidayModel, 'date_1_department_1_location_1'],
+    [StaffingRuleModel, 'department_1'],
+    [AccrualPolicyModel, 'leaveType_1']
+];
+
+// IndexNotFound and NamespaceNotFound: nothing to drop
+const MISSING_INDEX_CODES = [26, 27];
+
+/**
+ * Creates the default organization (named by DEFAULT_ORGANIZATION_NAME) on a fresh database
+ * and moves every record that predates organizations into it, so a single-company deployment keeps working.
+ */
+const seedOrganization = async () => {
+    const { driver, organizations } = getRepositories();
+    // The in-memory store starts empty on every start, with nothing to migrate
+    if (driver === PersistenceDriver.MEMORY) {
+        await organizations.create({ name: process.env.DEFAULT_ORGANIZATION_NAME || 'Default Organization', slug: DEFAULT_ORGANIZATION_SLUG });
+        return;
+    }
+
+    const organization = await Organization.findOneAndUpdate(
+        { slug: DEFAULT_ORGANIZATION_SLUG },
+        { $setOnInsert: { name: process.env.DEFAULT_ORGANIZATION_NAME || 'Default Organization' } },
+        { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    for (const [model, index] of SINGLE_ORGANIZATION_INDEXES) {
+        try {
+            await model.collection.dropIndex(index);
+            console.log(`Dropped the ${model.modelName} index ${index}; it is unique per organization now`);
+        } catch (error: any) {
+            if (!MISSING_INDEX_CODES.includes(error?.code)) {
+                throw error;
+            }
+        }
+    }
+
+    for (const model of TENANT_MODELS) {
+        const { modifiedCount } = await model.updateMany(
+            { organization: { $exists: false } },
+            { $set: { organization: organization._id } }
+        );
+        if (modifiedCount > 0) {
+            console.log(`Moved ${modifiedCount} ${model.modelName} record(s) into the default organization`);
+        }
+    }
+};
+
+export default seedOrganization;
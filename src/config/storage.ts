@@ -0,0 +1,74 @@
+import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+
+// Limits of a single leave attachment
+const DEFAULT_ATTACHMENT_MAX_SIZE_MB = 5;
+export const ALLOWED_ATTACHMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png'];
+export const MAX_ATTACHMENTS_PER_LEAVE = 5;
+
+/**
+ * Somewhere attachment files can be kept. Keys are generated by the application and may contain `/`.
+ * Implementations should throw when an operation fails.
+ */
+export interface FileStorage {
+    readonly name: string;
+    save(key: string, data: Buffer): Promise<void>;
+    read(key: string): Promise<Readable>;
+    remove(key: string): Promise<void>;
+}
+
+/**
+ * Reads ATTACHMENT_MAX_SIZE_MB, the largest file that can be attached to a leave.
+ */
+export const getAttachmentMaxSizeBytes = (): number => {
+    const configured = Number(process.env.ATTACHMENT_MAX_SIZE_MB);
+    const megabytes = Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_ATTACHMENT_MAX_SIZE_MB;
+    return Math.floor(megabytes * 1024 * 1024);
+};
+
+/**
+ * Keeps the files under ATTACHMENT_DIR (default ./uploads) on the local disk.
+ */
+export const createLocalDiskStorage = (directory = process.env.ATTACHMENT_DIR || 'uploads'): FileStorage => {
+    const root = path.resolve(directory);
+    const resolve = (key: string) => {
+        const filePath = path.resolve(root, key);
+        // Keys never come from the client, but make sure one can't point outside the directory
+        if (!filePath.startsWith(root + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return filePath;
+    };
+
+    return {
+        name: 'local',
+        save: async (key, data) => {
+            const filePath = resolve(key);
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.writeFile(filePath, data, { flag: 'wx' });
+        },
+        read: async (key) => {
+            const filePath = resolve(key);
+            // Fail here rather than in the middle of the response when the file is gone
+            await fs.access(filePath);
+            return createReadStream(filePath);
+        },
+        remove: async (key) => {
+            await fs.rm(resolve(key), { force: true });
+        }
+    };
+};
+
+/**
+ * Builds the storage selected by ATTACHMENT_STORAGE. Only `local` exists for now;
+ * other backends (e.g. an object store) only need to implement FileStorage.
+ */
+export const createFileStorage = (): FileStorage => {
+    const configured = (process.env.ATTACHMENT_STORAGE || 'local').toLowerCase();
+    if (configured !== 'local') {
+        console.error(`Invalid ATTACHMENT_STORAGE "${configured}", falling back to the local disk storage`);
+    }
+    return createLocalDiskStorage();
+};
@@ -0,0 +1,26 @@
+// Days of the week that are not working days (0 = Sunday ... 6 = Saturday)
+const DEFAULT_WEEKEND_DAYS = [0, 6];
+
+/**
+ * Reads the weekend days from WEEKEND_DAYS (comma separated, e.g. "5,6" for Friday/Saturday).
+ * Falls back to Saturday and Sunday when the variable is missing or invalid.
+ */
+export const getWeekendDays = (): number[] => {
+    const configured = process.env.WEEKEND_DAYS;
+    if (configured === undefined) {
+        return DEFAULT_WEEKEND_DAYS;
+    }
+
+    const days = configured
+        .split(',')
+        .map((day) => day.trim())
+        .filter((day) => day !== '')
+        .map(Number);
+
+    if (days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+        console.error(`Invalid WEEKEND_DAYS "${configured}", falling back to Saturday and Sunday`);
+        return DEFAULT_WEEKEND_DAYS;
+    }
+
+    return days;
+};
@@ -0,0 +1,351 @@
+import { Request, Response } from 'express';
+import { isValidObjectId } from 'mongoose';
+import AccrualPolicy, { AccrualFrequency } from '@/models/accrualPolicy.model';
+import { BALANCE_LEAVE_TYPES, BalanceLeaveType } from '@/models/leave.model';
+import { asyncHandler } from '@/utils/asyncHandler';
+import { ApiError, ApiResponse } from '@/utils/ApiResponse';
+import { parseAccrualPeriod, runAccrual, runYearEndRollover } from '@/services/accrual.service';
+
+/**
+ * Validates the numeric and enum fields of an accrual policy body.
+ */
+const validatePolicyFields = (body: any) => {
+    const { frequency, annualAllowance, carryForwardCap, prorateOnJoining, active } = body;
+
+    if (frequency !== undefined && !Object.values(AccrualFrequency).includes(frequency)) {
+        throw new ApiError(400, `Invalid frequency. Must be one of: ${Object.values(AccrualFrequency).join(', ')}`);
+    }
+    if (annualAllowance !== undefined && (typeof annualAllowance !== 'number' || annualAllowance < 0)) {
+        throw new ApiError(400, 'annualAllowance must be a number greater than or equal to 0.');
+    }
+    if (carryForwardCap !== undefined && (typeof carryForwardCap !== 'number' || carryForwardCap < 0)) {
+        throw new ApiError(400, 'carryForwardCap must be a number greater than or equal to 0.');
+    }
+    if (prorateOnJoining !== undefined && typeof prorateOnJoining !== 'boolean') {
+        throw new ApiError(400, 'prorateOnJoining must be a boolean.');
+    }
+    if (active !== undefined && typeof active !== 'boolean') {
+        throw new ApiError(400, 'active must be a boolean.');
+    }
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AccrualPolicy:
+ *       type: object
+ *       properties:
+ *         leaveType:
+ *           type: string
+ *           enum: [CASUAL, SICK, EARNED, PARENTAL, COMP_OFF]
+ *         frequency:
+ *           type: string
+ *           enum: [MONTHLY, YEARLY]
+ *           description: MONTHLY credits a twelfth of the allowance every month, YEARLY credits it once per year
+ *         annualAllowance:
+ *           type: number
+ *           description: Days earned over a full year
+ *         carryForwardCap:
+ *           type: number
+ *           description: Unused days kept at year end; the rest lapses
+ *         prorateOnJoining:
+ *           type: boolean
+ *           description: Credit only a share of the period to employees who join during it
+ *         active:
+ *           type: boolean
+ *     AccrualRunResult:
+ *       type: object
+ *       properties:
+ *         period:
+ *           type: string
+ *         dryRun:
+ *           type: boolean
+ *         totalDays:
+ *           type: number
+ *           description: Net days credited (or that would be credited) by this run
+ *         items:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               employee:
+ *                 type: string
+ *               fullName:
+ *                 type: string
+ *               leaveType:
+ *                 type: string
+ *               days:
+ *                 type: number
+ *               carriedForward:
+ *                 type: number
+ *               lapsed:
+ *                 type: number
+ *               status:
+ *                 type: string
+ *                 enum: [APPLIED, ALREADY_APPLIED, PREVIEW]
+ */
+
+/**
+ * @swagger
+ * /api/v1/accruals/policies:
+ *   post:
+ *     summary: Create an accrual policy for a leave type
+ *     tags:
+ *       - Accruals
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AccrualPolicy'
+ *     responses:
+ *       201:
+ *         description: Accrual policy created
+ *       400:
+ *         description: Bad request
+ *       409:
+ *         description: Conflict - The leave type already has a policy
+ */
+
+/**
+ * @function createAccrualPolicy
+ * @description Creates the accrual policy for a leave type. Each balance-tracked leave type can have one policy.
+ * @route POST /api/v1/accruals/policies
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const createAccrualPolicy = asyncHandler(async (req: Request, res: Response) => {
+    const { leaveType, frequency, annualAllowance, carryForwardCap, prorateOnJoining, active } = req.body;
+
+    if (!leaveType || !frequency || annualAllowance === undefined) {
+        throw new ApiError(400, 'All fields (leaveType, frequency, annualAllowance) are required');
+    }
+
+    if (!BALANCE_LEAVE_TYPES.includes(leaveType as BalanceLeaveType)) {
+        throw new ApiError(400, `Invalid leave type. Must be one of: ${BALANCE_LEAVE_TYPES.join(', ')}`);
+    }
+
+    validatePolicyFields(req.body);
+
+    const existingPolicy = await AccrualPolicy.findOne({ organization: req.user!.organization, leaveType });
+    if (existingPolicy) {
+        throw new ApiError(409, `An accrual policy already exists for ${leaveType} leave.`);
+    }
+
+    const policy = await AccrualPolicy.create({
+        organization: req.user!.organization,
+        leaveType,
+        frequency,
+        annualAllowance,
+        carryForwardCap,
+        prorateOnJoining,
+        active
+    });
+
+    res.status(201).json(new ApiResponse(201, "Accrual policy created", policy));
+});
+
+/**
+ * @swagger
+ * /api/v1/accruals/policies:
+ *   get:
+ *     summary: List accrual policies
+ *     tags:
+ *       - Accruals
+ *     responses:
+ *       200:
+ *         description: All accrual policies
+ */
+
+/**
+ * @function getAccrualPolicies
+ * @description Lists all accrual policies.
+ * @route GET /api/v1/accruals/policies
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getAccrualPolicies = asyncHandler(async (req: Request, res: Response) => {
+    const policies = await AccrualPolicy.find({ organization: req.user!.organization }).sort({ leaveType: 1 });
+    res.status(200).json(new ApiResponse(200, "Fetched Required Data", policies));
+});
+
+/**
+ * @swagger
+ * /api/v1/accruals/policies/{id}:
+ *   patch:
+ *     summary: Update an accrual policy
+ *     tags:
+ *       - Accruals
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AccrualPolicy'
+ *     responses:
+ *       200:
+ *         description: Accrual policy updated
+ *       400:
+ *         description: Bad request
+ *       404:
+ *         description: Accrual policy not found
+ */
+
+/**
+ * @function updateAccrualPolicy
+ * @description Updates the frequency, allowance, cap or flags of an accrual policy. The leave type cannot be changed.
+ * @route PATCH /api/v1/accruals/policies/:id
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const updateAccrualPolicy = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+        throw new ApiError(400, 'Invalid accrual policy ID.');
+    }
+
+    if (req.body.leaveType !== undefined) {
+        throw new ApiError(400, 'The leave type of a policy cannot be changed.');
+    }
+
+    validatePolicyFields(req.body);
+
+    const policy = await AccrualPolicy.findOne({ _id: id, organization: req.user!.organization });
+    if (!policy) {
+        throw new ApiError(404, 'Accrual policy not found');
+    }
+
+    const { frequency, annualAllowance, carryForwardCap, prorateOnJoining, active } = req.body;
+    if (frequency !== undefined) policy.frequency = frequency;
+    if (annualAllowance !== undefined) policy.annualAllowance = annualAllowance;
+    if (carryForwardCap !== undefined) policy.carryForwardCap = carryForwardCap;
+    if (prorateOnJoining !== undefined) policy.prorateOnJoining = prorateOnJoining;
+    if (active !== undefined) policy.active = active;
+
+    await policy.save();
+
+    res.status(200).json(new ApiResponse(200, "Accrual policy updated", policy));
+});
+
+/**
+ * @swagger
+ * /api/v1/accruals/run:
+ *   post:
+ *     summary: Run or preview the leave accrual for a period
+ *     description: Credits every employee under the active policies whose frequency matches the period. Re-running a period never credits an employee twice.
+ *     tags:
+ *       - Accruals
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               period:
+ *                 type: string
+ *                 description: '"YYYY-MM" runs the monthly policies, "YYYY" runs the yearly policies'
+ *                 example: "2025-08"
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Preview the credits without applying them
+ *     responses:
+ *       200:
+ *         description: Accrual result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AccrualRunResult'
+ *       400:
+ *         description: Bad request
+ */
+
+/**
+ * @function runAccrualForPeriod
+ * @description Runs (or previews with `dryRun`) the accrual for a month or a year.
+ * @route POST /api/v1/accruals/run
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const runAccrualForPeriod = asyncHandler(async (req: Request, res: Response) => {
+    const { period, dryRun } = req.body;
+
+    const accrualPeriod = typeof period === 'string' ? parseAccrualPeriod(period) : null;
+    if (!accrualPeriod) {
+        throw new ApiError(400, 'period is required and must be "YYYY-MM" or "YYYY".');
+    }
+
+    const result = await runAccrual(req.user!.organization, accrualPeriod, dryRun === true);
+
+    res.status(200).json(new ApiResponse(200, dryRun === true ? "Accrual preview" : "Accrual applied", result));
+});
+
+/**
+ * @swagger
+ * /api/v1/accruals/year-end:
+ *   post:
+ *     summary: Run or preview the year-end carry forward
+ *     description: For every active policy, keeps up to carryForwardCap of the days left on Dec 31 (read from the ledger) and lapses the rest. Only past years can be closed. Re-running a year has no further effect.
+ *     tags:
+ *       - Accruals
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               year:
+ *                 type: integer
+ *                 description: A year before the current one
+ *                 example: 2025
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Rollover result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AccrualRunResult'
+ *       400:
+ *         description: Bad request - Invalid year, or the year isn't over yet
+ */
+
+/**
+ * @function runYearEnd
+ * @description Runs (or previews with `dryRun`) the year-end rollover for a year.
+ * @route POST /api/v1/accruals/year-end
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const runYearEnd = asyncHandler(async (req: Request, res: Response) => {
+    const { year, dryRun } = req.body;
+
+    if (!Number.isInteger(year) || year < 1970 || year > 9999) {
+        throw new ApiError(400, 'year is required and must be a valid year.');
+    }
+    // A year can only be closed once it is over
+    if (year >= new Date().getUTCFullYear()) {
+        throw new ApiError(400, 'Only a past year can be closed.');
+    }
+
+    const result = await runYearEndRollover(req.user!.organization, year, dryRun === true);
+
+    res.status(200).json(new ApiResponse(200, dryRun === true ? "Year-end preview" : "Year-end rollover applied", result));
+});
@@ -0,0 +1,599 @@
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+import Employee from '@/models/employee.model';
+import Leave, { BALANCE_LEAVE_TYPES, LeaveStatus } from '@/models/leave.model';
+import { isKnownDepartment } from '@/services/organization.service';
+import { asyncHandler } from '@/utils/asyncHandler';
+import { ApiError, ApiResponse } from '@/utils/ApiResponse';
+import { toDayKey, toUtcDay } from '@/utils/leaveDuration';
+
+const MS_PER_DAY = 1000 * 3600 * 24;
+const MS_PER_HOUR = 1000 * 3600;
+
+// Leaves that were (and still are) granted; their charged days count as leave taken
+const TAKEN_STATUSES = [LeaveStatus.APPROVED, LeaveStatus.CANCELLATION_REQUESTED];
+
+// Leaves an approver has decided on
+const DECIDED_STATUSES = [LeaveStatus.APPROVED, LeaveStatus.REJECTED, LeaveStatus.CANCELLATION_REQUESTED, LeaveStatus.CANCELLED];
+
+interface AnalyticsFilters {
+    // The caller's organization; every report is limited to it
+    organization: Types.ObjectId;
+    from: Date;
+    to: Date;
+    department?: string;
+}
+
+const roundTo = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Reads the `from`, `to` and `department` query parameters shared by every report.
+ * The range defaults to the current calendar year.
+ */
+const parseAnalyticsFilters = (req: Request): AnalyticsFilters => {
+    const { from, to, department } = req.query;
+    const year = new Date().getUTCFullYear();
+
+    const fromDate = from ? toUtcDay(new Date(from as string)) : new Date(Date.UTC(year, 0, 1));
+    const toDate = to ? toUtcDay(new Date(to as string)) : new Date(Date.UTC(year, 11, 31));
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+        throw new ApiError(400, 'Invalid date format for from or to.');
+    }
+    if (fromDate > toDate) {
+        throw new ApiError(400, 'from cannot be after to.');
+    }
+    const organization = req.organization!;
+    if (department && !isKnownDepartment(organization, department)) {
+        throw new ApiError(400, `Invalid department. Must be one of: ${organization.settings.departments.join(', ')}`);
+    }
+
+    return { organization: organization._id, from: fromDate, to: toDate, department: department as string | undefined };
+};
+
+/**
+ * Pipeline stages that attach the employee's department to each leave as `employee`
+ * and keep only the requested department.
+ */
+const withEmployeeDepartment = (department?: string): any[] => [
+    {
+        $lookup: {
+            from: Employee.collection.name,
+            localField: 'employeId',
+            foreignField: '_id',
+            pipeline: [{ $project: { department: 1, fullName: 1 } }],
+            as: 'employee'
+        }
+    },
+    { $unwind: '$employee' },
+    ...(department ? [{ $match: { 'employee.department': department } }] : [])
+];
+
+// Records created before deactivation existed have no isActive flag and count as active
+const activeEmployeeFilter = (organization: Types.ObjectId, department?: string) => ({
+    organization,
+    isActive: { $ne: false },
+    ...(department ? { department } : {})
+});
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     AnalyticsFrom:
+ *       in: query
+ *       name: from
+ *       schema:
+ *         type: string
+ *         format: date
+ *       description: Start of the range, defaults to January 1st of the current year
+ *     AnalyticsTo:
+ *       in: query
+ *       name: to
+ *       schema:
+ *         type: string
+ *         format: date
+ *       description: End of the range, defaults to December 31st of the current year
+ *     AnalyticsDepartment:
+ *       in: query
+ *       name: department
+ *       schema:
+ *         type: string
+ *         example: SDE-I
+ */
+
+/**
+ * @swagger
+ * /api/v1/analytics/utilization:
+ *   get:
+ *     summary: Leave utilization per department, month and leave type
+ *     description: Charged days of approved leaves starting in the range. Leaves are counted in the month they start.
+ *     tags:
+ *       - Analytics
+ *     parameters:
+ *       - $ref: '#/components/parameters/AnalyticsFrom'
+ *       - $ref: '#/components/parameters/AnalyticsTo'
+ *       - $ref: '#/components/parameters/AnalyticsDepartment'
+ *     responses:
+ *       200:
+ *         description: Utilization report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 totalDays:
+ *                   type: number
+ *                   description: Every day taken in the range, including leave of departments that no longer have active employees
+ *                 byDepartment:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       department:
+ *                         type: string
+ *                       headcount:
+ *                         type: integer
+ *                       leaves:
+ *                         type: integer
+ *                       days:
+ *                         type: number
+ *                       daysPerEmployee:
+ *                         type: number
+ *                 byMonth:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       month:
+ *                         type: string
+ *                         example: "2025-08"
+ *                       leaves:
+ *                         type: integer
+ *                       days:
+ *                         type: number
+ *                 byLeaveType:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       400:
+ *         description: Invalid filter
+ */
+
+/**
+ * @function getUtilization
+ * @description Sums the charged days of approved leaves per department (with days per employee), per month and per leave type.
+ * @route GET /api/v1/analytics/utilization
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getUtilization = asyncHandler(async (req: Request, res: Response) => {
+    const { organization, from, to, department } = parseAnalyticsFilters(req);
+
+    const [[report], headcounts] = await Promise.all([
+        Leave.aggregate([
+            { $match: { organization, status: { $in: TAKEN_STATUSES }, startDate: { $gte: from, $lte: to } } },
+            ...withEmployeeDepartment(department),
+            {
+                $facet: {
+                    // Leave of departments without active employees any more only shows up here
+                    totals: [
+                        { $group: { _id: null, days: { $sum: '$duration.chargedDays' } } }
+                    ],
+                    byDepartment: [
+                        { $group: { _id: '$employee.department', leaves: { $sum: 1 }, days: { $sum: '$duration.chargedDays' } } }
+                    ],
+                    byMonth: [
+                        { $group: { _id: { $dateToString: { format: '%Y-%m', date: '$startDate' } }, leaves: { $sum: 1 }, days: { $sum: '$duration.chargedDays' } } },
+                        { $sort: { _id: 1 } }
+                    ],
+                    byLeaveType: [
+                        { $group: { _id: '$leaveType', leaves: { $sum: 1 }, days: { $sum: '$duration.chargedDays' } } },
+                        { $sort: { days: -1 } }
+                    ]
+                }
+            }
+        ]),
+        Employee.aggregate([
+            { $match: activeEmployeeFilter(organization, department) },
+            { $group: { _id: '$department', headcount: { $sum: 1 } } }
+        ])
+    ]);
+
+    const daysByDepartment = new Map<string, { leaves: number; days: number }>(
+        report.byDepartment.map((row: any) => [row._id, { leaves: row.leaves, days: row.days }])
+    );
+
+    // Departments without any leave are listed too, so they show up as zero usage
+    const byDepartment = headcounts
+        .map((row) => {
+            const usage = daysByDepartment.get(row._id) ?? { leaves: 0, days: 0 };
+            return {
+                department: row._id,
+                headcount: row.headcount,
+                leaves: usage.leaves,
+                days: roundTo(usage.days),
+                daysPerEmployee: row.headcount ? roundTo(usage.days / row.headcount) : 0
+            };
+        })
+        .sort((a, b) => b.days - a.days);
+
+    res.status(200).json(new ApiResponse(200, "Fetched Required Data", {
+        from: toDayKey(from),
+        to: toDayKey(to),
+        department: department ?? null,
+        totalDays: roundTo(report.totals[0]?.days ?? 0),
+        byDepartment,
+        byMonth: report.byMonth.map((row: any) => ({ month: row._id, leaves: row.leaves, days: roundTo(row.days) })),
+        byLeaveType: report.byLeaveType.map((row: any) => ({ leaveType: row._id, leaves: row.leaves, days: roundTo(row.days) }))
+    }));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/analytics/approvals:
+ *   get:
+ *     summary: Approval turnaround and rejection rates
+ *     description: Covers leave requests submitted in the range. Turnaround is the time from submission to the last approval step decision.
+ *     tags:
+ *       - Analytics
+ *     parameters:
+ *       - $ref: '#/components/parameters/AnalyticsFrom'
+ *       - $ref: '#/components/parameters/AnalyticsTo'
+ *       - $ref: '#/components/parameters/AnalyticsDepartment'
+ *     responses:
+ *       200:
+ *         description: Approval report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 submitted:
+ *                   type: integer
+ *                 byStatus:
+ *                   type: object
+ *                   additionalProperties:
+ *                     type: integer
+ *                 decided:
+ *                   type: integer
+ *                 rejectionRate:
+ *                   type: number
+ *                   description: Share of decided requests that were rejected (0 to 1)
+ *                 averageTurnaroundHours:
+ *                   type: number
+ *                 byDepartment:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       department:
+ *                         type: string
+ *                       decided:
+ *                         type: integer
+ *                       rejected:
+ *                         type: integer
+ *                       rejectionRate:
+ *                         type: number
+ *                       averageTurnaroundHours:
+ *                         type: number
+ *       400:
+ *         description: Invalid filter
+ */
+
+/**
+ * @function getApprovalStats
+ * @description Reports the outcome of the requests submitted in the range, the rejection rate and the average approval turnaround, overall and per department.
+ * @route GET /api/v1/analytics/approvals
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getApprovalStats = asyncHandler(async (req: Request, res: Response) => {
+    const { organization, from, to, department } = parseAnalyticsFilters(req);
+    const endOfRange = new Date(to.getTime() + MS_PER_DAY);
+
+    const decisionStats = (groupBy: unknown) => [
+        { $match: { status: { $in: DECIDED_STATUSES } } },
+        {
+            $group: {
+                _id: groupBy,
+                decided: { $sum: 1 },
+                rejected: { $sum: { $cond: [{ $eq: ['$status', LeaveStatus.REJECTED] }, 1, 0] } },
+                // Leaves decided before approval steps were recorded have no decision time and are left out
+                turnaroundMs: { $avg: { $cond: [{ $ne: ['$decidedAt', null] }, { $subtract: ['$decidedAt', '$createdAt'] }, null] } }
+            }
+        }
+    ];
+
+    const [report] = await Leave.aggregate([
+        { $match: { organization, createdAt: { $gte: from, $lt: endOfRange } } },
+        ...withEmployeeDepartment(department),
+        { $addFields: { decidedAt: { $max: '$approvalSteps.decidedAt' } } },
+        {
+            $facet: {
+                byStatus: [{ $group: { _id: '$status', count: { $sum: 1 } } }],
+                overall: decisionStats(null),
+                byDepartment: [...decisionStats('$employee.department'), { $sort: { _id: 1 } }]
+            }
+        }
+    ]);
+
+    const formatStats = (row: any) => ({
+        decided: row?.decided ?? 0,
+        rejected: row?.rejected ?? 0,
+        rejectionRate: row?.decided ? roundTo(row.rejected / row.decided, 4) : 0,
+        averageTurnaroundHours: row?.turnaroundMs != null ? roundTo(row.turnaroundMs / MS_PER_HOUR, 1) : null
+    });
+
+    const byStatus = Object.fromEntries(report.byStatus.map((row: any) => [row._id, row.count]));
+
+    res.status(200).json(new ApiResponse(200, "Fetched Required Data", {
+        from: toDayKey(from),
+        to: toDayKey(to),
+        department: department ?? null,
+        submitted: report.byStatus.reduce((total: number, row: any) => total + row.count, 0),
+        byStatus,
+        ...formatStats(report.overall[0]),
+        byDepartment: report.byDepartment.map((row: any) => ({ department: row._id, ...formatStats(row) }))
+    }));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/analytics/reasons:
+ *   get:
+ *     summary: Most common leave reasons
+ *     description: Reasons of the requests starting in the range, compared case-insensitively.
+ *     tags:
+ *       - Analytics
+ *     parameters:
+ *       - $ref: '#/components/parameters/AnalyticsFrom'
+ *       - $ref: '#/components/parameters/AnalyticsTo'
+ *       - $ref: '#/components/parameters/AnalyticsDepartment'
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: Reasons with the number of requests and charged days, most frequent first
+ *       400:
+ *         description: Invalid filter
+ */
+
+/**
+ * @function getTopReasons
+ * @description Groups the requests starting in the range by reason and returns the most frequent ones.
+ * @route GET /api/v1/analytics/reasons
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getTopReasons = asyncHandler(async (req: Request, res: Response) => {
+    const { organization, from, to, department } = parseAnalyticsFilters(req);
+    const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+
+    const reasons = await Leave.aggregate([
+        { $match: { organization, startDate: { $gte: from, $lte: to } } },
+        ...withEmployeeDepartment(department),
+        {
+            $group: {
+                _id: { $toLower: { $trim: { input: '$reason' } } },
+                requests: { $sum: 1 },
+                days: { $sum: '$duration.chargedDays' },
+                leaveTypes: { $addToSet: '$leaveType' }
+            }
+        },
+        { $sort: { requests: -1, days: -1 } },
+        { $limit: limit }
+    ]);
+
+    res.status(200).json(new ApiResponse(200, "Fetched Required Data", reasons.map((row) => ({
+        reason: row._id,
+        requests: row.requests,
+        days: roundTo(row.days),
+        leaveTypes: row.leaveTypes
+    }))));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/analytics/low-usage:
+ *   get:
+ *     summary: Employees with low or declining leave usage
+ *     description: Compares the days taken in the range with the previous period of the same length. Lists employees at or below the threshold, or taking less than before.
+ *     tags:
+ *       - Analytics
+ *     parameters:
+ *       - $ref: '#/components/parameters/AnalyticsFrom'
+ *       - $ref: '#/components/parameters/AnalyticsTo'
+ *       - $ref: '#/components/parameters/AnalyticsDepartment'
+ *       - in: query
+ *         name: threshold
+ *         schema:
+ *           type: number
+ *           default: 0
+ *         description: Days taken at or below which usage counts as low
+ *     responses:
+ *       200:
+ *         description: Flagged employees, lowest usage first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   _id:
+ *                     type: string
+ *                   fullName:
+ *                     type: string
+ *                   department:
+ *                     type: string
+ *                   daysTaken:
+ *                     type: number
+ *                   previousPeriodDays:
+ *                     type: number
+ *                   trend:
+ *                     type: number
+ *                     description: daysTaken minus previousPeriodDays
+ *                   lowUsage:
+ *                     type: boolean
+ *                   decliningUsage:
+ *                     type: boolean
+ *       400:
+ *         description: Invalid filter
+ */
+
+/**
+ * @function getLowUsageEmployees
+ * @description Finds active employees who took few or no days in the range, or fewer than in the previous period of the same length.
+ * @route GET /api/v1/analytics/low-usage
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getLowUsageEmployees = asyncHandler(async (req: Request, res: Response) => {
+    const { organization, from, to, department } = parseAnalyticsFilters(req);
+    const threshold = req.query.threshold !== undefined ? Number(req.query.threshold) : 0;
+    if (!Number.isFinite(threshold) || threshold < 0) {
+        throw new ApiError(400, 'threshold must be a number greater than or equal to 0.');
+    }
+
+    // The previous period ends the day before `from` and is as long as the requested range
+    const previousFrom = new Date(from.getTime() - (to.getTime() - from.getTime()) - MS_PER_DAY);
+
+    const [employees, usage] = await Promise.all([
+        Employee.find({ ...activeEmployeeFilter(organization, department), joiningDate: { $lte: to } })
+            .select('fullName department joiningDate')
+            .sort({ fullName: 1 })
+            .lean(),
+        Leave.aggregate([
+            { $match: { organization, status: { $in: TAKEN_STATUSES }, startDate: { $gte: previousFrom, $lte: to } } },
+            {
+                $group: {
+                    _id: '$employeId',
+                    daysTaken: { $sum: { $cond: [{ $gte: ['$startDate', from] }, '$duration.chargedDays', 0] } },
+                    previousPeriodDays: { $sum: { $cond: [{ $lt: ['$startDate', from] }, '$duration.chargedDays', 0] } }
+                }
+            }
+        ])
+    ]);
+
+    const usageByEmployee = new Map(usage.map((row) => [String(row._id), row]));
+
+    const flagged = employees
+        .map((employee) => {
+            const row = usageByEmployee.get(String(employee._id));
+            const daysTaken = roundTo(row?.daysTaken ?? 0);
+            const previousPeriodDays = roundTo(row?.previousPeriodDays ?? 0);
+            return {
+                _id: employee._id,
+                fullName: employee.fullName,
+                department: employee.department,
+                joiningDate: employee.joiningDate,
+                daysTaken,
+                previousPeriodDays,
+                trend: roundTo(daysTaken - previousPeriodDays),
+                lowUsage: daysTaken <= threshold,
+                decliningUsage: daysTaken < previousPeriodDays
+            };
+        })
+        .filter((employee) => employee.lowUsage || employee.decliningUsage)
+        .sort((a, b) => a.daysTaken - b.daysTaken || a.trend - b.trend);
+
+    res.status(200).json(new ApiResponse(200, "Fetched Required Data", flagged));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/analytics/liability:
+ *   get:
+ *     summary: Leave balance liability
+ *     description: Total unused days across active employees, per department and leave type.
+ *     tags:
+ *       - Analytics
+ *     parameters:
+ *       - $ref: '#/components/parameters/AnalyticsDepartment'
+ *     responses:
+ *       200:
+ *         description: Liability report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 totalDays:
+ *                   type: number
+ *                 byLeaveType:
+ *                   type: object
+ *                   additionalProperties:
+ *                     type: number
+ *                 byDepartment:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       department:
+ *                         type: string
+ *                       headcount:
+ *                         type: integer
+ *                       totalDays:
+ *                         type: number
+ *                       byLeaveType:
+ *                         type: object
+ *                         additionalProperties:
+ *                           type: number
+ *       400:
+ *         description: Invalid department
+ */
+
+/**
+ * @function getBalanceLiability
+ * @description Sums the current balances of active employees per department and leave type. Unpaid leave has no balance and is not included.
+ * @route GET /api/v1/analytics/liability
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getBalanceLiability = asyncHandler(async (req: Request, res: Response) => {
+    const { organization, department } = parseAnalyticsFilters(req);
+
+    const rows = await Employee.aggregate([
+        { $match: activeEmployeeFilter(organization, department) },
+        {
+            $group: {
+                _id: '$department',
+                headcount: { $sum: 1 },
+                ...Object.fromEntries(BALANCE_LEAVE_TYPES.map((type) => [type, { $sum: `$leaveBalances.${type}` }]))
+            }
+        },
+        { $sort: { _id: 1 } }
+    ]);
+
+    const byDepartment = rows.map((row) => {
+        const byLeaveType = Object.fromEntries(BALANCE_LEAVE_TYPES.map((type) => [type, roundTo(row[type])]));
+        return {
+            department: row._id,
+            headcount: row.headcount,
+            totalDays: roundTo(BALANCE_LEAVE_TYPES.reduce((total, type) => total + row[type], 0)),
+            byLeaveType
+        };
+    });
+
+    res.status(200).json(new ApiResponse(200, "Fetched Required Data", {
+        department: department ?? null,
+        totalDays: roundTo(byDepartment.reduce((total, row) => total + row.totalDays, 0)),
+        byLeaveType: Object.fromEntries(BALANCE_LEAVE_TYPES.map((type) =>
+            [type, roundTo(byDepartment.reduce((total, row) => total + row.byLeaveType[type], 0))]
+        )),
+        byDepartment
+    }));
+});
@@ -0,0 +1,327 @@
+import { Request, Response } from 'express';
+import { isValidObjectId } from 'mongoose';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import Leave, { ILeave, LeaveStatus } from '@/models/leave.model';
+import { IEmployee, Role } from '@/models/employee.model';
+import { AuditAction } from '@/models/auditLog.model';
+import { MAX_ATTACHMENTS_PER_LEAVE } from '@/config/storage';
+import { canDecideStep, findActingDelegation, getCurrentStep } from '@/services/approval.service';
+import { buildStorageKey, detectFileType, getFileStorage } from '@/services/attachment.service';
+import { recordLeaveEvent } from '@/services/audit.service';
+import { asyncHandler } from '@/utils/asyncHandler';
+import { ApiError, ApiResponse } from '@/utils/ApiResponse';
+import { rethrowConcurrentUpdate } from '@/utils/concurrentUpdate';
+
+// Leaves that are over and done with can't get new documents
+const CLOSED_LEAVE_STATUSES = [LeaveStatus.REJECTED, LeaveStatus.WITHDRAWN, LeaveStatus.CANCELLED];
+
+const isHrOrAdmin = (user: IEmployee) => [Role.HR, Role.ADMIN].includes(user.role);
+
+const findLeaveOrThrow = async (req: Request) => {
+    const { id } = req.params;
+    if (!isValidObjectId(id)) {
+        throw new ApiError(400, 'Invalid leave request ID.');
+    }
+    const leave = await Leave.findOne({ _id: id, organization: req.user!.organization });
+    if (!leave) {
+        throw new ApiError(404, 'Leave request not found');
+    }
+    return leave;
+};
+
+const findAttachmentOrThrow = (leave: ILeave, attachmentId: string) => {
+    const attachment = isValidObjectId(attachmentId) ? leave.attachments.id(attachmentId) : null;
+    if (!attachment) {
+        throw new ApiError(404, 'Attachment not found');
+    }
+    return attachment;
+};
+
+/**
+ * Whether the user may read the documents of a leave: its owner, HR and admins,
+ * whoever was on its approval chain, and whoever can decide its current step (including through a delegation).
+ */
+const canViewAttachments = async (user: IEmployee, leave: ILeave): Promise<boolean> => {
+    if (String(leave.employeId) === user.id || isHrOrAdmin(user)) {
+        return true;
+    }
+    const onChain = leave.approvalSteps.some((step) =>
+        [step.approver, step.decidedBy, step.onBehalfOf].some((approver) => approver && String(approver) === user.id)
+    );
+    if (onChain) {
+        return true;
+    }
+    if (leave.status !== LeaveStatus.PENDING || user.role === Role.EMPLOYEE) {
+        return false;
+    }
+    const step = getCurrentStep(leave);
+    return canDecideStep(user, step) || !!(await findActingDelegation(user, step));
+};
+
+/**
+ * Keeps the last path segment of an uploaded file name and drops characters that don't belong in a header.
+ */
+const cleanFileName = (originalName: string) => {
+    const name = path.basename(originalName.replace(/\\/g, '/')).replace(/[\u0000-\u001f\u007f"]/g, '').trim();
+    return (name || 'attachment').slice(0, 255);
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Attachment:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         fileName:
+ *           type: string
+ *           example: medical-certificate.pdf
+ *         mimeType:
+ *           type: string
+ *           enum: [application/pdf, image/jpeg, image/png]
+ *         size:
+ *           type: number
+ *           description: Size in bytes
+ *         uploadedBy:
+ *           type: string
+ *         uploadedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/v1/leaves/{id}/attachments:
+ *   post:
+ *     summary: Attach a supporting document to a leave request
+ *     description: Uploads one PDF, JPEG or PNG file (at most ATTACHMENT_MAX_SIZE_MB, 5 MB by default) in the `file` field. A leave can have up to 5 attachments.
+ *     tags:
+ *       - Leaves
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       201:
+ *         description: Document attached; returns the updated leave
+ *       400:
+ *         description: No file, unsupported file type, too many attachments, or the leave is closed
+ *       403:
+ *         description: Forbidden - Not your leave request
+ *       404:
+ *         description: Leave request not found
+ *       413:
+ *         description: The file is too large
+ */
+
+/**
+ * @function uploadLeaveAttachment
+ * @description Stores an uploaded document and attaches it to a leave that is not rejected, withdrawn or cancelled.
+ * @route POST /api/v1/leaves/:id/attachments
+ * @access Private (Owner, HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const uploadLeaveAttachment = asyncHandler(async (req: Request, res: Response) => {
+    const currentUser = req.user!;
+    const leave = await findLeaveOrThrow(req);
+
+    if (String(leave.employeId) !== currentUser.id && !isHrOrAdmin(currentUser)) {
+        throw new ApiError(403, 'You can only attach documents to your own leave requests.');
+    }
+    if (CLOSED_LEAVE_STATUSES.includes(leave.status)) {
+        throw new ApiError(400, `Documents can't be attached to a leave request that is ${leave.status}.`);
+    }
+    if (leave.attachments.length >= MAX_ATTACHMENTS_PER_LEAVE) {
+        throw new ApiError(400, `A leave request can have at most ${MAX_ATTACHMENTS_PER_LEAVE} attachments. Remove one first.`);
+    }
+
+    const file = req.file;
+    if (!file) {
+        throw new ApiError(400, 'Send the document as multipart/form-data in the "file" field.');
+    }
+    // The declared type is the client's word for it; the content has to agree
+    const mimeType = detectFileType(file.buffer);
+    if (mimeType !== file.mimetype) {
+        throw new ApiError(400, `The file content does not match its type ${file.mimetype}.`);
+    }
+
+    const fileName = cleanFileName(file.originalname);
+    const storageKey = buildStorageKey(leave._id, mimeType);
+    const storage = getFileStorage();
+    await storage.save(storageKey, file.buffer);
+
+    leave.attachments.push({
+        fileName,
+        mimeType,
+        size: file.size,
+        storageKey,
+        uploadedBy: currentUser._id,
+        uploadedAt: new Date()
+    });
+    try {
+        await leave.save();
+    } catch (error) {
+        // Don't leave an orphaned file behind when the leave couldn't be updated
+        await storage.remove(storageKey).catch((removeError) => console.error(`Failed to remove ${storageKey}:`, removeError));
+        rethrowConcurrentUpdate(error, 'leave request');
+    }
+
+    await recordLeaveEvent({ leave, actor: currentUser, action: AuditAction.UPDATED, comment: `Attached ${fileName}` });
+
+    res.status(201).json(new ApiResponse(201, "Document attached", leave));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/leaves/{id}/attachments/{attachmentId}:
+ *   get:
+ *     summary: Download a document attached to a leave request
+ *     description: Available to the leave's owner, HR, admins, its approvers and whoever currently stands in for its approver.
+ *     tags:
+ *       - Leaves
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: attachmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The file, as a download
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           image/jpeg:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           image/png:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       403:
+ *         description: Forbidden - Not involved with this leave request
+ *       404:
+ *         description: Leave request, attachment or stored file not found
+ */
+
+/**
+ * @function downloadLeaveAttachment
+ * @description Streams an attached document from the file storage to someone allowed to see the leave.
+ * @route GET /api/v1/leaves/:id/attachments/:attachmentId
+ * @access Private (Owner, Approvers, HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const downloadLeaveAttachment = asyncHandler(async (req: Request, res: Response) => {
+    const leave = await findLeaveOrThrow(req);
+
+    if (!(await canViewAttachments(req.user!, leave))) {
+        throw new ApiError(403, "You are not allowed to see this leave request's documents.");
+    }
+    const attachment = findAttachmentOrThrow(leave, req.params.attachmentId);
+
+    const stream = await getFileStorage().read(attachment.storageKey).catch((error) => {
+        console.error(`Failed to read ${attachment.storageKey}:`, error);
+        throw new ApiError(404, 'The attached file is no longer available.');
+    });
+
+    res.status(200);
+    res.attachment(attachment.fileName);
+    res.type(attachment.mimeType);
+    res.setHeader('Content-Length', attachment.size);
+
+    // Once the headers are out, a broken stream can only end the response
+    await pipeline(stream, res).catch((error) => console.error(`Failed to send ${attachment.storageKey}:`, error));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/leaves/{id}/attachments/{attachmentId}:
+ *   delete:
+ *     summary: Remove a document from a leave request
+ *     description: The owner can remove documents while the leave is pending; HR and admins at any time.
+ *     tags:
+ *       - Leaves
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: attachmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Document removed; returns the updated leave
+ *       400:
+ *         description: The leave is no longer pending
+ *       403:
+ *         description: Forbidden - Not your leave request
+ *       404:
+ *         description: Leave request or attachment not found
+ */
+
+/**
+ * @function deleteLeaveAttachment
+ * @description Detaches a document from a leave and deletes the stored file.
+ * @route DELETE /api/v1/leaves/:id/attachments/:attachmentId
+ * @access Private (Owner, HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const deleteLeaveAttachment = asyncHandler(async (req: Request, res: Response) => {
+    const currentUser = req.user!;
+    const leave = await findLeaveOrThrow(req);
+
+    if (!isHrOrAdmin(currentUser)) {
+        if (String(leave.employeId) !== currentUser.id) {
+            throw new ApiError(403, 'You can only remove documents from your own leave requests.');
+        }
+        // Approvers may have relied on the document already
+        if (leave.status !== LeaveStatus.PENDING) {
+            throw new ApiError(400, `Documents can only be removed while the leave request is pending. This request is ${leave.status}.`);
+        }
+    }
+    const attachment = findAttachmentOrThrow(leave, req.params.attachmentId);
+    const { fileName, storageKey } = attachment;
+
+    leave.attachments.pull(attachment._id);
+    await leave.save().catch((error) => rethrowConcurrentUpdate(error, 'leave request'));
+
+    // The leave no longer points at the file, so a failure here only leaves an unused file behind
+    await getFileStorage().remove(storageKey).catch((error) => console.error(`Failed to remove ${storageKey}:`, error));
+
+    await recordLeaveEvent({ leave, actor: currentUser, action: AuditAction.UPDATED, comment: `Removed attachment ${fileName}` });
+
+    res.status(200).json(new ApiResponse(200, "Attachment removed", leave));
+});
@@ -0,0 +1,173 @@
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { asyncHandler } from '@/utils/asyncHandler';
+import { ApiError, ApiResponse } from '@/utils/ApiResponse';
+import { signAccessToken } from '@/utils/token';
+import { getRepositories } from '@/services/persistence.service';
+
+/**
+ * @swagger
+ * /api/v1/auth/login:
+ *   post:
+ *     summary: Log in and obtain an access token
+ *     tags:
+ *       - Auth
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 description: Email address of the employee
+ *               password:
+ *                 type: string
+ *                 description: Password of the employee
+ *               organization:
+ *                 type: string
+ *                 description: Slug of the employee's organization. Only needed when the same email and password work in several organizations.
+ *     responses:
+ *       200:
+ *         description: Logged in successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *                       description: Bearer token to send in the Authorization header
+ *                     employee:
+ *                       type: object
+ *                       properties:
+ *                         _id:
+ *                           type: string
+ *                         fullName:
+ *                           type: string
+ *                         email:
+ *                           type: string
+ *                         role:
+ *                           type: string
+ *                           enum: [EMPLOYEE, MANAGER, HR, ADMIN]
+ *                     organization:
+ *                       type: object
+ *                       properties:
+ *                         _id:
+ *                           type: string
+ *                         name:
+ *                           type: string
+ *                         slug:
+ *                           type: string
+ *       400:
+ *         description: Bad request, or the credentials match accounts in several organizations and organization is needed
+ *       401:
+ *         description: Invalid credentials
+ *       403:
+ *         description: The account or its organization has been deactivated
+ */
+
+/**
+ * @function login
+ * @description Verifies an employee's email and password and issues a signed JWT access token.
+ * The same email can exist in several organizations; the optional organization slug picks one.
+ * @route POST /api/v1/auth/login
+ * @access Public
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const login = asyncHandler(async (req: Request, res: Response) => {
+    const { email, password, organization: slug } = req.body;
+
+    if (!email || !password) {
+        throw new ApiError(400, 'Email and password are required.');
+    }
+    if (slug !== undefined && typeof slug !== 'string') {
+        throw new ApiError(400, 'organization must be the slug of an organization.');
+    }
+
+    const { employees, organizations } = getRepositories();
+    let organizationId: Types.ObjectId | null | undefined;
+    if (slug) {
+        const organization = await organizations.findBySlug(slug);
+        // An unknown organization gets the same answer as unknown credentials
+        organizationId = organization?._id ?? null;
+    }
+
+    const candidates = await employees.findForLogin(String(email), organizationId);
+    const matches = [];
+    for (const candidate of candidates) {
+        if (await candidate.comparePassword(password)) {
+            matches.push(candidate);
+        }
+    }
+
+    // Use the same message for unknown emails and wrong passwords to avoid leaking accounts
+    if (!matches.length) {
+        throw new ApiError(401, 'Invalid email or password.');
+    }
+    if (matches.length > 1) {
+        throw new ApiError(400, 'These credentials belong to accounts in several organizations. Send the organization slug to choose one.');
+    }
+    const [employee] = matches;
+
+    if (!employee.isActive) {
+        throw new ApiError(403, 'This employee account has been deactivated.');
+    }
+
+    const organization = await organizations.findById(employee.organization);
+    if (!organization?.isActive) {
+        throw new ApiError(403, 'This organization has been deactivated.');
+    }
+
+    const token = signAccessToken({ sub: employee.id, role: employee.role });
+
+    res.status(200).json(new ApiResponse(200, "Logged in successfully", {
+        token,
+        employee: {
+            _id: employee._id,
+            fullName: employee.fullName,
+            email: employee.email,
+            role: employee.role,
+            department: employee.department
+        },
+        organization: {
+            _id: organization._id,
+            name: organization.name,
+            slug: organization.slug
+        }
+    }));
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/me:
+ *   get:
+ *     summary: Get the currently authenticated employee
+ *     tags:
+ *       - Auth
+ *     responses:
+ *       200:
+ *         description: The authenticated employee
+ *       401:
+ *         description: Unauthorized
+ */
+
+/**
+ * @function getCurrentEmployee
+ * @description Returns the profile of the employee identified by the access token.
+ * @route GET /api/v1/auth/me
+ * @access Private
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getCurrentEmployee = asyncHandler(async (req: Request, res: Response) => {
+    res.status(200).json(new ApiResponse(200, "Fetched current employee", req.user));
+});
@@ -0,0 +1,622 @@
+import { Request, Response } from 'express';
+import { createHash, randomBytes } from 'crypto';
+import { isValidObjectId } from 'mongoose';
+import Employee, { Role } from '@/models/employee.model';
+import Holiday from '@/models/holiday.model';
+import Leave, { DaySession, LeaveStatus } from '@/models/leave.model';
+import CalendarFeed, { CalendarFeedScope } from '@/models/calendarFeed.model';
+import { getWeekendDays } from '@/config/workWeek';
+import { isKnownDepartment } from '@/services/organization.service';
+import { LEAVE_APPROVER_ROLES } from '@/middleware/auth.middleware';
+import { asyncHandler } from '@/utils/asyncHandler';
+import { ApiError, ApiResponse } from '@/utils/ApiResponse';
+import { toDayKey, toUtcDay } from '@/utils/leaveDuration';
+import { buildICalendar, ICalEvent, ICalEventStatus } from '@/utils/ical';
+
+const MS_PER_DAY = 1000 * 3600 * 24;
+
+// Longest range the calendar returns in one call (about a quarter)
+const MAX_CALENDAR_DAYS = 92;
+
+// Approved leaves, including those waiting on a cancellation decision, keep the employee off
+const OFF_STATUSES = [LeaveStatus.APPROVED, LeaveStatus.CANCELLATION_REQUESTED];
+
+// Feeds only carry leaves that ended less than a year ago
+const FEED_HISTORY_DAYS = 365;
+
+// Domain part of the event UIDs; a leave keeps the same UID for its whole life
+const ICAL_UID_DOMAIN = 'simple-leave-management';
+
+const hashFeedToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const feedEventStatus = (status: LeaveStatus): ICalEventStatus => {
+    if (status === LeaveStatus.PENDING) return ICalEventStatus.TENTATIVE;
+    if (OFF_STATUSES.includes(status)) return ICalEventStatus.CONFIRMED;
+    return ICalEventStatus.CANCELLED;
+};
+
+/**
+ * SEQUENCE of a leave's event: seconds between its creation and its last change, so it goes up
+ * whenever the leave is saved (status, dates, cancellation), whatever wrote the change.
+ */
+const feedEventSequence = (leave: { createdAt?: Date; updatedAt?: Date }): number => {
+    if (!leave.createdAt || !leave.updatedAt) {
+        return 0;
+    }
+    return Math.max(0, Math.floor((leave.updatedAt.getTime() - leave.createdAt.getTime()) / 1000));
+};
+
+/**
+ * Employees can only follow their own department; approvers can follow any.
+ */
+const canFollowDepartment = (user: { role: Role; department: string }, department: string) =>
+    LEAVE_APPROVER_ROLES.includes(user.role) || user.department === department;
+
+interface CalendarAbsence {
+    employee: string;
+    fullName: string;
+    leave: string;
+    leaveType: string;
+    status: LeaveStatus;
+    session: DaySession;
+}
+
+interface CalendarDay {
+    date: string;
+    isWeekend: boolean;
+    holidays: string[];
+    headcount: number;
+    onLeave: number;
+    onHalfDayLeave: number;
+    available: number;
+    off: CalendarAbsence[];
+}
+
+/**
+ * The part of a given day a leave covers: the first and last day may be half days.
+ */
+const sessionOnDay = (leave: { startDate: Date; endDate: Date; startSession: DaySession; endSession: DaySession }, day: number): DaySession => {
+    if (day === toUtcDay(leave.startDate).getTime() && leave.startSession !== DaySession.FULL_DAY) {
+        return leave.startSession;
+    }
+    if (day === toUtcDay(leave.endDate).getTime() && leave.endSession !== DaySession.FULL_DAY) {
+        return leave.endSession;
+    }
+    return DaySession.FULL_DAY;
+};
+
+/**
+ * @swagger
+ * /api/v1/calendar/team:
+ *   get:
+ *     summary: Team availability calendar
+ *     description: For every day in the range, who is off and how many people are available, plus a timeline of leaves per employee. Leave reasons are not included.
+ *     tags:
+ *       - Calendar
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Inclusive, at most 92 days after `from`
+ *       - in: query
+ *         name: department
+ *         schema:
+ *           type: string
+ *           example: SDE-I
+ *       - in: query
+ *         name: includePending
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Also count pending requests as time off
+ *     responses:
+ *       200:
+ *         description: The availability calendar
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 from:
+ *                   type: string
+ *                   format: date
+ *                 to:
+ *                   type: string
+ *                   format: date
+ *                 department:
+ *                   type: string
+ *                 totalHeadcount:
+ *                   type: integer
+ *                 days:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       date:
+ *                         type: string
+ *                         format: date
+ *                       isWeekend:
+ *                         type: boolean
+ *                       holidays:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                       headcount:
+ *                         type: integer
+ *                         description: Employees on the payroll that day
+ *                       onLeave:
+ *                         type: integer
+ *                         description: Employees off for the whole day
+ *                       onHalfDayLeave:
+ *                         type: integer
+ *                       available:
+ *                         type: number
+ *                         description: Headcount minus absences, half days counting 0.5
+ *                       off:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             employee:
+ *                               type: string
+ *                             fullName:
+ *                               type: string
+ *                             leave:
+ *                               type: string
+ *                             leaveType:
+ *                               type: string
+ *                             status:
+ *                               type: string
+ *                             session:
+ *                               type: string
+ *                               enum: [FULL_DAY, FIRST_HALF, SECOND_HALF]
+ *                 employees:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       _id:
+ *                         type: string
+ *                       fullName:
+ *                         type: string
+ *                       department:
+ *                         type: string
+ *                       leaves:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *       400:
+ *         description: Invalid or too long date range, or invalid department
+ *       403:
+ *         description: Forbidden
+ */
+
+/**
+ * @function getTeamCalendar
+ * @description Builds a day-by-day availability calendar for a date range, optionally for one department.
+ * Employees, leaves and holidays are each fetched with a single query, so a month across the whole company stays cheap.
+ * @route GET /api/v1/calendar/team
+ * @access Private (Manager, HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getTeamCalendar = asyncHandler(async (req: Request, res: Response) => {
+    const { from, to, department, includePending } = req.query;
+
+    if (!from || !to) {
+        throw new ApiError(400, 'from and to are required.');
+    }
+
+    const start = toUtcDay(new Date(from as string));
+    const end = toUtcDay(new Date(to as string));
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+        throw new ApiError(400, 'Invalid date format for from or to.');
+    }
+    if (start > end) {
+        throw new ApiError(400, 'from cannot be after to.');
+    }
+    if ((end.getTime() - start.getTime()) / MS_PER_DAY + 1 > MAX_CALENDAR_DAYS) {
+        throw new ApiError(400, `The range cannot be longer than ${MAX_CALENDAR_DAYS} days.`);
+    }
+    const organization = req.organization!;
+    if (department && !isKnownDepartment(organization, department)) {
+        throw new ApiError(400, `Invalid department. Must be one of: ${organization.settings.departments.join(', ')}`);
+    }
+
+    // Everyone employed at some point in the range: joined before its end and not deactivated before its start
+    const employeeFilter: any = {
+        organization: organization._id,
+        joiningDate: { $lte: end },
+        $or: [{ isActive: { $ne: false } }, { deactivatedAt: { $gte: start } }]
+    };
+    if (department) employeeFilter.department = department;
+
+    const employees = await Employee.find(employeeFilter)
+        .select('fullName department location joiningDate isActive deactivatedAt')
+        .sort({ fullName: 1 })
+        .lean();
+
+    const statuses = includePending === 'true' ? [...OFF_STATUSES, LeaveStatus.PENDING] : OFF_STATUSES;
+
+    const holidayFilter: any = { organization: organization._id, date: { $gte: start, $lte: end } };
+    if (department) holidayFilter.department = { $in: [null, department] };
+
+    const [leaves, holidays] = await Promise.all([
+        Leave.find({
+            employeId: { $in: employees.map((employee) => employee._id) },
+            status: { $in: statuses },
+            startDate: { $lte: end },
+            endDate: { $gte: start }
+        })
+            .select('employeId leaveType startDate endDate startSession endSession status')
+            .sort({ startDate: 1 })
+            .lean(),
+        Holiday.find(holidayFilter).sort({ date: 1 }).lean()
+    ]);
+
+    const weekendDays = getWeekendDays();
+    const employeesById = new Map(employees.map((employee) => [String(employee._id), employee]));
+
+    // One entry per day of the range
+    const days = new Map<number, CalendarDay>();
+    for (let day = start.getTime(); day <= end.getTime(); day += MS_PER_DAY) {
+        const current = new Date(day);
+        const headcount = employees.filter((employee) =>
+            toUtcDay(employee.joiningDate).getTime() <= day &&
+            (employee.isActive !== false || !employee.deactivatedAt || employee.deactivatedAt.getTime() > day)
+        ).length;
+
+        days.set(day, {
+            date: toDayKey(current),
+            isWeekend: weekendDays.includes(current.getUTCDay()),
+            holidays: holidays.filter((holiday) => toDayKey(holiday.date) === toDayKey(current)).map((holiday) => holiday.name),
+            headcount,
+            onLeave: 0,
+            onHalfDayLeave: 0,
+            available: headcount,
+            off: []
+        });
+    }
+
+    // Spread every leave over the days it covers within the range
+    for (const leave of leaves) {
+        const employee = employeesById.get(String(leave.employeId));
+        if (!employee) continue;
+
+        const first = Math.max(toUtcDay(leave.startDate).getTime(), start.getTime());
+        const last = Math.min(toUtcDay(leave.endDate).getTime(), end.getTime());
+        for (let day = first; day <= last; day += MS_PER_DAY) {
+            const calendarDay = days.get(day)!;
+            const session = sessionOnDay(leave, day);
+
+            calendarDay.off.push({
+                employee: String(employee._id),
+                fullName: employee.fullName,
+                leave: String(leave._id),
+                leaveType: leave.leaveType,
+                status: leave.status,
+                session
+            });
+            if (session === DaySession.FULL_DAY) {
+                calendarDay.onLeave += 1;
+                calendarDay.available -= 1;
+            } else {
+                calendarDay.onHalfDayLeave += 1;
+                calendarDay.available -= 0.5;
+            }
+        }
+    }
+
+    // Timeline of leaves per employee
+    const leavesByEmployee = new Map<string, typeof leaves>();
+    for (const leave of leaves) {
+        const key = String(leave.employeId);
+        leavesByEmployee.set(key, [...(leavesByEmployee.get(key) ?? []), leave]);
+    }
+
+    res.status(200).json(new ApiResponse(200, "Fetched Required Data", {
+        from: toDayKey(start),
+        to: toDayKey(end),
+        department: department ?? null,
+        totalHeadcount: employees.length,
+        days: [...days.values()],
+        employees: employees.map((employee) => ({
+            _id: employee._id,
+            fullName: employee.fullName,
+            department: employee.department,
+            location: employee.location,
+            leaves: (leavesByEmployee.get(String(employee._id)) ?? []).map((leave) => ({
+                _id: leave._id,
+                leaveType: leave.leaveType,
+                status: leave.status,
+                startDate: leave.startDate,
+                endDate: leave.endDate,
+                startSession: leave.startSession,
+                endSession: leave.endSession
+            }))
+        }))
+    }));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/calendar/feeds:
+ *   post:
+ *     summary: Create an iCalendar subscription feed
+ *     description: Returns a secret URL that calendar apps (Outlook, Google Calendar...) can subscribe to without logging in. The token is only shown in this response.
+ *     tags:
+ *       - Calendar
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - scope
+ *             properties:
+ *               scope:
+ *                 type: string
+ *                 enum: [PERSONAL, DEPARTMENT]
+ *                 description: PERSONAL carries your own leaves, DEPARTMENT the approved leaves of a department
+ *               department:
+ *                 type: string
+ *                 example: SDE-I
+ *                 description: Required for DEPARTMENT feeds. Employees can only follow their own department.
+ *     responses:
+ *       201:
+ *         description: Feed created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 feed:
+ *                   type: object
+ *                 url:
+ *                   type: string
+ *                   description: Subscription URL containing the secret token
+ *       400:
+ *         description: Invalid scope or department
+ *       403:
+ *         description: Forbidden - Not your department
+ */
+
+/**
+ * @function createCalendarFeed
+ * @description Creates a personal or department iCalendar feed for the logged in employee and returns its secret URL once.
+ * @route POST /api/v1/calendar/feeds
+ * @access Private (Any logged in employee)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const createCalendarFeed = asyncHandler(async (req: Request, res: Response) => {
+    const currentUser = req.user!;
+    const { scope, department } = req.body;
+
+    if (!scope || !Object.values(CalendarFeedScope).includes(scope)) {
+        throw new ApiError(400, `Scope is required and must be one of: ${Object.values(CalendarFeedScope).join(', ')}`);
+    }
+    if (scope === CalendarFeedScope.DEPARTMENT) {
+        if (!isKnownDepartment(req.organization!, department)) {
+            throw new ApiError(400, `Department is required for a department feed and must be one of: ${req.organization!.settings.departments.join(', ')}`);
+        }
+        if (!canFollowDepartment(currentUser, department)) {
+            throw new ApiError(403, 'You can only subscribe to your own department.');
+        }
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const feed = await CalendarFeed.create({
+        owner: currentUser._id,
+        scope,
+        department: scope === CalendarFeedScope.DEPARTMENT ? department : undefined,
+        tokenHash: hashFeedToken(token)
+    });
+
+    res.status(201).json(new ApiResponse(201, "Calendar feed created", {
+        feed: {
+            _id: feed._id,
+            scope: feed.scope,
+            department: feed.department,
+            createdAt: feed.createdAt
+        },
+        url: `${req.protocol}://${req.get('host')}/api/v1/calendar/ical/${token}.ics`
+    }));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/calendar/feeds:
+ *   get:
+ *     summary: List your calendar feeds
+ *     description: The secret URLs are not shown again; revoke a feed and create a new one if a URL was lost.
+ *     tags:
+ *       - Calendar
+ *     responses:
+ *       200:
+ *         description: The logged in employee's feeds, newest first
+ */
+
+/**
+ * @function getCalendarFeeds
+ * @description Lists the calendar feeds of the logged in employee, including revoked ones.
+ * @route GET /api/v1/calendar/feeds
+ * @access Private (Any logged in employee)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getCalendarFeeds = asyncHandler(async (req: Request, res: Response) => {
+    const feeds = await CalendarFeed.find({ owner: req.user!._id }).sort({ createdAt: -1 });
+
+    res.status(200).json(new ApiResponse(200, "Fetched Required Data", feeds));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/calendar/feeds/{id}:
+ *   delete:
+ *     summary: Revoke a calendar feed
+ *     description: The feed URL stops working immediately.
+ *     tags:
+ *       - Calendar
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Feed revoked
+ *       400:
+ *         description: Invalid feed ID or already revoked
+ *       404:
+ *         description: Feed not found
+ */
+
+/**
+ * @function revokeCalendarFeed
+ * @description Revokes one of the logged in employee's feeds. Admins can revoke anyone's feed.
+ * @route DELETE /api/v1/calendar/feeds/:id
+ * @access Private (Feed owner, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const revokeCalendarFeed = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+        throw new ApiError(400, 'Invalid calendar feed ID.');
+    }
+
+    const feed = await CalendarFeed.findById(id);
+    // Other people's feeds are reported as missing; admins only see those of their own organization
+    const isOwner = feed && String(feed.owner) === req.user!.id;
+    if (!feed || (!isOwner && (req.user!.role !== Role.ADMIN ||
+        !await Employee.exists({ _id: feed.owner, organization: req.user!.organization })))) {
+        throw new ApiError(404, 'Calendar feed not found.');
+    }
+    if (feed.revokedAt) {
+        throw new ApiError(400, 'Calendar feed is already revoked.');
+    }
+
+    feed.revokedAt = new Date();
+    await feed.save();
+
+    res.status(200).json(new ApiResponse(200, "Calendar feed revoked", feed));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/calendar/ical/{token}.ics:
+ *   get:
+ *     summary: iCalendar feed
+ *     description: RFC 5545 calendar for subscription in calendar apps. Authenticated by the secret token in the URL, not by a bearer token. Every leave keeps the same UID, so status changes and cancellations update the existing event.
+ *     tags:
+ *       - Calendar
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The calendar
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Unknown or revoked feed
+ */
+
+/**
+ * @function getCalendarFeedIcs
+ * @description Renders a feed as an iCalendar document. Personal feeds carry all of the owner's leaves
+ * (pending ones as tentative); department feeds carry approved leaves without reasons.
+ * Leaves that were cancelled, withdrawn or rejected stay in the feed as cancelled events so subscribers remove them.
+ * @route GET /api/v1/calendar/ical/:token.ics
+ * @access Public (secret feed token)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getCalendarFeedIcs = asyncHandler(async (req: Request, res: Response) => {
+    const { token } = req.params;
+
+    const feed = await CalendarFeed.findOne({ tokenHash: hashFeedToken(token), revokedAt: null });
+    const owner = feed && await Employee.findById(feed.owner);
+    // A feed stops working when its owner leaves or may no longer see the department
+    if (!feed || !owner || owner.isActive === false ||
+        (feed.scope === CalendarFeedScope.DEPARTMENT && !canFollowDepartment(owner, feed.department!))) {
+        throw new ApiError(404, 'Calendar feed not found.');
+    }
+
+    const since = toUtcDay(new Date(Date.now() - FEED_HISTORY_DAYS * MS_PER_DAY));
+    let name: string;
+    let events: ICalEvent[];
+
+    if (feed.scope === CalendarFeedScope.PERSONAL) {
+        const leaves = await Leave.find({ employeId: owner._id, endDate: { $gte: since } })
+            .sort({ startDate: 1 })
+            .lean();
+
+        name = `${owner.fullName} - Leave`;
+        events = leaves.map((leave) => ({
+            uid: `${leave._id}@${ICAL_UID_DOMAIN}`,
+            sequence: feedEventSequence(leave),
+            stamp: leave.updatedAt ?? leave.startDate,
+            startDate: leave.startDate,
+            endDate: leave.endDate,
+            summary: `${leave.leaveType} leave${leave.status === LeaveStatus.PENDING ? ' (pending approval)' : ''}`,
+            description: `${leave.reason}\nStatus: ${leave.status}\nSessions: ${leave.startSession} to ${leave.endSession}`,
+            status: feedEventStatus(leave.status)
+        }));
+    } else {
+        const employees = await Employee.find({ organization: owner.organization, department: feed.department }).select('fullName').lean();
+        const namesById = new Map(employees.map((employee) => [String(employee._id), employee.fullName]));
+
+        // Cancelled leaves are kept so that subscribers drop the event they saw while it was approved
+        const leaves = await Leave.find({
+            employeId: { $in: employees.map((employee) => employee._id) },
+            status: { $in: [...OFF_STATUSES, LeaveStatus.CANCELLED] },
+            endDate: { $gte: since }
+        })
+            .select('employeId leaveType startDate endDate startSession endSession status createdAt updatedAt')
+            .sort({ startDate: 1 })
+            .lean();
+
+        name = `${feed.department} - Leave`;
+        events = leaves.map((leave) => ({
+            uid: `${leave._id}@${ICAL_UID_DOMAIN}`,
+            sequence: feedEventSequence(leave),
+            stamp: leave.updatedAt ?? leave.startDate,
+            startDate: leave.startDate,
+            endDate: leave.endDate,
+            summary: `${namesById.get(String(leave.employeId))} - ${leave.leaveType} leave`,
+            description: `Sessions: ${leave.startSession} to ${leave.endSession}`,
+            status: feedEventStatus(leave.status)
+        }));
+    }
+
+    await CalendarFeed.updateOne({ _id: feed._id }, { lastAccessedAt: new Date() });
+
+    res.status(200)
+        .type('text/calendar; charset=utf-8')
+        .send(buildICalendar({ name, events }));
+});
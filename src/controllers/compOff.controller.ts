@@ -0,0 +1,544 @@
+import { Request, Response } from 'express';
+import mongoose, { FilterQuery, isValidObjectId, SortOrder } from 'mongoose';
+import CompOff, { ACTIVE_COMP_OFF_STATUSES, CompOffStatus, ICompOff } from '@/models/compOff.model';
+import { ApprovalLevel, LeaveType } from '@/models/leave.model';
+import { LedgerEntryKind } from '@/models/ledgerEntry.model';
+import { getCompOffExpiryDays, getCompOffHoursPerDay } from '@/config/compOff';
+import { canDecideStep, findActingDelegation } from '@/services/approval.service';
+import { calculateCompOffDays, pendingCompOffFilter, toApprovalStep } from '@/services/compOff.service';
+import { postLedgerEntry } from '@/services/ledger.service';
+import { asyncHandler } from '@/utils/asyncHandler';
+import { ApiError, ApiResponse } from '@/utils/ApiResponse';
+import { calculateLeaveDuration, toDayKey, toUtcDay } from '@/utils/leaveDuration';
+import { rethrowConcurrentUpdate } from '@/utils/concurrentUpdate';
+
+const MS_PER_DAY = 1000 * 3600 * 24;
+
+const findClaimOrThrow = async (req: Request) => {
+    const { id } = req.params;
+    if (!isValidObjectId(id)) {
+        throw new ApiError(400, 'Invalid comp-off claim ID.');
+    }
+    const claim = await CompOff.findOne({ _id: id, organization: req.user!.organization });
+    if (!claim) {
+        throw new ApiError(404, 'Comp-off claim not found');
+    }
+    return claim;
+};
+
+/**
+ * Sends one page of the claims matching the filter with the usual pagination metadata.
+ */
+const sendClaimPage = async (req: Request, res: Response, queryFilter: FilterQuery<ICompOff>, sort: Record<string, SortOrder>) => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 9;
+
+    const skip = (page - 1) * limit;
+
+    const [claims, totalDocuments] = await Promise.all([
+        CompOff.find(queryFilter).sort({ ...sort, _id: -1 }).limit(limit).skip(skip).populate('employee', 'fullName email department'),
+        CompOff.countDocuments(queryFilter)
+    ]);
+
+    const totalPages = Math.ceil(totalDocuments / limit);
+
+    res.status(200).json(new ApiResponse(
+        200,
+        "Fetched Required Data",
+        {
+            data: claims,
+            pagination: {
+                totalDocuments,
+                totalPages,
+                currentPage: page,
+                limit,
+            }
+        }
+    ));
+};
+
+const parseStatusFilter = (status: unknown): CompOffStatus | undefined => {
+    if (!status) {
+        return undefined;
+    }
+    if (!Object.values(CompOffStatus).includes(status as CompOffStatus)) {
+        throw new ApiError(400, `Invalid status. Must be one of: ${Object.values(CompOffStatus).join(', ')}`);
+    }
+    return status as CompOffStatus;
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CompOff:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         employee:
+ *           type: string
+ *         workedOn:
+ *           type: string
+ *           format: date
+ *           description: The weekend day or holiday that was worked
+ *         hours:
+ *           type: number
+ *         reason:
+ *           type: string
+ *         days:
+ *           type: number
+ *           description: COMP_OFF days credited on approval (half or full day)
+ *         approverLevel:
+ *           type: string
+ *           enum: [MANAGER, HR]
+ *         approver:
+ *           type: string
+ *           description: The reporting manager when the claim was made
+ *         status:
+ *           type: string
+ *           enum: [Pending, Approved, Rejected, Withdrawn]
+ *         decidedBy:
+ *           type: string
+ *         onBehalfOf:
+ *           type: string
+ *         decidedAt:
+ *           type: string
+ *           format: date-time
+ *         comment:
+ *           type: string
+ *         expiresOn:
+ *           type: string
+ *           format: date
+ *           description: From this day on, the unused part of the credit lapses
+ *         expiredAt:
+ *           type: string
+ *           format: date-time
+ *         expiredDays:
+ *           type: number
+ *           description: Part of the credit that was still unused when it expired
+ */
+
+/**
+ * @swagger
+ * /api/v1/comp-offs:
+ *   post:
+ *     summary: Claim comp-off for working on a weekend or holiday
+ *     description: The claim goes to the employee's reporting manager (HR if there is none). Once approved, the credited days are added to the COMP_OFF balance and can be taken as COMP_OFF leave until the credit expires.
+ *     tags:
+ *       - Comp-Off
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [workedOn, hours, reason]
+ *             properties:
+ *               workedOn:
+ *                 type: string
+ *                 format: date
+ *                 example: "2025-08-16"
+ *               hours:
+ *                 type: number
+ *                 example: 8
+ *               reason:
+ *                 type: string
+ *                 maxLength: 300
+ *                 example: Weekend production release
+ *     responses:
+ *       201:
+ *         description: Comp-off claimed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CompOff'
+ *       400:
+ *         description: Bad request, a working day, a future day, too few hours, or a day whose credit would already have expired
+ *       409:
+ *         description: The day has already been claimed
+ */
+
+/**
+ * @function claimCompOff
+ * @description Records a comp-off claim for a weekend day or holiday the logged in employee worked on.
+ * @route POST /api/v1/comp-offs
+ * @access Private
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const claimCompOff = asyncHandler(async (req: Request, res: Response) => {
+    const employee = req.user!;
+    const { workedOn, hours, reason } = req.body;
+
+    if (!workedOn || hours === undefined || !reason) {
+        throw new ApiError(400, 'workedOn, hours and reason are required.');
+    }
+    if (typeof hours !== 'number' || !(hours > 0) || hours > 24) {
+        throw new ApiError(400, 'hours must be a number greater than 0 and at most 24.');
+    }
+    if (typeof reason !== 'string' || !reason.trim() || reason.length > 300) {
+        throw new ApiError(400, 'reason must be a non-empty string of at most 300 characters.');
+    }
+
+    const day = toUtcDay(new Date(workedOn));
+    if (isNaN(day.getTime())) {
+        throw new ApiError(400, 'Invalid date format for workedOn.');
+    }
+    const today = toUtcDay(new Date());
+    if (day > today) {
+        throw new ApiError(400, 'Comp-off can only be claimed for a day that has already been worked.');
+    }
+    if (day < toUtcDay(employee.joiningDate)) {
+        throw new ApiError(400, "Cannot claim comp-off for a day before the employee's joining date.");
+    }
+
+    const expiryDays = getCompOffExpiryDays();
+    const expiresOn = new Date(day.getTime() + expiryDays * MS_PER_DAY);
+    if (expiresOn <= today) {
+        throw new ApiError(400, `Comp-off expires ${expiryDays} days after the day worked, so ${toDayKey(day)} can no longer be claimed.`);
+    }
+
+    const days = calculateCompOffDays(hours);
+    if (days === 0) {
+        throw new ApiError(400, `At least ${getCompOffHoursPerDay() / 2} hours of work are needed to earn half a day of comp-off.`);
+    }
+
+    // Only time worked on a day off earns comp-off
+    const duration = await calculateLeaveDuration({
+        organization: employee.organization,
+        startDate: day,
+        endDate: day,
+        department: employee.department,
+        location: employee.location
+    });
+    if (duration.chargedDays > 0) {
+        throw new ApiError(400, `${toDayKey(day)} is a working day. Comp-off can only be claimed for weekends and holidays.`);
+    }
+
+    const alreadyClaimed = await CompOff.exists({ employee: employee._id, workedOn: day, status: { $in: ACTIVE_COMP_OFF_STATUSES } });
+    if (alreadyClaimed) {
+        throw new ApiError(409, `Comp-off for ${toDayKey(day)} has already been claimed.`);
+    }
+
+    const claim = await CompOff.create({
+        organization: employee.organization,
+        employee: employee._id,
+        workedOn: day,
+        hours,
+        reason,
+        days,
+        approverLevel: employee.reportingManager ? ApprovalLevel.MANAGER : ApprovalLevel.HR,
+        approver: employee.reportingManager,
+        expiresOn
+    });
+
+    res.status(201).json(new ApiResponse(201, "Comp-off claimed", claim));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/comp-offs/me:
+ *   get:
+ *     summary: List the logged in employee's comp-off claims
+ *     tags:
+ *       - Comp-Off
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [Pending, Approved, Rejected, Withdrawn]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 9
+ *     responses:
+ *       200:
+ *         description: The employee's claims, most recent day worked first, with pagination metadata
+ *       400:
+ *         description: Invalid status
+ */
+
+/**
+ * @function getMyCompOffs
+ * @description Retrieves a paginated list of the logged in employee's comp-off claims.
+ * @route GET /api/v1/comp-offs/me
+ * @access Private
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getMyCompOffs = asyncHandler(async (req: Request, res: Response) => {
+    const status = parseStatusFilter(req.query.status);
+
+    await sendClaimPage(req, res, { employee: req.user!._id, ...(status ? { status } : {}) }, { workedOn: -1 });
+});
+
+
+/**
+ * @swagger
+ * /api/v1/comp-offs/pending-approval:
+ *   get:
+ *     summary: List the comp-off claims waiting on the logged in approver
+ *     description: Includes the claims of the approvers the caller has an active delegation from. HR sees every claim of employees without a manager; admins see all pending claims.
+ *     tags:
+ *       - Comp-Off
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 9
+ *     responses:
+ *       200:
+ *         description: Pending claims, oldest day worked first, with pagination metadata
+ *       403:
+ *         description: Forbidden
+ */
+
+/**
+ * @function getPendingCompOffs
+ * @description Retrieves the pending comp-off claims the logged in user can decide on.
+ * @route GET /api/v1/comp-offs/pending-approval
+ * @access Private (Manager, HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getPendingCompOffs = asyncHandler(async (req: Request, res: Response) => {
+    // Oldest first, so nothing gets close to expiring unnoticed
+    await sendClaimPage(req, res, await pendingCompOffFilter(req.user!), { workedOn: 1 });
+});
+
+
+/**
+ * @swagger
+ * /api/v1/comp-offs:
+ *   get:
+ *     summary: List all comp-off claims
+ *     tags:
+ *       - Comp-Off
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [Pending, Approved, Rejected, Withdrawn]
+ *       - in: query
+ *         name: employee
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 9
+ *     responses:
+ *       200:
+ *         description: Claims, most recent day worked first, with pagination metadata
+ *       400:
+ *         description: Invalid filter
+ */
+
+/**
+ * @function getAllCompOffs
+ * @description Retrieves every comp-off claim, filtered by status and employee.
+ * @route GET /api/v1/comp-offs
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getAllCompOffs = asyncHandler(async (req: Request, res: Response) => {
+    const status = parseStatusFilter(req.query.status);
+    const { employee } = req.query;
+
+    const queryFilter: FilterQuery<ICompOff> = { organization: req.user!.organization };
+    if (status) {
+        queryFilter.status = status;
+    }
+    if (employee) {
+        if (!isValidObjectId(employee)) {
+            throw new ApiError(400, 'Invalid employee ID.');
+        }
+        queryFilter.employee = employee;
+    }
+
+    await sendClaimPage(req, res, queryFilter, { workedOn: -1 });
+});
+
+
+/**
+ * @swagger
+ * /api/v1/comp-offs/{id}:
+ *   patch:
+ *     summary: Approve or reject a comp-off claim
+ *     description: Approval credits the claim's days to the employee's COMP_OFF balance, recorded in the balance ledger.
+ *     tags:
+ *       - Comp-Off
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [Approved, Rejected]
+ *               comment:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Claim decided
+ *       400:
+ *         description: Invalid decision, the claim is no longer pending, or its credit would already have expired
+ *       403:
+ *         description: Not the claim's approver, or the caller's own claim
+ *       404:
+ *         description: Comp-off claim not found
+ *       409:
+ *         description: The claim was changed in the meantime
+ */
+
+/**
+ * @function decideCompOff
+ * @description Records the approver's decision on a pending comp-off claim; on approval the days are credited in the same transaction.
+ * @route PATCH /api/v1/comp-offs/:id
+ * @access Private (Manager, HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const decideCompOff = asyncHandler(async (req: Request, res: Response) => {
+    const { status, comment } = req.body;
+
+    if (![CompOffStatus.APPROVED, CompOffStatus.REJECTED].includes(status)) {
+        throw new ApiError(400, "Status is required and must be 'Approved' or 'Rejected'.");
+    }
+    if (comment !== undefined && (typeof comment !== 'string' || comment.length > 500)) {
+        throw new ApiError(400, 'Comment must be a string of at most 500 characters.');
+    }
+
+    const claim = await findClaimOrThrow(req);
+    if (claim.status !== CompOffStatus.PENDING) {
+        throw new ApiError(400, `This comp-off claim has already been ${claim.status}.`);
+    }
+    if (claim.employee.equals(req.user!._id)) {
+        throw new ApiError(403, 'You cannot approve or reject your own comp-off claim.');
+    }
+
+    // The same people who would decide a leave at this step, including through a delegation
+    const step = toApprovalStep(claim);
+    const acting = canDecideStep(req.user!, step) ? undefined : await findActingDelegation(req.user!, step);
+    if (!canDecideStep(req.user!, step) && !acting) {
+        throw new ApiError(403, `This comp-off claim is waiting for ${claim.approverLevel} approval from someone else.`);
+    }
+
+    if (status === CompOffStatus.APPROVED && claim.expiresOn <= toUtcDay(new Date())) {
+        throw new ApiError(400, `The credit for ${toDayKey(claim.workedOn)} would already have expired on ${toDayKey(claim.expiresOn)}. Reject the claim instead.`);
+    }
+
+    claim.status = status;
+    claim.decidedBy = req.user!._id;
+    claim.onBehalfOf = acting?.delegator._id;
+    claim.decidedAt = new Date();
+    claim.comment = comment;
+
+    if (status === CompOffStatus.REJECTED) {
+        await claim.save().catch((error) => rethrowConcurrentUpdate(error, 'comp-off claim'));
+        res.status(200).json(new ApiResponse(200, "Comp-off claim rejected", claim));
+        return;
+    }
+
+    // The credit and the decision commit together or not at all
+    await mongoose.connection.transaction(async (session) => {
+        const entry = await postLedgerEntry({
+            employee: claim.employee,
+            leaveType: LeaveType.COMP_OFF,
+            kind: LedgerEntryKind.COMP_OFF_CREDIT,
+            days: claim.days,
+            compOff: claim._id,
+            actor: req.user!._id,
+            note: `Worked on ${toDayKey(claim.workedOn)} (${claim.hours} hours)`
+        }, session);
+        if (!entry) {
+            throw new ApiError(404, 'The employee of this comp-off claim could not be found.');
+        }
+
+        await claim.save({ session });
+    }).catch((error) => rethrowConcurrentUpdate(error, 'comp-off claim'));
+
+    res.status(200).json(new ApiResponse(200, "Comp-off claim approved", claim));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/comp-offs/{id}/withdraw:
+ *   patch:
+ *     summary: Withdraw a pending comp-off claim
+ *     tags:
+ *       - Comp-Off
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Claim withdrawn
+ *       400:
+ *         description: The claim is no longer pending
+ *       403:
+ *         description: Forbidden - Not your claim
+ *       404:
+ *         description: Comp-off claim not found
+ */
+
+/**
+ * @function withdrawCompOff
+ * @description Withdraws a pending comp-off claim. Nothing has been credited yet.
+ * @route PATCH /api/v1/comp-offs/:id/withdraw
+ * @access Private (Owner)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const withdrawCompOff = asyncHandler(async (req: Request, res: Response) => {
+    const claim = await findClaimOrThrow(req);
+
+    if (!claim.employee.equals(req.user!._id)) {
+        throw new ApiError(403, 'You can only withdraw your own comp-off claims.');
+    }
+    if (claim.status !== CompOffStatus.PENDING) {
+        throw new ApiError(400, `Only pending claims can be withdrawn. This claim is ${claim.status}.`);
+    }
+
+    claim.status = CompOffStatus.WITHDRAWN;
+    await claim.save().catch((error) => rethrowConcurrentUpdate(error, 'comp-off claim'));
+
+    res.status(200).json(new ApiResponse(200, "Comp-off claim withdrawn", claim));
+});
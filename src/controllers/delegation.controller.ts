@@ -0,0 +1,362 @@
+import { Request, Response } from 'express';
+import { FilterQuery, isValidObjectId } from 'mongoose';
+import Delegation, { DelegationSource, IDelegation } from '@/models/delegation.model';
+import Employee, { Role } from '@/models/employee.model';
+import { LEAVE_APPROVER_ROLES } from '@/middleware/auth.middleware';
+import { activeDelegationFilter } from '@/services/delegation.service';
+import { asyncHandler } from '@/utils/asyncHandler';
+import { ApiError, ApiResponse } from '@/utils/ApiResponse';
+import { toUtcDay } from '@/utils/leaveDuration';
+
+const DELEGATION_STATES = ['active', 'upcoming', 'ended', 'revoked'];
+
+const canManageAll = (req: Request) => [Role.HR, Role.ADMIN].includes(req.user!.role);
+
+/**
+ * Query for the delegations in the given state on the current day.
+ */
+const stateFilter = (state: string): FilterQuery<IDelegation> => {
+    const today = toUtcDay(new Date());
+    switch (state) {
+        case 'active':
+            return activeDelegationFilter();
+        case 'upcoming':
+            return { revokedAt: { $exists: false }, startDate: { $gt: today } };
+        case 'ended':
+            return { revokedAt: { $exists: false }, endDate: { $lt: today } };
+        default:
+            return { revokedAt: { $exists: true } };
+    }
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Delegation:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         delegator:
+ *           type: string
+ *           description: The approver whose approval rights are handed over
+ *         delegate:
+ *           type: string
+ *           description: Who decides in their place
+ *         startDate:
+ *           type: string
+ *           format: date
+ *         endDate:
+ *           type: string
+ *           format: date
+ *         reason:
+ *           type: string
+ *         source:
+ *           type: string
+ *           enum: [MANUAL, LEAVE]
+ *           description: LEAVE when it was set up automatically for the delegator's approved leave
+ *         leave:
+ *           type: string
+ *         createdBy:
+ *           type: string
+ *         revokedAt:
+ *           type: string
+ *           format: date-time
+ *         revokedBy:
+ *           type: string
+ */
+
+/**
+ * @swagger
+ * /api/v1/delegations:
+ *   get:
+ *     summary: List approval delegations
+ *     description: Managers see the delegations they gave or received; HR and admins see all of them.
+ *     tags:
+ *       - Delegations
+ *     parameters:
+ *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *           enum: [active, upcoming, ended, revoked]
+ *       - in: query
+ *         name: delegator
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: delegate
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 9
+ *     responses:
+ *       200:
+ *         description: Delegations, latest start date first, with pagination metadata
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Delegation'
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     totalDocuments:
+ *                       type: integer
+ *                     totalPages:
+ *                       type: integer
+ *                     currentPage:
+ *                       type: integer
+ *                     limit:
+ *                       type: integer
+ *       400:
+ *         description: Invalid filter
+ */
+
+/**
+ * @function getDelegations
+ * @description Lists approval delegations, filtered by state, delegator and delegate. Managers only see those involving them.
+ * @route GET /api/v1/delegations
+ * @access Private (Manager, HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getDelegations = asyncHandler(async (req: Request, res: Response) => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 9;
+    const { state, delegator, delegate } = req.query;
+
+    const skip = (page - 1) * limit;
+
+    const conditions: FilterQuery<IDelegation>[] = [{ organization: req.user!.organization }];
+    if (state) {
+        if (!DELEGATION_STATES.includes(state as string)) {
+            throw new ApiError(400, `Invalid state. Must be one of: ${DELEGATION_STATES.join(', ')}`);
+        }
+        conditions.push(stateFilter(state as string));
+    }
+    for (const [field, value] of [['delegator', delegator], ['delegate', delegate]] as const) {
+        if (value) {
+            if (!isValidObjectId(value)) {
+                throw new ApiError(400, `Invalid ${field} ID.`);
+            }
+            conditions.push({ [field]: value });
+        }
+    }
+    if (!canManageAll(req)) {
+        conditions.push({ $or: [{ delegator: req.user!._id }, { delegate: req.user!._id }] });
+    }
+    const queryFilter = { $and: conditions };
+
+    const [delegations, totalDocuments] = await Promise.all([
+        Delegation.find(queryFilter)
+            .sort({ startDate: -1, _id: -1 })
+            .limit(limit)
+            .skip(skip)
+            .populate('delegator', 'fullName email')
+            .populate('delegate', 'fullName email'),
+        Delegation.countDocuments(queryFilter)
+    ]);
+
+    const totalPages = Math.ceil(totalDocuments / limit);
+
+    res.status(200).json(new ApiResponse(
+        200,
+        "Fetched Required Data",
+        {
+            data: delegations,
+            pagination: {
+                totalDocuments,
+                totalPages,
+                currentPage: page,
+                limit,
+            }
+        }
+    ));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/delegations:
+ *   post:
+ *     summary: Delegate approval rights for a date range
+ *     description: While the delegation is active, the delegate can decide on the requests waiting on the delegator and sees them in pending-approval.
+ *     tags:
+ *       - Delegations
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [delegateId, startDate, endDate]
+ *             properties:
+ *               delegateId:
+ *                 type: string
+ *                 description: An active manager, HR or admin
+ *               delegatorId:
+ *                 type: string
+ *                 description: HR and admins only. Defaults to the logged in approver.
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Delegation created
+ *       400:
+ *         description: Bad request
+ *       403:
+ *         description: Delegating on behalf of someone else
+ *       404:
+ *         description: Delegator or delegate not found
+ */
+
+/**
+ * @function createDelegation
+ * @description Hands the approver's approval rights to another approver from startDate to endDate (inclusive).
+ * @route POST /api/v1/delegations
+ * @access Private (Manager, HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const createDelegation = asyncHandler(async (req: Request, res: Response) => {
+    const { delegateId, delegatorId, startDate, endDate, reason } = req.body;
+
+    if (!delegateId || !startDate || !endDate) {
+        throw new ApiError(400, 'delegateId, startDate and endDate are required.');
+    }
+    if (delegatorId !== undefined && String(delegatorId) !== req.user!.id && !canManageAll(req)) {
+        throw new ApiError(403, 'Only HR and admins can set up a delegation for someone else.');
+    }
+    if (!isValidObjectId(delegateId) || (delegatorId !== undefined && !isValidObjectId(delegatorId))) {
+        throw new ApiError(400, 'Invalid delegator or delegate ID.');
+    }
+    if (reason !== undefined && (typeof reason !== 'string' || reason.length > 300)) {
+        throw new ApiError(400, 'reason must be a string of at most 300 characters.');
+    }
+
+    const start = toUtcDay(new Date(startDate));
+    const end = toUtcDay(new Date(endDate));
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+        throw new ApiError(400, 'Invalid date format for startDate or endDate.');
+    }
+    if (start > end) {
+        throw new ApiError(400, 'The end date must be on or after the start date.');
+    }
+    if (end < toUtcDay(new Date())) {
+        throw new ApiError(400, 'A delegation cannot end in the past.');
+    }
+
+    const delegator = delegatorId !== undefined ? await Employee.findOne({ _id: delegatorId, organization: req.user!.organization }) : req.user!;
+    if (!delegator || !delegator.isActive) {
+        throw new ApiError(404, 'Delegator not found or deactivated.');
+    }
+    if (!LEAVE_APPROVER_ROLES.includes(delegator.role)) {
+        throw new ApiError(400, `Only approvers can delegate. The delegator must have one of the roles: ${LEAVE_APPROVER_ROLES.join(', ')}`);
+    }
+
+    if (String(delegateId) === delegator.id) {
+        throw new ApiError(400, 'An approver cannot delegate to themselves.');
+    }
+    const delegate = await Employee.findOne({ _id: delegateId, organization: req.user!.organization });
+    if (!delegate || !delegate.isActive) {
+        throw new ApiError(404, 'Delegate not found or deactivated.');
+    }
+    if (!LEAVE_APPROVER_ROLES.includes(delegate.role)) {
+        throw new ApiError(400, `The delegate must have one of the roles: ${LEAVE_APPROVER_ROLES.join(', ')}`);
+    }
+
+    const delegation = await Delegation.create({
+        organization: req.user!.organization,
+        delegator: delegator._id,
+        delegate: delegate._id,
+        startDate: start,
+        endDate: end,
+        reason,
+        source: DelegationSource.MANUAL,
+        createdBy: req.user!._id
+    });
+
+    res.status(201).json(new ApiResponse(201, "Delegation created", delegation));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/delegations/{id}/revoke:
+ *   patch:
+ *     summary: Revoke a delegation
+ *     description: The delegate can no longer decide for the delegator from now on. Decisions already made stand.
+ *     tags:
+ *       - Delegations
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Delegation revoked
+ *       400:
+ *         description: Invalid ID, or the delegation was already revoked or has ended
+ *       403:
+ *         description: Not the delegator, HR or an admin
+ *       404:
+ *         description: Delegation not found
+ */
+
+/**
+ * @function revokeDelegation
+ * @description Ends a delegation early. Only the delegator, HR and admins can revoke it.
+ * @route PATCH /api/v1/delegations/:id/revoke
+ * @access Private (Manager, HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const revokeDelegation = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+        throw new ApiError(400, 'Invalid delegation ID.');
+    }
+
+    const delegation = await Delegation.findOne({ _id: id, organization: req.user!.organization });
+    if (!delegation) {
+        throw new ApiError(404, 'Delegation not found');
+    }
+    if (!delegation.delegator.equals(req.user!._id) && !canManageAll(req)) {
+        throw new ApiError(403, 'Only the delegator, HR and admins can revoke a delegation.');
+    }
+    if (delegation.revokedAt) {
+        throw new ApiError(400, 'This delegation has already been revoked.');
+    }
+    if (delegation.endDate < toUtcDay(new Date())) {
+        throw new ApiError(400, 'This delegation has already ended.');
+    }
+
+    delegation.revokedAt = new Date();
+    delegation.revokedBy = req.user!._id;
+    await delegation.save();
+
+    res.status(200).json(new ApiResponse(200, "Delegation revoked", delegation));
+});
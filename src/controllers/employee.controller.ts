@@ -1,8 +1,233 @@
-import EmployeeModel from "@/models/employee.model";
+import EmployeeModel, { IEmployee } from "@/models/employee.model";
 import { ApiError, ApiResponse } from "@/utils/ApiResponse";
 import { asyncHandler } from "@/utils/asyncHandler";
 import { Request, Response } from "express"
-import { Department } from "@/models/employee.model";
+import mongoose, { isValidObjectId, Types } from "mongoose";
+import { Role } from "@/models/employee.model";
+import { BALANCE_LEAVE_TYPES, BalanceLeaveType } from "@/models/leave.model";
+import { getAccruedLeaveTypes } from "@/services/accrual.service";
+import { getDefaultLeaveBalances, isKnownDepartment } from "@/services/organization.service";
+import { diffSnapshots, getHistory, recordEmployeeEvent, snapshotEmployee } from "@/services/audit.service";
+import { AuditAction, AuditEntityType } from "@/models/auditLog.model";
+import { parseCsv } from "@/utils/csv";
+import { postLedgerEntry, reconcileBalances, recordOpeningBalances } from "@/services/ledger.service";
+import LedgerEntry, { LedgerEntryKind } from "@/models/ledgerEntry.model";
+import { emitEmployeeEvent } from "@/services/webhook.service";
+import { WebhookEvent } from "@/models/webhookSubscription.model";
+import { IOrganization } from "@/models/organization.model";
+import { getRepositories } from "@/services/persistence.service";
+import { NewEmployee } from "@/config/persistence";
+
+// Fields that can be changed through PATCH /api/v1/employees/:id
+const UPDATABLE_FIELDS = ['fullName', 'email', 'role', 'department', 'location', 'reportingManager', 'joiningDate', 'leaveBalances'] as const;
+
+// Roles that can be someone's reporting manager, i.e. approve their leave
+const REPORTING_MANAGER_ROLES = [Role.MANAGER, Role.HR, Role.ADMIN];
+
+// Largest page getEmployees returns, whatever limit is asked for
+const MAX_EMPLOYEE_PAGE_LIMIT = 100;
+
+/**
+ * Validates the employee fields present in the body, for a change made by `user` in `organization`.
+ * Shared by create and update so both apply the same rules; missing fields are not checked here.
+ */
+const validateEmployeeFields = (body: any, user: IEmployee | undefined, organization: IOrganization) => {
+    const { password, role, department, location, joiningDate, leaveBalances } = body;
+
+    if(joiningDate !== undefined){
+        if(isNaN(new Date(joiningDate).getTime())){
+            throw new ApiError(400,"Invalid joining date.");
+        }
+        if(typeof joiningDate === "string" && (new Date(joiningDate) < new Date())){
+            throw new ApiError(400,"Can't join in past.")
+        }
+    }
+
+    // Validate department against the organization's departments
+    if (department !== undefined && !isKnownDepartment(organization, department)) {
+        throw new ApiError(400, `Invalid department. Must be one of: ${organization.settings.departments.join(', ')}`);
+    }
+
+    if(password !== undefined && (typeof password !== "string" || password.length < 8)){
+        throw new ApiError(400,"Password must be a string of at least 8 characters.");
+    }
+
+    // Validate role against the Role enum
+    if (role !== undefined && !Object.values(Role).includes(role)) {
+        throw new ApiError(400, `Invalid role. Must be one of: ${Object.values(Role).join(', ')}`);
+    }
+
+    // Only admins can grant the admin role
+    if (role === Role.ADMIN && user?.role !== Role.ADMIN) {
+        throw new ApiError(403, "Only admins can grant the admin role.");
+    }
+
+    if (location !== undefined && typeof location !== "string") {
+        throw new ApiError(400, "Location must be a string.");
+    }
+
+    if(leaveBalances !== undefined){
+        if(typeof leaveBalances !== 'object' || leaveBalances === null || Array.isArray(leaveBalances)){
+            throw new ApiError(400,"leaveBalances must be an object keyed by leave type.");
+        }
+        for(const [type, balance] of Object.entries(leaveBalances)){
+            if(!(BALANCE_LEAVE_TYPES as string[]).includes(type)){
+                throw new ApiError(400,`Invalid leave type in leaveBalances: ${type}. Must be one of: ${BALANCE_LEAVE_TYPES.join(', ')}`);
+            }
+            if(typeof balance !== 'number' || !Number.isFinite(balance) || balance < 0){
+                throw new ApiError(400,`The ${type} leave balance must be a number greater than or equal to 0.`);
+            }
+        }
+    }
+};
+
+/**
+ * Checks that a reporting manager exists in the organization, is active, can approve leave and
+ * would not create a loop in the hierarchy (A reports to B reports to A).
+ */
+const validateReportingManager = async (organization: Types.ObjectId, managerId: unknown, employeeId?: string) => {
+    if (!isValidObjectId(managerId)) {
+        throw new ApiError(400, 'Invalid reporting manager ID.');
+    }
+    if (employeeId && String(managerId) === employeeId) {
+        throw new ApiError(400, 'An employee cannot report to themselves.');
+    }
+
+    const { employees } = getRepositories();
+    const manager = await employees.findInOrganization(organization, managerId);
+    if (!manager || !manager.isActive) {
+        throw new ApiError(400, 'Reporting manager not found or deactivated.');
+    }
+    if (!REPORTING_MANAGER_ROLES.includes(manager.role)) {
+        throw new ApiError(400, `The reporting manager must have one of the roles: ${REPORTING_MANAGER_ROLES.join(', ')}`);
+    }
+
+    // Walk up the manager's chain to make sure it doesn't lead back to this employee
+    if (employeeId) {
+        const visited = new Set<string>([manager.id]);
+        let current = manager.reportingManager;
+        while (current) {
+            if (String(current) === employeeId) {
+                throw new ApiError(400, 'This reporting manager would create a loop in the reporting hierarchy.');
+            }
+            if (visited.has(String(current))) break;
+            visited.add(String(current));
+            const next = await employees.findById(current);
+            current = next?.reportingManager;
+        }
+    }
+};
+
+const roundDays = (days: number) => Math.round(days * 100) / 100;
+
+/**
+ * Loads an employee of the caller's organization by the `:id` route parameter or throws a 400/404.
+ */
+const findEmployeeOrThrow = async (req: Request): Promise<IEmployee> => {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+        throw new ApiError(400, 'Invalid employee ID.');
+    }
+
+    const employee = await getRepositories().employees.findInOrganization(req.user!.organization, id);
+    if (!employee) {
+        throw new ApiError(404, 'Employee not found.');
+    }
+
+    return employee;
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Employee:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         organization:
+ *           type: string
+ *           description: ID of the organization the employee belongs to
+ *         fullName:
+ *           type: string
+ *         email:
+ *           type: string
+ *         role:
+ *           type: string
+ *           enum: [EMPLOYEE, MANAGER, HR, ADMIN]
+ *         department:
+ *           type: string
+ *           description: One of the organization's departments (see GET /api/v1/organizations/current)
+ *           example: SDE-I
+ *         location:
+ *           type: string
+ *         reportingManager:
+ *           type: string
+ *           description: ID of the employee's reporting manager
+ *         joiningDate:
+ *           type: string
+ *           format: date
+ *         leaveBalances:
+ *           type: object
+ *           additionalProperties:
+ *             type: number
+ *         isActive:
+ *           type: boolean
+ *         deactivatedAt:
+ *           type: string
+ *           format: date-time
+ *         emailNotifications:
+ *           type: boolean
+ *           description: Whether the employee receives leave notification emails
+ */
+
+/**
+ * Runs every check of employee creation on the body and returns the document to create in the organization,
+ * with the opening balances filled in. Shared by createEmployee and the CSV import.
+ */
+const prepareNewEmployee = async (body: any, user: IEmployee | undefined, organization: IOrganization) => {
+    const { fullName, email, password, role, department, location, reportingManager, joiningDate, leaveBalances } = body;
+    if(!fullName || !email || !password || !department || !joiningDate){
+        throw new ApiError(400,'fields not available or invalid');
+    }
+
+    validateEmployeeFields(body, user, organization);
+
+    const employeeExistance = await getRepositories().employees.findByEmail(organization._id, String(email));
+
+    if(employeeExistance){
+        throw new ApiError(409,"Already employee exists on given email");
+    }
+
+    if (reportingManager !== undefined) {
+        await validateReportingManager(organization._id, reportingManager);
+    }
+
+    // Leave types with an active accrual policy start empty and are credited (prorated
+    // from the joining date) by the accrual run instead of receiving the organization's default
+    const accruedLeaveTypes = await getAccruedLeaveTypes(organization._id);
+    const openingBalances = {
+        ...getDefaultLeaveBalances(organization),
+        ...Object.fromEntries(accruedLeaveTypes.map((type) => [type, 0])),
+        ...leaveBalances
+    };
+
+    return {
+        organization: organization._id,
+        fullName: fullName,
+        email: email,
+        password: password,
+        role: role,
+        department: department,
+        location: location,
+        reportingManager: reportingManager,
+        joiningDate: joiningDate,
+        leaveBalances: openingBalances
+    };
+};
+
 
 /**
  * @swagger
@@ -24,10 +249,23 @@ import { Department } from "@/models/employee.model";
  *               email:
  *                 type: string
  *                 description: Email address of the employee
+ *               password:
+ *                 type: string
+ *                 description: Initial password of the employee (at least 8 characters)
+ *               role:
+ *                 type: string
+ *                 enum: [EMPLOYEE, MANAGER, HR, ADMIN]
+ *                 description: Optional. Role of the employee (default EMPLOYEE). Only admins can create other admins.
  *               department:
  *                 type: string
- *                 enum: [SDE-I, SDE-II, SDE-III, DESIGNER-UI/UX, FRONTEND, TESTING, HR]
+ *                 example: SDE-I
  *                 description: Department of the employee
+ *               location:
+ *                 type: string
+ *                 description: Optional. Office location of the employee, used for location specific holidays
+ *               reportingManager:
+ *                 type: string
+ *                 description: Optional. ID of the manager who approves this employee's leave first (must be a MANAGER, HR or ADMIN)
  *               joiningDate:
  *                 type: string
  *                 format: date
@@ -35,9 +273,25 @@ import { Department } from "@/models/employee.model";
  *                 example: "2023-10-10"
  *                 notes:
  *                   - "The joiningDate cannot be in the past."
- *               leaveAvailability:
- *                 type: integer
- *                 description: Optional. Leave availability must be undefined or an integer greater than 0
+ *               leaveBalances:
+ *                 type: object
+ *                 description: Optional. Opening balance per leave type. Types that are left out start at 0 if they have an active accrual policy (the next accrual run credits a prorated share), otherwise at the default balance.
+ *                 properties:
+ *                   CASUAL:
+ *                     type: number
+ *                     default: 12
+ *                   SICK:
+ *                     type: number
+ *                     default: 12
+ *                   EARNED:
+ *                     type: number
+ *                     default: 16
+ *                   PARENTAL:
+ *                     type: number
+ *                     default: 90
+ *                   COMP_OFF:
+ *                     type: number
+ *                     default: 0
  *     responses:
  *       201:
  *         description: Employee created successfully
@@ -56,67 +310,58 @@ import { Department } from "@/models/employee.model";
  *                       type: string
  *                     email:
  *                       type: string
+ *                     role:
+ *                       type: string
  *                     department:
  *                       type: string
+ *                     location:
+ *                       type: string
+ *                     reportingManager:
+ *                       type: string
  *                     joiningDate:
  *                       type: string
  *                       format: date
- *                     leaveAvailability:
- *                       type: integer
+ *                     leaveBalances:
+ *                       type: object
+ *                       additionalProperties:
+ *                         type: number
  *                     _id:
  *                       type: string
  *       400:
  *         description: Bad request
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Only HR and admins can create employees
  *       409:
  *         description: Conflict - Employee already exists
  */
 
 export const createEmployee = asyncHandler(async(req: Request, res: Response)=>{
-    const { fullName, email, department, joiningDate, leaveAvailability } = req.body;
-    if(!fullName || !email || !department || !joiningDate){
-        res.status(400);
-        throw new ApiError(400,'fields not available or invalid');
-    }
-
-    if(typeof joiningDate === "string" && (new Date(joiningDate) < new Date())){
-        throw new ApiError(400,"Can't join in past.")
-    }
+    const fields = await prepareNewEmployee(req.body, req.user, req.organization!);
 
-    // Validate department against the Department enum
-    if (!Object.values(Department).includes(department)) {
-        res.status(400);
-        throw new ApiError(400, `Invalid department. Must be one of: ${Object.values(Department).join(', ')}`);
-    }
+    // The employee, their opening ledger entries and their history commit together
+    const repositories = getRepositories();
+    const newEmployee = await repositories.transaction(async (session) => {
+        const employee = await repositories.employees.create(fields, session);
 
-    const employeeExistance = await EmployeeModel.findOne({
-        email: email
-    });
-
-    if(employeeExistance){
-        res.status(409)
-        throw new ApiError(409,"Already employee exists on given email");
-    }
-
-    if(leaveAvailability!==undefined && typeof leaveAvailability === 'number' && Number.isInteger(leaveAvailability) && leaveAvailability < 1){
-        throw new ApiError(400,"Given leave Availability is invalid. the leaveAvailability must be undefined or an integer number greater than 1.");;
-    }
-
-    const newEmployee = await EmployeeModel.create({
-        fullName: fullName,
-        email: email,
-        department: department,
-        joiningDate: joiningDate,
-        leaveAvailability: leaveAvailability
+        await recordOpeningBalances(employee, req.user!._id, session);
+        await recordEmployeeEvent({ employee, actor: req.user, action: AuditAction.CREATED, session });
+        return employee;
     });
 
     console.log("Employe created with the email: ",newEmployee.email);
+    emitEmployeeEvent(WebhookEvent.EMPLOYEE_CREATED, newEmployee);
 
     const response = new ApiResponse(200,"Employee created.",{
         fullName: newEmployee.fullName,
         email: newEmployee.email,
+        role: newEmployee.role,
         department: newEmployee.department,
+        location: newEmployee.location,
+        reportingManager: newEmployee.reportingManager,
         joiningDate: newEmployee.joiningDate,
-        leaveAvailability: newEmployee.leaveAvailability,
+        leaveBalances: newEmployee.leaveBalances,
         _id: newEmployee._id
     });
 
@@ -124,4 +369,1102 @@ export const createEmployee = asyncHandler(async(req: Request, res: Response)=>{
         message: "Employee Created Successfully",
         body: response.data
     });
-})
\ No newline at end of file
+})
+
+
+// Cap on the rows of one CSV import; bigger batches can be split into several files
+const MAX_IMPORT_ROWS = 200;
+
+// CSV columns mapped to employee fields; the leave type columns hold opening balances
+const IMPORT_COLUMNS = ['fullName', 'email', 'password', 'role', 'department', 'location', 'reportingManager', 'joiningDate', ...BALANCE_LEAVE_TYPES];
+const REQUIRED_IMPORT_COLUMNS = ['fullName', 'email', 'password', 'department', 'joiningDate'];
+
+interface ImportRowResult {
+    row: number;
+    email?: string;
+    errors: string[];
+    _id?: Types.ObjectId;
+}
+
+/**
+ * Turns a CSV row into the request body createEmployee expects. Empty cells are left out.
+ */
+const toEmployeeBody = (headers: string[], cells: string[]) => {
+    const body: Record<string, any> = {};
+    const leaveBalances: Record<string, number> = {};
+    headers.forEach((header, index) => {
+        const value = cells[index]?.trim();
+        if (!value) return;
+        if ((BALANCE_LEAVE_TYPES as string[]).includes(header)) {
+            leaveBalances[header] = Number(value);
+        } else {
+            body[header] = value;
+        }
+    });
+    if (Object.keys(leaveBalances).length) {
+        body.leaveBalances = leaveBalances;
+    }
+    return body;
+};
+
+/**
+ * @swagger
+ * /api/v1/employees/import:
+ *   post:
+ *     summary: Import employees from a CSV file
+ *     description: |
+ *       Every row is validated with the same rules as employee creation (required fields, name format, department, role, duplicate email, reporting manager).
+ *       If any row is invalid nothing is created and the per-row error report is returned.
+ *       The rows are created in one transaction, so an error while creating them (e.g. an email taken in the meantime) imports none of them.
+ *       Columns: fullName, email, password, department, joiningDate (required), role, location, reportingManager (employee ID) and one column per leave type (CASUAL, SICK, EARNED, PARENTAL, COMP_OFF) for opening balances.
+ *       At most 200 rows per file.
+ *     tags:
+ *       - Employees
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Only validate the file, create nothing
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *             example: |
+ *               fullName,email,password,department,joiningDate,role,CASUAL
+ *               Jane Doe,jane.doe@company.com,s3cret-password,FRONTEND,2030-01-15,EMPLOYEE,6
+ *     responses:
+ *       200:
+ *         description: Dry run passed; the report lists every row
+ *       201:
+ *         description: Employees created; the report lists every row with the new ID
+ *       400:
+ *         description: The file is malformed or some rows are invalid; the report lists the errors per row
+ *       403:
+ *         description: Forbidden - Only HR and admins can import employees
+ */
+
+/**
+ * @function importEmployees
+ * @description Validates a CSV of employees row by row and, unless it is a dry run and only when every row is valid, creates them.
+ * @route POST /api/v1/employees/import
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const importEmployees = asyncHandler(async (req: Request, res: Response) => {
+    const dryRun = req.query.dryRun === 'true';
+
+    if (typeof req.body !== 'string' || !req.body.trim()) {
+        throw new ApiError(400, 'Send the CSV file as the request body with Content-Type: text/csv.');
+    }
+
+    const [headerRow, ...rows] = parseCsv(req.body);
+    const headers = headerRow.map((header) => header.trim());
+
+    const unknownColumns = headers.filter((header) => !IMPORT_COLUMNS.includes(header));
+    const missingColumns = REQUIRED_IMPORT_COLUMNS.filter((column) => !headers.includes(column));
+    if (unknownColumns.length || missingColumns.length) {
+        throw new ApiError(400, [
+            unknownColumns.length ? `Unknown columns: ${unknownColumns.join(', ')}.` : '',
+            missingColumns.length ? `Missing columns: ${missingColumns.join(', ')}.` : '',
+            `Allowed columns: ${IMPORT_COLUMNS.join(', ')}`
+        ].filter(Boolean).join(' '));
+    }
+    if (!rows.length) {
+        throw new ApiError(400, 'The file has no employee rows.');
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+        throw new ApiError(400, `A file can hold at most ${MAX_IMPORT_ROWS} employees, this one has ${rows.length}.`);
+    }
+
+    const seenEmails = new Set<string>();
+    const prepared: NewEmployee[] = [];
+    const report: ImportRowResult[] = [];
+
+    for (const [index, cells] of rows.entries()) {
+        // Line numbers as shown in a spreadsheet, the header being line 1
+        const result: ImportRowResult = { row: index + 2, errors: [] };
+        report.push(result);
+
+        const body = toEmployeeBody(headers, cells);
+        result.email = body.email;
+
+        const email = String(body.email ?? '').toLowerCase();
+        if (email && seenEmails.has(email)) {
+            result.errors.push('This email appears more than once in the file.');
+        }
+        seenEmails.add(email);
+
+        try {
+            const fields = await prepareNewEmployee(body, req.user, req.organization!);
+            // Schema rules (name format, email format, lengths) that only run on save
+            const validationError = new EmployeeModel(fields).validateSync();
+            if (validationError) {
+                result.errors.push(...Object.values(validationError.errors).map((err) => err.message));
+            }
+            prepared.push(fields);
+        } catch (error) {
+            if (!(error instanceof ApiError)) throw error;
+            result.errors.push(error.message);
+        }
+    }
+
+    const invalidRows = report.filter((result) => result.errors.length);
+    if (invalidRows.length) {
+        res.status(400).json(new ApiResponse(400, `${invalidRows.length} of ${rows.length} rows are invalid, nothing was imported`, {
+            dryRun,
+            created: 0,
+            rows: report
+        }));
+        return;
+    }
+
+    if (dryRun) {
+        res.status(200).json(new ApiResponse(200, `All ${rows.length} rows are valid`, {
+            dryRun,
+            created: 0,
+            rows: report
+        }));
+        return;
+    }
+
+    // The whole file commits at once: a failure on any row (e.g. an email taken in the meantime) imports nobody
+    const repositories = getRepositories();
+    const employees = await repositories.transaction(async (session) => {
+        const created: IEmployee[] = [];
+        for (const fields of prepared) {
+            const employee = await repositories.employees.create(fields, session);
+            await recordOpeningBalances(employee, req.user!._id, session);
+            await recordEmployeeEvent({ employee, actor: req.user, action: AuditAction.CREATED, comment: 'CSV import', session });
+            created.push(employee);
+        }
+        return created;
+    });
+
+    for (const [index, employee] of employees.entries()) {
+        report[index]._id = employee._id;
+        emitEmployeeEvent(WebhookEvent.EMPLOYEE_CREATED, employee);
+    }
+
+    res.status(201).json(new ApiResponse(201, `Imported ${prepared.length} employees`, {
+        dryRun,
+        created: prepared.length,
+        rows: report
+    }));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/employees:
+ *   get:
+ *     summary: List employees with filters and pagination
+ *     tags:
+ *       - Employees
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: The page number for pagination
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 9
+ *           maximum: 100
+ *         description: The number of documents per page (at most 100)
+ *       - in: query
+ *         name: department
+ *         schema:
+ *           type: string
+ *           example: SDE-I
+ *         description: Filter by department
+ *       - in: query
+ *         name: joinedFrom
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only employees who joined on or after this date
+ *       - in: query
+ *         name: joinedTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only employees who joined on or before this date
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Case-insensitive match on full name or email
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *         description: Filter by active/deactivated employees
+ *       - in: query
+ *         name: reportingManager
+ *         schema:
+ *           type: string
+ *         description: Only the direct reports of this manager
+ *     responses:
+ *       200:
+ *         description: A list of employees with pagination metadata
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Employee'
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     totalDocuments:
+ *                       type: integer
+ *                     totalPages:
+ *                       type: integer
+ *                     currentPage:
+ *                       type: integer
+ *                     limit:
+ *                       type: integer
+ *       400:
+ *         description: Bad request
+ */
+
+/**
+ * @function getEmployees
+ * @description Retrieves a paginated employee directory filtered by department, joining date range, active flag and a name/email search.
+ * @route GET /api/v1/employees
+ * @access Private (Manager, HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getEmployees = asyncHandler(async (req: Request, res: Response) => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 9, 1), MAX_EMPLOYEE_PAGE_LIMIT);
+    const { department, joinedFrom, joinedTo, search, isActive, reportingManager } = req.query;
+
+    const skip = (page - 1) * limit;
+
+    const organization = req.organization!;
+    const queryFilter: any = { organization: organization._id };
+    if (department) {
+        if (!isKnownDepartment(organization, department)) {
+            throw new ApiError(400, `Invalid department. Must be one of: ${organization.settings.departments.join(', ')}`);
+        }
+        queryFilter.department = department;
+    }
+    if (joinedFrom || joinedTo) {
+        queryFilter.joiningDate = {};
+        if (joinedFrom) queryFilter.joiningDate.$gte = new Date(joinedFrom as string);
+        if (joinedTo) queryFilter.joiningDate.$lte = new Date(joinedTo as string);
+    }
+    if (search) {
+        // Escape the search text so it is matched literally
+        const pattern = new RegExp(String(search).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+        queryFilter.$or = [{ fullName: pattern }, { email: pattern }];
+    }
+    if (reportingManager) {
+        if (!isValidObjectId(reportingManager)) {
+            throw new ApiError(400, 'Invalid reporting manager ID.');
+        }
+        queryFilter.reportingManager = reportingManager;
+    }
+    // Records created before deactivation existed have no isActive flag and count as active
+    if (isActive === 'true') queryFilter.isActive = { $ne: false };
+    if (isActive === 'false') queryFilter.isActive = false;
+
+    const [employees, totalDocuments] = await Promise.all([
+        EmployeeModel.find(queryFilter).sort({ fullName: 1 }).limit(limit).skip(skip),
+        EmployeeModel.countDocuments(queryFilter)
+    ]);
+
+    const totalPages = Math.ceil(totalDocuments / limit);
+
+    res.status(200).json(new ApiResponse(
+        200,
+        "Fetched Required Data",
+        {
+            data: employees,
+            pagination: {
+                totalDocuments,
+                totalPages,
+                currentPage: page,
+                limit,
+            }
+        }
+    ));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/employees/{id}:
+ *   get:
+ *     summary: Get an employee by ID
+ *     tags:
+ *       - Employees
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the employee
+ *     responses:
+ *       200:
+ *         description: The employee
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Employee'
+ *       400:
+ *         description: Invalid employee ID
+ *       403:
+ *         description: Forbidden - Employees can only view themselves
+ *       404:
+ *         description: Employee not found
+ */
+
+/**
+ * @function getEmployeeById
+ * @description Retrieves a single employee. Employees may only view their own record.
+ * @route GET /api/v1/employees/:id
+ * @access Private (Self, Manager, HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getEmployeeById = asyncHandler(async (req: Request, res: Response) => {
+    const currentUser = req.user!;
+    if (req.params.id !== currentUser.id && currentUser.role === Role.EMPLOYEE) {
+        throw new ApiError(403, 'You can only view your own employee record.');
+    }
+
+    const employee = await findEmployeeOrThrow(req);
+
+    res.status(200).json(new ApiResponse(200, "Fetched Required Data", employee));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/employees/{id}:
+ *   patch:
+ *     summary: Update an employee
+ *     description: Partial update; only the fields sent are changed and they are validated with the same rules as employee creation.
+ *     tags:
+ *       - Employees
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the employee
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               fullName:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *                 enum: [EMPLOYEE, MANAGER, HR, ADMIN]
+ *               department:
+ *                 type: string
+ *                 example: SDE-I
+ *               location:
+ *                 type: string
+ *               reportingManager:
+ *                 type: string
+ *                 nullable: true
+ *                 description: ID of the new reporting manager, or null to remove it
+ *               joiningDate:
+ *                 type: string
+ *                 format: date
+ *               leaveBalances:
+ *                 type: object
+ *                 description: Balances to overwrite, keyed by leave type. Types that are left out keep their balance.
+ *                 additionalProperties:
+ *                   type: number
+ *     responses:
+ *       200:
+ *         description: Employee updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Employee'
+ *       400:
+ *         description: Bad request
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Employee not found
+ *       409:
+ *         description: Conflict - Another employee already uses this email
+ */
+
+/**
+ * @function updateEmployee
+ * @description Partially updates an employee (name, email, role, department, location, joining date, balances) using the same validation as createEmployee.
+ * @route PATCH /api/v1/employees/:id
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const updateEmployee = asyncHandler(async (req: Request, res: Response) => {
+    const unknownFields = Object.keys(req.body).filter((field) => !(UPDATABLE_FIELDS as readonly string[]).includes(field));
+    if (unknownFields.length) {
+        throw new ApiError(400, `These fields cannot be updated: ${unknownFields.join(', ')}. Allowed fields: ${UPDATABLE_FIELDS.join(', ')}`);
+    }
+
+    validateEmployeeFields(req.body, req.user, req.organization!);
+
+    const employee = await findEmployeeOrThrow(req);
+
+    // Only admins can change an admin's record
+    if (employee.role === Role.ADMIN && req.user!.role !== Role.ADMIN) {
+        throw new ApiError(403, 'Only admins can update an admin.');
+    }
+
+    const { fullName, email, role, department, location, reportingManager, joiningDate, leaveBalances } = req.body;
+    const before = snapshotEmployee(employee);
+
+    if (email !== undefined && String(email).toLowerCase() !== employee.email) {
+        const emailOwner = await EmployeeModel.findOne({ organization: employee.organization, email: String(email).toLowerCase() });
+        if (emailOwner) {
+            throw new ApiError(409, "Already employee exists on given email");
+        }
+        employee.email = email;
+    }
+
+    if (fullName !== undefined) employee.fullName = fullName;
+    if (role !== undefined) employee.role = role;
+    if (department !== undefined) employee.department = department;
+    if (location !== undefined) employee.location = location;
+    if (reportingManager !== undefined) {
+        // null removes the reporting manager
+        if (reportingManager !== null) {
+            await validateReportingManager(employee.organization, reportingManager, employee.id);
+        }
+        employee.reportingManager = reportingManager ?? undefined;
+    }
+    if (joiningDate !== undefined) employee.joiningDate = joiningDate;
+
+    const updatedEmployee = await mongoose.connection.transaction(async (session) => {
+        await employee.save({ session });
+
+        // Overwriting a balance is recorded in the ledger as an adjustment by the difference
+        if (leaveBalances !== undefined) {
+            const current = await EmployeeModel.findById(employee._id).session(session).select('leaveBalances');
+            // The types were validated by validateEmployeeFields
+            for (const [type, balance] of Object.entries(leaveBalances) as [BalanceLeaveType, number][]) {
+                const days = roundDays(balance - (current!.leaveBalances[type] ?? 0));
+                if (days === 0) continue;
+                await postLedgerEntry({
+                    employee: employee._id,
+                    leaveType: type,
+                    kind: LedgerEntryKind.ADJUSTMENT,
+                    days,
+                    actor: req.user!._id,
+                    note: `Balance set to ${balance} by an employee update`,
+                    allowNegative: true
+                }, session);
+            }
+        }
+
+        const updated = (await EmployeeModel.findById(employee._id).session(session))!;
+        const changes = diffSnapshots(before, snapshotEmployee(updated));
+        if (changes.length) {
+            await recordEmployeeEvent({ employee: updated, actor: req.user, action: AuditAction.UPDATED, changes, session });
+        }
+        return updated;
+    });
+
+    emitEmployeeEvent(WebhookEvent.EMPLOYEE_UPDATED, updatedEmployee);
+
+    res.status(200).json(new ApiResponse(200, "Employee updated", updatedEmployee));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/employees/{id}/deactivate:
+ *   patch:
+ *     summary: Deactivate an employee who has left
+ *     description: Deactivated employees can no longer log in or apply for leave. Their records and leave history are kept.
+ *     tags:
+ *       - Employees
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Employee deactivated
+ *       400:
+ *         description: Employee is already deactivated or is the caller
+ *       404:
+ *         description: Employee not found
+ */
+
+/**
+ * @function deactivateEmployee
+ * @description Marks an employee as inactive. The record is kept for history; the employee can't log in or apply for leave.
+ * @route PATCH /api/v1/employees/:id/deactivate
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const deactivateEmployee = asyncHandler(async (req: Request, res: Response) => {
+    const employee = await findEmployeeOrThrow(req);
+
+    if (employee.id === req.user!.id) {
+        throw new ApiError(400, 'You cannot deactivate yourself.');
+    }
+    if (employee.role === Role.ADMIN && req.user!.role !== Role.ADMIN) {
+        throw new ApiError(403, 'Only admins can deactivate an admin.');
+    }
+    if (!employee.isActive) {
+        throw new ApiError(400, 'Employee is already deactivated.');
+    }
+
+    employee.isActive = false;
+    employee.deactivatedAt = new Date();
+    await employee.save();
+
+    await recordEmployeeEvent({ employee, actor: req.user, action: AuditAction.DEACTIVATED });
+    emitEmployeeEvent(WebhookEvent.EMPLOYEE_DEACTIVATED, employee);
+
+    res.status(200).json(new ApiResponse(200, "Employee deactivated", employee));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/employees/{id}/reactivate:
+ *   patch:
+ *     summary: Reactivate a deactivated employee
+ *     tags:
+ *       - Employees
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Employee reactivated
+ *       400:
+ *         description: Employee is already active
+ *       404:
+ *         description: Employee not found
+ */
+
+/**
+ * @function reactivateEmployee
+ * @description Reactivates a previously deactivated employee.
+ * @route PATCH /api/v1/employees/:id/reactivate
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const reactivateEmployee = asyncHandler(async (req: Request, res: Response) => {
+    const employee = await findEmployeeOrThrow(req);
+
+    if (employee.isActive) {
+        throw new ApiError(400, 'Employee is already active.');
+    }
+
+    employee.isActive = true;
+    employee.deactivatedAt = undefined;
+    await employee.save();
+
+    await recordEmployeeEvent({ employee, actor: req.user, action: AuditAction.REACTIVATED });
+    emitEmployeeEvent(WebhookEvent.EMPLOYEE_REACTIVATED, employee);
+
+    res.status(200).json(new ApiResponse(200, "Employee reactivated", employee));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/employees/{id}/notifications:
+ *   patch:
+ *     summary: Opt in to or out of leave notification emails
+ *     tags:
+ *       - Employees
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - emailNotifications
+ *             properties:
+ *               emailNotifications:
+ *                 type: boolean
+ *                 example: false
+ *     responses:
+ *       200:
+ *         description: Preference saved
+ *       400:
+ *         description: emailNotifications is not a boolean
+ *       403:
+ *         description: Forbidden - Only HR, admins or the employee themselves
+ *       404:
+ *         description: Employee not found
+ */
+
+/**
+ * @function updateNotificationPreferences
+ * @description Turns leave notification emails on or off for an employee. Employees and managers may only change their own preference.
+ * @route PATCH /api/v1/employees/:id/notifications
+ * @access Private (Self, HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const updateNotificationPreferences = asyncHandler(async (req: Request, res: Response) => {
+    const currentUser = req.user!;
+    if (req.params.id !== currentUser.id && currentUser.role !== Role.HR && currentUser.role !== Role.ADMIN) {
+        throw new ApiError(403, 'You can only change your own notification preferences.');
+    }
+
+    const { emailNotifications } = req.body;
+    if (typeof emailNotifications !== 'boolean') {
+        throw new ApiError(400, 'emailNotifications must be true or false.');
+    }
+
+    const employee = await findEmployeeOrThrow(req);
+    if (employee.emailNotifications !== emailNotifications) {
+        const before = snapshotEmployee(employee);
+        employee.emailNotifications = emailNotifications;
+        await employee.save();
+
+        await recordEmployeeEvent({
+            employee,
+            actor: currentUser,
+            action: AuditAction.UPDATED,
+            changes: diffSnapshots(before, snapshotEmployee(employee))
+        });
+    }
+
+    res.status(200).json(new ApiResponse(200, "Notification preferences updated", employee));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/employees/{id}/history:
+ *   get:
+ *     summary: Retrieve the change history of an employee
+ *     description: Creation, profile and balance changes, deactivation and reactivation, oldest first.
+ *     tags:
+ *       - Employees
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the employee
+ *     responses:
+ *       200:
+ *         description: The employee's history
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   action:
+ *                     type: string
+ *                     enum: [CREATED, UPDATED, DEACTIVATED, REACTIVATED]
+ *                   actor:
+ *                     type: object
+ *                     properties:
+ *                       _id:
+ *                         type: string
+ *                       fullName:
+ *                         type: string
+ *                       email:
+ *                         type: string
+ *                       role:
+ *                         type: string
+ *                   changes:
+ *                     type: array
+ *                     items:
+ *                       type: object
+ *                       properties:
+ *                         field:
+ *                           type: string
+ *                         from: {}
+ *                         to: {}
+ *                   createdAt:
+ *                     type: string
+ *                     format: date-time
+ *       400:
+ *         description: Invalid employee ID
+ *       403:
+ *         description: Forbidden - Only HR, admins or the employee themselves
+ *       404:
+ *         description: Employee not found
+ */
+
+/**
+ * @function getEmployeeHistory
+ * @description Retrieves the append-only change history of an employee. Employees and managers may only view their own.
+ * @route GET /api/v1/employees/:id/history
+ * @access Private (Self, HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getEmployeeHistory = asyncHandler(async (req: Request, res: Response) => {
+    const currentUser = req.user!;
+    if (req.params.id !== currentUser.id && currentUser.role !== Role.HR && currentUser.role !== Role.ADMIN) {
+        throw new ApiError(403, 'You can only view your own history.');
+    }
+
+    const employee = await findEmployeeOrThrow(req);
+    const history = await getHistory(AuditEntityType.EMPLOYEE, employee.id);
+
+    res.status(200).json(new ApiResponse(200, "Fetched Required Data", history));
+});
+
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     LedgerEntry:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         employee:
+ *           type: string
+ *         leaveType:
+ *           type: string
+ *           enum: [CASUAL, SICK, EARNED, PARENTAL, COMP_OFF]
+ *         kind:
+ *           type: string
+ *           enum: [OPENING_BALANCE, ACCRUAL, DEDUCTION, RESTORATION, ADJUSTMENT, LAPSE, COMP_OFF_CREDIT]
+ *         days:
+ *           type: number
+ *           description: Signed change applied to the balance
+ *         balanceAfter:
+ *           type: number
+ *         leave:
+ *           type: string
+ *           description: The leave request that caused a deduction or restoration
+ *         accrualEntry:
+ *           type: string
+ *           description: The accrual credit or year-end rollover that caused the change
+ *         compOff:
+ *           type: string
+ *           description: The comp-off claim whose credit was added or lapsed
+ *         actor:
+ *           type: string
+ *         note:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/v1/employees/{id}/ledger:
+ *   get:
+ *     summary: Retrieve an employee's leave balance ledger
+ *     description: Every change made to the employee's balances, newest first.
+ *     tags:
+ *       - Employees
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: leaveType
+ *         schema:
+ *           type: string
+ *           enum: [CASUAL, SICK, EARNED, PARENTAL, COMP_OFF]
+ *       - in: query
+ *         name: kind
+ *         schema:
+ *           type: string
+ *           enum: [OPENING_BALANCE, ACCRUAL, DEDUCTION, RESTORATION, ADJUSTMENT, LAPSE, COMP_OFF_CREDIT]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 9
+ *     responses:
+ *       200:
+ *         description: A paginated list of ledger entries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LedgerEntry'
+ *                 pagination:
+ *                   type: object
+ *       400:
+ *         description: Invalid filter or employee ID
+ *       403:
+ *         description: Forbidden - Only HR, admins or the employee themselves
+ *       404:
+ *         description: Employee not found
+ */
+
+/**
+ * @function getEmployeeLedger
+ * @description Retrieves the paginated balance ledger of an employee, optionally filtered by leave type and entry kind.
+ * @route GET /api/v1/employees/:id/ledger
+ * @access Private (Self, HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getEmployeeLedger = asyncHandler(async (req: Request, res: Response) => {
+    const currentUser = req.user!;
+    if (req.params.id !== currentUser.id && currentUser.role !== Role.HR && currentUser.role !== Role.ADMIN) {
+        throw new ApiError(403, 'You can only view your own ledger.');
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 9;
+    const { leaveType, kind } = req.query;
+
+    const skip = (page - 1) * limit;
+
+    const employee = await findEmployeeOrThrow(req);
+
+    const queryFilter: any = { employee: employee._id };
+    if (leaveType) {
+        if (!(BALANCE_LEAVE_TYPES as string[]).includes(leaveType as string)) {
+            throw new ApiError(400, `Invalid leave type. Must be one of: ${BALANCE_LEAVE_TYPES.join(', ')}`);
+        }
+        queryFilter.leaveType = leaveType;
+    }
+    if (kind) {
+        if (!Object.values(LedgerEntryKind).includes(kind as LedgerEntryKind)) {
+            throw new ApiError(400, `Invalid entry kind. Must be one of: ${Object.values(LedgerEntryKind).join(', ')}`);
+        }
+        queryFilter.kind = kind;
+    }
+
+    const [entries, totalDocuments] = await Promise.all([
+        LedgerEntry.find(queryFilter).sort({ createdAt: -1, _id: -1 }).limit(limit).skip(skip),
+        LedgerEntry.countDocuments(queryFilter)
+    ]);
+
+    const totalPages = Math.ceil(totalDocuments / limit);
+
+    res.status(200).json(new ApiResponse(
+        200,
+        "Fetched Required Data",
+        {
+            data: entries,
+            pagination: {
+                totalDocuments,
+                totalPages,
+                currentPage: page,
+                limit
+            }
+        }
+    ));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/employees/{id}/ledger/reconcile:
+ *   get:
+ *     summary: Check an employee's balances against their ledger
+ *     description: Recomputes every balance from the ledger entries and reports any difference with the stored balance.
+ *     tags:
+ *       - Employees
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: One line per leave type
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 consistent:
+ *                   type: boolean
+ *                 balances:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       leaveType:
+ *                         type: string
+ *                       balance:
+ *                         type: number
+ *                         description: Stored balance
+ *                       ledgerBalance:
+ *                         type: number
+ *                         description: Sum of the ledger entries
+ *                       difference:
+ *                         type: number
+ *                       consistent:
+ *                         type: boolean
+ *       404:
+ *         description: Employee not found
+ */
+
+/**
+ * @function reconcileEmployeeLedger
+ * @description Recomputes an employee's balances from the ledger and compares them with the stored balances.
+ * @route GET /api/v1/employees/:id/ledger/reconcile
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const reconcileEmployeeLedger = asyncHandler(async (req: Request, res: Response) => {
+    const employee = await findEmployeeOrThrow(req);
+
+    const balances = await reconcileBalances(employee);
+
+    res.status(200).json(new ApiResponse(200, "Fetched Required Data", {
+        consistent: balances.every((balance) => balance.consistent),
+        balances
+    }));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/employees/{id}/ledger/adjustments:
+ *   post:
+ *     summary: Adjust an employee's leave balance
+ *     description: Adds (or with a negative number removes) days from a balance and records the reason in the ledger.
+ *     tags:
+ *       - Employees
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - leaveType
+ *               - days
+ *               - note
+ *             properties:
+ *               leaveType:
+ *                 type: string
+ *                 enum: [CASUAL, SICK, EARNED, PARENTAL, COMP_OFF]
+ *               days:
+ *                 type: number
+ *                 description: Days to add; negative to remove
+ *               note:
+ *                 type: string
+ *                 maxLength: 300
+ *                 description: Why the balance is adjusted
+ *     responses:
+ *       201:
+ *         description: Adjustment recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LedgerEntry'
+ *       400:
+ *         description: Bad request
+ *       403:
+ *         description: Forbidden - Only admins can adjust an admin's balance
+ *       404:
+ *         description: Employee not found
+ */
+
+/**
+ * @function adjustLeaveBalance
+ * @description Applies a manual correction to one of an employee's balances as an ADJUSTMENT ledger entry.
+ * @route POST /api/v1/employees/:id/ledger/adjustments
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const adjustLeaveBalance = asyncHandler(async (req: Request, res: Response) => {
+    const { leaveType, days, note } = req.body;
+
+    if (!leaveType || days === undefined || !note) {
+        throw new ApiError(400, 'leaveType, days and note are required.');
+    }
+    if (!(BALANCE_LEAVE_TYPES as string[]).includes(leaveType)) {
+        throw new ApiError(400, `Invalid leave type. Must be one of: ${BALANCE_LEAVE_TYPES.join(', ')}`);
+    }
+    if (typeof days !== 'number' || !Number.isFinite(days) || days === 0) {
+        throw new ApiError(400, 'days must be a non-zero number.');
+    }
+    if (typeof note !== 'string' || note.length > 300) {
+        throw new ApiError(400, 'note must be a string of at most 300 characters.');
+    }
+
+    const employee = await findEmployeeOrThrow(req);
+
+    if (employee.role === Role.ADMIN && req.user!.role !== Role.ADMIN) {
+        throw new ApiError(403, 'Only admins can adjust an admin\'s balance.');
+    }
+
+    const entry = await postLedgerEntry({
+        employee: employee._id,
+        leaveType,
+        kind: LedgerEntryKind.ADJUSTMENT,
+        days: roundDays(days),
+        actor: req.user!._id,
+        note,
+        allowNegative: true
+    });
+
+    res.status(201).json(new ApiResponse(201, "Balance adjusted", entry));
+});
@@ -0,0 +1,302 @@
+import { Request, Response } from 'express';
+import { isValidObjectId } from 'mongoose';
+import Holiday from '@/models/holiday.model';
+import { IOrganization } from '@/models/organization.model';
+import { isKnownDepartment } from '@/services/organization.service';
+import { asyncHandler } from '@/utils/asyncHandler';
+import { ApiError, ApiResponse } from '@/utils/ApiResponse';
+import { toUtcDay } from '@/utils/leaveDuration';
+
+/**
+ * Validates the optional department/location scope of a holiday.
+ */
+const validateHolidayScope = (organization: IOrganization, department: unknown, location: unknown) => {
+    if (department !== undefined && department !== null && !isKnownDepartment(organization, department)) {
+        throw new ApiError(400, `Invalid department. Must be one of: ${organization.settings.departments.join(', ')}`);
+    }
+    if (location !== undefined && location !== null && typeof location !== 'string') {
+        throw new ApiError(400, 'Location must be a string.');
+    }
+};
+
+/**
+ * @swagger
+ * /api/v1/holidays:
+ *   post:
+ *     summary: Add a company holiday
+ *     tags:
+ *       - Holidays
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Name of the holiday
+ *                 example: "Independence Day"
+ *               date:
+ *                 type: string
+ *                 format: date
+ *                 example: "2025-08-15"
+ *               department:
+ *                 type: string
+ *                 example: SDE-I
+ *                 description: Optional. Limit the holiday to one department
+ *               location:
+ *                 type: string
+ *                 description: Optional. Limit the holiday to one office location
+ *     responses:
+ *       201:
+ *         description: Holiday created
+ *       400:
+ *         description: Bad request
+ *       403:
+ *         description: Forbidden - Only HR and admins can manage holidays
+ *       409:
+ *         description: Conflict - A holiday already exists on this date for this scope
+ */
+
+/**
+ * @function createHoliday
+ * @description Adds a holiday to the company calendar, optionally scoped to a department and/or location.
+ * @route POST /api/v1/holidays
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const createHoliday = asyncHandler(async (req: Request, res: Response) => {
+    const { name, date, department, location } = req.body;
+
+    if (!name || !date) {
+        throw new ApiError(400, 'All fields (name, date) are required');
+    }
+
+    const holidayDate = new Date(date);
+    if (isNaN(holidayDate.getTime())) {
+        throw new ApiError(400, 'Invalid holiday date.');
+    }
+
+    validateHolidayScope(req.organization!, department, location);
+
+    const existingHoliday = await Holiday.findOne({
+        organization: req.user!.organization,
+        date: toUtcDay(holidayDate),
+        department: department ?? null,
+        location: location ?? null
+    });
+    if (existingHoliday) {
+        throw new ApiError(409, `A holiday already exists on this date: ${existingHoliday.name}`);
+    }
+
+    const holiday = await Holiday.create({
+        organization: req.user!.organization,
+        name,
+        date: toUtcDay(holidayDate),
+        department,
+        location
+    });
+
+    res.status(201).json(new ApiResponse(201, "Holiday created", holiday));
+});
+
+/**
+ * @swagger
+ * /api/v1/holidays:
+ *   get:
+ *     summary: List company holidays
+ *     tags:
+ *       - Holidays
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only holidays on or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only holidays on or before this date
+ *       - in: query
+ *         name: department
+ *         schema:
+ *           type: string
+ *         description: Only holidays that apply to this department (company-wide holidays included)
+ *       - in: query
+ *         name: location
+ *         schema:
+ *           type: string
+ *         description: Only holidays that apply to this location (company-wide holidays included)
+ *     responses:
+ *       200:
+ *         description: A list of holidays sorted by date
+ */
+
+/**
+ * @function getHolidays
+ * @description Lists holidays, optionally within a date range and for a given department/location.
+ * @route GET /api/v1/holidays
+ * @access Private
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getHolidays = asyncHandler(async (req: Request, res: Response) => {
+    const { from, to, department, location } = req.query;
+
+    const queryFilter: any = { organization: req.user!.organization };
+    if (from || to) {
+        queryFilter.date = {};
+        if (from) queryFilter.date.$gte = toUtcDay(new Date(from as string));
+        if (to) queryFilter.date.$lte = toUtcDay(new Date(to as string));
+    }
+
+    // Scoped lookups also include the holidays that apply to everyone
+    const scopes: any[] = [];
+    if (department) scopes.push({ $or: [{ department: null }, { department }] });
+    if (location) scopes.push({ $or: [{ location: null }, { location }] });
+    if (scopes.length) queryFilter.$and = scopes;
+
+    const holidays = await Holiday.find(queryFilter).sort({ date: 1 });
+
+    res.status(200).json(new ApiResponse(200, "Fetched Required Data", holidays));
+});
+
+/**
+ * @swagger
+ * /api/v1/holidays/{id}:
+ *   patch:
+ *     summary: Update a company holiday
+ *     tags:
+ *       - Holidays
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               department:
+ *                 type: string
+ *                 nullable: true
+ *               location:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Holiday updated
+ *       400:
+ *         description: Bad request
+ *       404:
+ *         description: Holiday not found
+ *       409:
+ *         description: Conflict - A holiday already exists on this date for this scope
+ */
+
+/**
+ * @function updateHoliday
+ * @description Updates the name, date or scope of a holiday. Pass `null` to clear the department or location.
+ * @route PATCH /api/v1/holidays/:id
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const updateHoliday = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { name, date, department, location } = req.body;
+
+    if (!isValidObjectId(id)) {
+        throw new ApiError(400, 'Invalid holiday ID.');
+    }
+
+    const holiday = await Holiday.findOne({ _id: id, organization: req.user!.organization });
+    if (!holiday) {
+        throw new ApiError(404, 'Holiday not found');
+    }
+
+    validateHolidayScope(req.organization!, department, location);
+
+    if (name !== undefined) holiday.name = name;
+    if (date !== undefined) {
+        const holidayDate = new Date(date);
+        if (isNaN(holidayDate.getTime())) {
+            throw new ApiError(400, 'Invalid holiday date.');
+        }
+        holiday.date = toUtcDay(holidayDate);
+    }
+    if (department !== undefined) holiday.department = department ?? undefined;
+    if (location !== undefined) holiday.location = location ?? undefined;
+
+    const clash = await Holiday.findOne({
+        _id: { $ne: holiday._id },
+        organization: holiday.organization,
+        date: holiday.date,
+        department: holiday.department ?? null,
+        location: holiday.location ?? null
+    });
+    if (clash) {
+        throw new ApiError(409, `A holiday already exists on this date: ${clash.name}`);
+    }
+
+    await holiday.save();
+
+    res.status(200).json(new ApiResponse(200, "Holiday updated", holiday));
+});
+
+/**
+ * @swagger
+ * /api/v1/holidays/{id}:
+ *   delete:
+ *     summary: Delete a company holiday
+ *     tags:
+ *       - Holidays
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Holiday deleted
+ *       404:
+ *         description: Holiday not found
+ */
+
+/**
+ * @function deleteHoliday
+ * @description Removes a holiday from the company calendar.
+ * @route DELETE /api/v1/holidays/:id
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const deleteHoliday = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+        throw new ApiError(400, 'Invalid holiday ID.');
+    }
+
+    const holiday = await Holiday.findOneAndDelete({ _id: id, organization: req.user!.organization });
+    if (!holiday) {
+        throw new ApiError(404, 'Holiday not found');
+    }
+
+    res.status(200).json(new ApiResponse(200, "Holiday deleted", holiday));
+});
@@ -1,8 +1,206 @@
 import { Request, Response } from 'express';
-import Leave, { LeaveStatus } from '../models/leave.model';
-import Employee from '../models/employee.model';
+import Leave, { ACTIVE_LEAVE_STATUSES, ApprovalLevel, ApprovalStepStatus, CancellationDecision, DaySession, ILeave, isBalanceLeaveType, IStaffingWarning, LeaveStatus, LeaveType } from '../models/leave.model';
+import { Role } from '../models/employee.model';
 import { asyncHandler } from '@/utils/asyncHandler';
-import { ApiError, ApiResponse } from '@/utils/ApiResponse';
+import { ApiError, ApiResponse, ErrorCode } from '@/utils/ApiResponse';
+import { calculateLeaveDuration, leavesOverlap, resolveLeaveSessions, toDayKey, toUtcDay } from '@/utils/leaveDuration';
+import { toCsvLine } from '@/utils/csv';
+import { rethrowConcurrentUpdate } from '@/utils/concurrentUpdate';
+import { decodeCursor, encodeCursor, parseSort } from '@/utils/pagination';
+import { getDeductedDays } from '@/utils/leaveBalance';
+import { buildApprovalChain, canDecideStep, findActingDelegation, getCurrentStep, pendingApprovalFilter, syncPendingStep } from '@/services/approval.service';
+import { delegateDuringLeave, syncLeaveDelegation } from '@/services/delegation.service';
+import { getHistory, recordLeaveEvent } from '@/services/audit.service';
+import { AuditAction, AuditEntityType } from '@/models/auditLog.model';
+import { postLedgerEntry, restoreLeaveBalance } from '@/services/ledger.service';
+import { notifyApprovalRequested, notifyLeaveDecided } from '@/services/notification.service';
+import { emitLeaveEvent } from '@/services/webhook.service';
+import { WebhookEvent } from '@/models/webhookSubscription.model';
+import { checkStaffing, StaffingCheckInput } from '@/services/staffing.service';
+import { checkLeavePolicies, getDocumentRequiringPolicies } from '@/services/leavePolicy.service';
+import { isKnownDepartment } from '@/services/organization.service';
+import { StaffingEnforcement } from '@/models/staffingRule.model';
+import { LedgerEntryKind } from '@/models/ledgerEntry.model';
+import { isValidObjectId, Types } from 'mongoose';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { LeaveListCriteria } from '@/config/persistence';
+import { getRepositories } from '@/services/persistence.service';
+
+/**
+ * Checks a leave against its department's staffing rule. A blocking rule refuses it with a 409;
+ * a warning rule returns the warnings to keep on the leave for the approvers.
+ */
+const enforceStaffingRule = async (input: StaffingCheckInput): Promise<IStaffingWarning[]> => {
+    const { rule, warnings } = await checkStaffing(input);
+    if (rule?.enforcement === StaffingEnforcement.BLOCK && warnings.length) {
+        const more = warnings.length > 1 ? ` (and ${warnings.length - 1} more day${warnings.length > 2 ? 's' : ''})` : '';
+        throw new ApiError(409, `Too many people in the department would be off: ${warnings[0].message}${more}`);
+    }
+    return warnings;
+};
+
+/**
+ * Re-checks staffing for a pending leave about to be approved, counting everything approved since it was filed.
+ */
+const recheckStaffing = async (leave: ILeave, department: string) => {
+    leave.staffingWarnings = await enforceStaffingRule({
+        organization: leave.organization,
+        department,
+        startDate: leave.startDate,
+        endDate: leave.endDate,
+        startSession: leave.startSession,
+        endSession: leave.endSession,
+        holidays: leave.duration.holidays,
+        excludeLeaveId: leave._id
+    });
+};
+
+/**
+ * Approvers need to see the supporting document a policy asks for before they can sign off.
+ */
+const requireSupportingDocument = (leave: ILeave) => {
+    if (leave.documentRequired && !leave.attachments.length) {
+        throw new ApiError(400,'This leave request needs a supporting document before it can be approved. Ask the employee to attach one.', {
+            code: ErrorCode.DOCUMENT_REQUIRED
+        });
+    }
+};
+
+// Largest page getAllLeaves and getPendingApprovals return, whatever limit is asked for
+const MAX_LEAVE_PAGE_LIMIT = 100;
+
+// Fields the leave list can be sorted on; the dates also drive cursor decoding
+const LEAVE_SORT_FIELDS = ['createdAt', 'updatedAt', 'startDate', 'endDate', 'status', 'leaveType', 'duration.chargedDays'];
+const LEAVE_DATE_FIELDS = ['createdAt', 'updatedAt', 'startDate', 'endDate'];
+
+const parseDayFilter = (value: unknown, name: string): Date | undefined => {
+    if (!value) {
+        return undefined;
+    }
+    const date = toUtcDay(new Date(value as string));
+    if (isNaN(date.getTime())) {
+        throw new ApiError(400, `Invalid date format for ${name}.`);
+    }
+    return date;
+};
+
+/**
+ * Builds the leave criteria, limited to the caller's organization, from the list/export filters: status, leave type, employee, department,
+ * leaves overlapping from/to, requests created between createdFrom and createdTo, and a search in the reason.
+ */
+const buildLeaveCriteria = async (req: Request): Promise<LeaveListCriteria> => {
+    const { status, leaveType, employee, department, search } = req.query;
+    const organization = req.organization!;
+
+    const criteria: LeaveListCriteria = { organization: organization._id };
+    if (status) {
+        if (!Object.values(LeaveStatus).includes(status as LeaveStatus)) {
+            throw new ApiError(400, `Invalid status. Must be one of: ${Object.values(LeaveStatus).join(', ')}`);
+        }
+        criteria.status = status as LeaveStatus;
+    }
+    if (leaveType) {
+        if (!Object.values(LeaveType).includes(leaveType as LeaveType)) {
+            throw new ApiError(400, `Invalid leave type. Must be one of: ${Object.values(LeaveType).join(', ')}`);
+        }
+        criteria.leaveType = leaveType as LeaveType;
+    }
+
+    criteria.overlapsFrom = parseDayFilter(req.query.from, 'from');
+    criteria.overlapsTo = parseDayFilter(req.query.to, 'to');
+
+    criteria.createdFrom = parseDayFilter(req.query.createdFrom, 'createdFrom');
+    const createdTo = parseDayFilter(req.query.createdTo, 'createdTo');
+    // Whole days, so the end of the range is the start of the next day
+    if (createdTo) criteria.createdBefore = new Date(createdTo.getTime() + 1000 * 3600 * 24);
+
+    if (employee) {
+        if (!isValidObjectId(employee)) {
+            throw new ApiError(400, 'Invalid employee ID.');
+        }
+        criteria.employees = [new Types.ObjectId(String(employee))];
+    }
+    if (department) {
+        if (!isKnownDepartment(organization, department)) {
+            throw new ApiError(400, `Invalid department. Must be one of: ${organization.settings.departments.join(', ')}`);
+        }
+        criteria.employees = await getRepositories().employees.findIdsByDepartment(organization._id, department, employee);
+    }
+
+    if (search) {
+        criteria.search = String(search);
+    }
+
+    return criteria;
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     LeaveDuration:
+ *       type: object
+ *       description: Breakdown of the days covered by a leave request
+ *       properties:
+ *         calendarDays:
+ *           type: number
+ *           description: All days between the start and end date, inclusive
+ *         weekendDays:
+ *           type: number
+ *           description: Days falling on a weekend (see WEEKEND_DAYS)
+ *         holidayDays:
+ *           type: number
+ *           description: Working days that are company holidays
+ *         chargedDays:
+ *           type: number
+ *           description: Working days deducted from the leave balance
+ *         holidays:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               name:
+ *                 type: string
+ *     ApprovalStep:
+ *       type: object
+ *       description: One step of a leave request's approval chain
+ *       properties:
+ *         level:
+ *           type: string
+ *           enum: [MANAGER, HR]
+ *         approver:
+ *           type: string
+ *           description: The reporting manager assigned to a MANAGER step
+ *         status:
+ *           type: string
+ *           enum: [Pending, Approved, Rejected]
+ *         decidedBy:
+ *           type: string
+ *         onBehalfOf:
+ *           type: string
+ *           description: The approver decidedBy stood in for through a delegation, if any
+ *         decidedAt:
+ *           type: string
+ *           format: date-time
+ *     StaffingWarning:
+ *       type: object
+ *       description: A working day on which the leave breaks the department's staffing rule
+ *       properties:
+ *         date:
+ *           type: string
+ *           format: date
+ *         headcount:
+ *           type: number
+ *         absent:
+ *           type: number
+ *           description: People off that day including this leave; half days count 0.5
+ *         message:
+ *           type: string
+ */
 
 /**
  * @swagger
@@ -11,6 +209,13 @@ import { ApiError, ApiResponse } from '@/utils/ApiResponse';
  *     summary: Apply for leave
  *     tags:
  *       - Leaves
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *           maxLength: 255
+ *         description: Optional. Retries with the same key and body get the first response back instead of running again
  *     requestBody:
  *       required: true
  *       content:
@@ -20,7 +225,11 @@ import { ApiError, ApiResponse } from '@/utils/ApiResponse';
  *             properties:
  *               employeeId:
  *                 type: string
- *                 description: The ID of the employee applying for leave
+ *                 description: Optional. The ID of the employee applying for leave. Defaults to the logged in employee; only HR and admins may apply on behalf of someone else.
+ *               leaveType:
+ *                 type: string
+ *                 enum: [CASUAL, SICK, EARNED, UNPAID, PARENTAL, COMP_OFF]
+ *                 description: The type of leave. Unpaid leave is not limited by balance.
  *               startDate:
  *                 type: string
  *                 format: date
@@ -29,6 +238,16 @@ import { ApiError, ApiResponse } from '@/utils/ApiResponse';
  *                 type: string
  *                 format: date
  *                 description: The end date of the leave
+ *               startSession:
+ *                 type: string
+ *                 enum: [FULL_DAY, FIRST_HALF, SECOND_HALF]
+ *                 default: FULL_DAY
+ *                 description: Part of the start day taken off. For a single-day leave this is the session of that day; a multi-day leave may start in the SECOND_HALF.
+ *               endSession:
+ *                 type: string
+ *                 enum: [FULL_DAY, FIRST_HALF, SECOND_HALF]
+ *                 default: FULL_DAY
+ *                 description: Part of the end day taken off. A multi-day leave may end in the FIRST_HALF.
  *               reason:
  *                 type: string
  *                 description: The reason for the leave
@@ -48,106 +267,229 @@ import { ApiError, ApiResponse } from '@/utils/ApiResponse';
  *                   properties:
  *                     employeId:
  *                       type: string
+ *                     leaveType:
+ *                       type: string
+ *                       enum: [CASUAL, SICK, EARNED, UNPAID, PARENTAL, COMP_OFF]
  *                     startDate:
  *                       type: string
  *                       format: date
  *                     endDate:
  *                       type: string
  *                       format: date
+ *                     startSession:
+ *                       type: string
+ *                       enum: [FULL_DAY, FIRST_HALF, SECOND_HALF]
+ *                     endSession:
+ *                       type: string
+ *                       enum: [FULL_DAY, FIRST_HALF, SECOND_HALF]
+ *                     duration:
+ *                       $ref: '#/components/schemas/LeaveDuration'
+ *                     approvalSteps:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ApprovalStep'
+ *                     currentStep:
+ *                       type: integer
+ *                     staffingWarnings:
+ *                       type: array
+ *                       description: Days on which the department would be understaffed (warning rules only)
+ *                       items:
+ *                         $ref: '#/components/schemas/StaffingWarning'
+ *                     attachments:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Attachment'
+ *                     documentRequired:
+ *                       type: boolean
+ *                       description: A leave policy requires a supporting document; the request can't be approved until one is attached
  *                     reason:
  *                       type: string
  *                     status:
  *                       type: string
  *                       enum: [Pending, Approved, Rejected]
  *       400:
- *         description: Bad request
+ *         description: Bad request, or the request breaks a leave policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ErrorResponse'
+ *                 - type: object
+ *                   properties:
+ *                     details:
+ *                       type: object
+ *                       description: Only with the POLICY_VIOLATION code
+ *                       properties:
+ *                         violations:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/PolicyViolation'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Applying on behalf of another employee
  *       404:
  *         description: Employee not found
  *       409:
- *         description: Conflict - Overlapping leave request
+ *         description: Conflict - Overlapping leave request, too many people in the department would be off (blocking staffing rule), or a request with the same Idempotency-Key is still running
+ *       422:
+ *         description: The Idempotency-Key was already used for a different request
  */
 
 /**
  * @function applyForLeave
- * @description Handles leave application requests. Validates input, checks employee existence, ensures no overlapping leaves, and sufficient leave balance. Creates a new leave request if all checks pass.
+ * @description Handles leave application requests. Validates input, checks employee existence, ensures no overlapping leaves, and sufficient leave balance for the working days (weekends and holidays are not charged). Creates a new leave request if all checks pass.
  * @route POST /api/leaves
  * @access Private (Employee)
  * @param {Request} req - Express request object
  * @param {Response} res - Express response object
  */
 export const applyForLeave = asyncHandler(async (req: Request, res: Response) => {
-    const { employeeId, startDate, endDate, reason } = req.body;
+    const { leaveType, startDate, endDate, startSession, endSession, reason } = req.body;
+    const currentUser = req.user!;
 
     // 1. Basic Input Validation
-    if (!employeeId || !startDate || !endDate ||!reason) {
-        res.status(400); // Bad Request
-        throw new ApiError(400,'All fields (employeeId, startDate, endDate, reason) are required');
+    if (!leaveType || !startDate || !endDate ||!reason) {
+        throw new ApiError(400,'All fields (leaveType, startDate, endDate, reason) are required');
+    }
+
+    if (!Object.values(LeaveType).includes(leaveType)) {
+        throw new ApiError(400,`Invalid leave type. Must be one of: ${Object.values(LeaveType).join(', ')}`);
+    }
+
+    // Employees always apply for themselves; only HR/Admin may apply on behalf of someone else
+    const employeeId = req.body.employeeId || currentUser.id;
+    if (String(employeeId) !== currentUser.id && ![Role.HR, Role.ADMIN].includes(currentUser.role)) {
+        throw new ApiError(403,'You can only apply for leave for yourself.');
     }
 
     // 2. Date Conversion and Basic Logic Check
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0); // Set time to midnight for accurate date comparison
+    const start = toUtcDay(new Date(startDate));
+    const end = toUtcDay(new Date(endDate));
+    const today = toUtcDay(new Date()); // Leave dates are whole days stored at midnight UTC
 
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+        throw new ApiError(400,'Invalid date format for startDate or endDate.');
+    }
     if (start > end) {
-        res.status(400); // Bad Request
         throw new ApiError(400,'Start date cannot be after end date.');
     }
     if (start < today) {
-        res.status(400); // Bad Request
         throw new ApiError(400,'Cannot apply for leave in the past.');
     }
 
-    // 3. Check if the Employee Exists
-    const employee = await Employee.findById(employeeId);
+    // Half-day sessions are only allowed at the edges of the leave
+    const sessions = resolveLeaveSessions(start, end, startSession as DaySession, endSession as DaySession);
+    if ('error' in sessions) {
+        throw new ApiError(400, sessions.error);
+    }
+
+    // 3. Check if the Employee Exists (in the caller's organization)
+    const repositories = getRepositories();
+    const employee = await repositories.employees.findInOrganization(currentUser.organization, employeeId);
     if (!employee) {
-        res.status(404); // Not Found
         throw new ApiError(404,'Employee not found.');
     }
-    
+
+    // Employees who have left can't take leave
+    if (!employee.isActive) {
+        throw new ApiError(400,'Deactivated employees cannot apply for leave.');
+    }
+
     // 4. Check if leave date is before the employee's joining date
     if (start < new Date(employee.joiningDate)) {
-        res.status(400);
         throw new ApiError(400,"Cannot apply for leave before the employee's joining date.");
     }
 
-    // 5. Check for Overlapping Leave Requests for the same employee
-    const overlappingLeave = await Leave.findOne({
-        employeId: employeeId,
-        status: { $in: ['Pending', 'Approved'] }, // Check against existing pending or approved leaves
-        $or: [
-            // Case 1: New leave starts during an existing leave
-            { startDate: { $lte: start }, endDate: { $gte: start } },
-            // Case 2: New leave ends during an existing leave  
-            { startDate: { $lte: end }, endDate: { $gte: end } },
-            // Case 3: New leave completely encompasses an existing leave
-            { startDate: { $gte: start }, endDate: { $lte: end } },
-            // Case 4: Existing leave completely encompasses the new leave
-            { startDate: { $lte: start }, endDate: { $gte: end } }
-        ]
+    // 5. Check the leave policies covering the department and leave type (notice, length, probation, blackouts)
+    const policyViolations = await checkLeavePolicies({
+        organization: employee.organization,
+        department: employee.department,
+        leaveType,
+        joiningDate: employee.joiningDate,
+        startDate: start,
+        endDate: end
     });
+    if (policyViolations.length) {
+        throw new ApiError(400, `This request breaks the leave policy: ${policyViolations.map((violation) => violation.message).join(' ')}`, {
+            code: ErrorCode.POLICY_VIOLATION,
+            details: { violations: policyViolations }
+        });
+    }
+
+    // 6. Check for Overlapping Leave Requests for the same employee
+    // Fetch every active leave sharing at least one calendar day, then compare
+    // half-day sessions so a morning and an afternoon leave on the same day don't conflict
+    const sameDayLeaves = await repositories.leaves.findActiveOverlapping(employee._id, start, end);
+    const overlappingLeave = sameDayLeaves.find((existing) => leavesOverlap(existing, {
+        startDate: start,
+        endDate: end,
+        ...sessions
+    }));
 
     if (overlappingLeave) {
-        res.status(409); // Conflict
         throw new ApiError(409,'This leave request overlaps with an existing leave.');
     }
 
-    // 6. Check if the employee has enough available leave
-    const leaveDuration = (end.getTime() - start.getTime()) / (1000 * 3600 * 24) + 1;
-    if (employee.leaveAvailability < leaveDuration) {
-        res.status(400);
-        throw new ApiError(400,`Insufficient leave balance. Available: ${employee.leaveAvailability}, Required: ${leaveDuration}`);
+    // 7. Work out the working days to charge, skipping weekends and holidays
+    const duration = await calculateLeaveDuration({
+        organization: employee.organization,
+        startDate: start,
+        endDate: end,
+        ...sessions,
+        department: employee.department,
+        location: employee.location
+    });
+    if (duration.chargedDays === 0) {
+        throw new ApiError(400,'The requested dates contain no working days.');
+    }
+
+    // 8. Check if the employee has enough available leave of the requested type (unpaid leave is never blocked)
+    const leaveDuration = duration.chargedDays;
+    if (isBalanceLeaveType(leaveType) && employee.leaveBalances[leaveType] < leaveDuration) {
+        throw new ApiError(400,`Insufficient ${leaveType} leave balance. Available: ${employee.leaveBalances[leaveType]}, Required: ${leaveDuration}`);
     }
 
+    // 9. Make sure enough of the department stays at work (blocks the request or flags it for the approvers)
+    const staffingWarnings = await enforceStaffingRule({
+        organization: employee.organization,
+        department: employee.department,
+        startDate: start,
+        endDate: end,
+        ...sessions,
+        holidays: duration.holidays
+    });
+
+    // 10. Route the request through the approval chain (manager, then HR for long leaves)
+    const approvalSteps = buildApprovalChain(employee, leaveDuration);
+
+    // 11. Note whether a policy wants a supporting document (e.g. a medical certificate) before approval
+    const documentPolicies = await getDocumentRequiringPolicies(employee.organization, employee.department, leaveType, leaveDuration);
+
     // --- If all checks pass, create the leave request ---
-    const newLeave = await Leave.create({
-        employeId: employeeId,
+    const newLeave = await repositories.leaves.create({
+        organization: employee.organization,
+        employeId: employee._id,
+        leaveType: leaveType,
         startDate: start,
         endDate: end,
+        startSession: sessions.startSession,
+        endSession: sessions.endSession,
+        duration: duration,
+        approvalSteps: approvalSteps,
+        pendingLevel: approvalSteps[0].level,
+        pendingApprover: approvalSteps[0].approver,
+        staffingWarnings: staffingWarnings,
+        documentRequired: documentPolicies.length > 0,
         reason: reason
     });
 
+    await recordLeaveEvent({ leave: newLeave, actor: currentUser, action: AuditAction.CREATED });
+
+    // Emails and webhooks go out in the background; a failed delivery doesn't fail the request
+    notifyApprovalRequested(newLeave);
+    emitLeaveEvent(WebhookEvent.LEAVE_APPLIED, newLeave);
+
     res.status(201).json(new ApiResponse(201,"Successfully applied for leave",newLeave));
 });
 
@@ -160,6 +502,12 @@ export const applyForLeave = asyncHandler(async (req: Request, res: Response) =>
  *     tags:
  *       - Leaves
  *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *           maxLength: 255
+ *         description: Optional. Retries with the same key and body get the first response back instead of running again
  *       - in: path
  *         name: id
  *         required: true
@@ -175,8 +523,12 @@ export const applyForLeave = asyncHandler(async (req: Request, res: Response) =>
  *             properties:
  *               status:
  *                 type: string
- *                 enum: [Pending, Approved, Rejected]
- *                 description: The new status of the leave request
+ *                 enum: [Approved, Rejected]
+ *                 description: The decision for the current approval step
+ *               comment:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: Optional. Reason for the decision, kept in the leave's history
  *     responses:
  *       200:
  *         description: Leave request status updated successfully
@@ -195,6 +547,9 @@ export const applyForLeave = asyncHandler(async (req: Request, res: Response) =>
  *                       type: string
  *                     employeId:
  *                       type: string
+ *                     leaveType:
+ *                       type: string
+ *                       enum: [CASUAL, SICK, EARNED, UNPAID, PARENTAL, COMP_OFF]
  *                     startDate:
  *                       type: string
  *                       format: date
@@ -207,73 +562,193 @@ export const applyForLeave = asyncHandler(async (req: Request, res: Response) =>
  *                       type: string
  *                       enum: [Pending, Approved, Rejected]
  *       400:
- *         description: Bad request
+ *         description: Bad request, or a leave policy requires a supporting document that hasn't been attached (DOCUMENT_REQUIRED)
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - The current approval step belongs to someone else, and the caller holds no active delegation from its approver
  *       404:
  *         description: Leave request not found
+ *       409:
+ *         description: Conflict - The leave was changed in the meantime, approving it would leave the department understaffed (blocking staffing rule), or a request with the same Idempotency-Key is still running
+ *       422:
+ *         description: The Idempotency-Key was already used for a different request
  */
 
 /**
  * @function updateLeaveStatus
- * @description Updates the status of a leave request (Approve/Reject). Checks validity, ensures leave is pending, and if approving, deducts leave from employee's balance.
+ * @description Records the current approver's decision (Approve/Reject) on a leave request, or that of someone with an active delegation from them (recorded as onBehalfOf on the step). A rejection at any step rejects the leave; an approval moves the request to the next step of its approval chain, and only the final approval marks the leave Approved and deducts it from the employee's balance.
  * @route PATCH /api/leaves/:id
- * @access Private (HR only)
+ * @access Private (Manager, HR, Admin)
  * @param {Request} req - Express request object
  * @param {Response} res - Express response object
  */
 export const updateLeaveStatus = asyncHandler(async (req: Request, res: Response) => {
     // The ID of the leave request from the URL parameters
     const { id } = req.params;
-    // The new status ('Approved' or 'Rejected') from the request body
-    const { status } = req.body;
+    // The new status ('Approved' or 'Rejected') and an optional comment from the request body
+    const { status, comment } = req.body;
 
     // 1. Validate the incoming status
     if (!status || ![LeaveStatus.APPROVED, LeaveStatus.REJECTED].includes(status)) {
-        res.status(400); // Bad Request
         throw new ApiError(400,"Status is required and must be 'Approved' or 'Rejected'.");
     }
+    if (comment !== undefined && (typeof comment !== 'string' || comment.length > 500)) {
+        throw new ApiError(400,'Comment must be a string of at most 500 characters.');
+    }
 
     // 2. Find the leave request by its ID
-    const leave = await Leave.findById(id);
+    const repositories = getRepositories();
+    const leave = await repositories.leaves.findInOrganization(req.user!.organization, id);
     if (!leave) {
-        res.status(404); // Not Found
         throw new ApiError(404,'Leave request not found');
     }
 
     // Prevent re-approving or re-rejecting an already processed request
     if (leave.status !== LeaveStatus.PENDING) {
-        res.status(400);
         throw new ApiError(400,`This leave request has already been ${leave.status}.`);
     }
 
-    // 3. If the leave is being approved, perform the deduction logic
+    // Nobody can decide on their own leave request
+    if (String(leave.employeId) === req.user!.id) {
+        throw new ApiError(403,'You cannot approve or reject your own leave request.');
+    }
+
+    // 3. Only the approver of the current step (or an admin) can decide, or someone they delegated to
+    const step = getCurrentStep(leave);
+    const acting = canDecideStep(req.user!, step) ? undefined : await findActingDelegation(req.user!, step);
+    if (!canDecideStep(req.user!, step) && !acting) {
+        throw new ApiError(403,`This leave request is waiting for ${step?.level} approval from someone else.`);
+    }
+    const onBehalfOf = acting ? ` (on behalf of ${acting.delegator.fullName})` : '';
+
+    // A rejection at any step ends the chain; an approval only ends it at the last step
+    const isFinalDecision = status === LeaveStatus.REJECTED || !step || leave.currentStep >= leave.approvalSteps.length - 1;
+
+    // The final approval checks the document once the duration has been recalculated below
+    if (status === LeaveStatus.APPROVED && !isFinalDecision) {
+        requireSupportingDocument(leave);
+    }
+
+    if (step) {
+        step.status = status === LeaveStatus.APPROVED ? ApprovalStepStatus.APPROVED : ApprovalStepStatus.REJECTED;
+        step.decidedBy = req.user!._id;
+        step.onBehalfOf = acting?.delegator._id;
+        step.decidedAt = new Date();
+        step.comment = comment;
+    }
+
+    if (!isFinalDecision) {
+        // Staffing may have changed since the request was filed
+        const employee = await repositories.employees.findById(leave.employeId);
+        if (employee) {
+            await recheckStaffing(leave, employee.department);
+        }
+
+        // Hand the request over to the next approver; nothing is deducted yet
+        leave.currentStep += 1;
+        syncPendingStep(leave);
+
+        // The step and its history commit together
+        await repositories.transaction(async (session) => {
+            await repositories.leaves.save(leave, session);
+            await recordLeaveEvent({
+                leave,
+                actor: req.user,
+                action: AuditAction.STEP_APPROVED,
+                fromStatus: LeaveStatus.PENDING,
+                comment: step ? `${step.level} step approved${onBehalfOf}${comment ? `: ${comment}` : ''}` : comment,
+                session
+            });
+        }).catch((error) => rethrowConcurrentUpdate(error, 'leave request'));
+
+        notifyApprovalRequested(leave);
+
+        res.status(200).json(new ApiResponse(200,"Approved at this step, waiting for the next approver",leave));
+        return;
+    }
+
+    // 4. If the leave is being approved, work out the days to deduct
     if (status === LeaveStatus.APPROVED) {
-        const employee = await Employee.findById(leave.employeId);
+        const employee = await repositories.employees.findById(leave.employeId);
         if (!employee) {
-            res.status(404);
             throw new ApiError(404,"Associated employee for this leave request could not be found.");
         }
 
-        // Calculate the duration of the leave in days
-        const leaveDuration =
-            (new Date(leave.endDate).getTime() - new Date(leave.startDate).getTime()) /
-                (1000 * 3600 * 24) + 1;
+        // Recalculate the working days so holidays added since the application are honoured
+        const duration = await calculateLeaveDuration({
+            organization: leave.organization,
+            startDate: leave.startDate,
+            endDate: leave.endDate,
+            startSession: leave.startSession,
+            endSession: leave.endSession,
+            department: employee.department,
+            location: employee.location
+        });
+        leave.duration = duration;
+        const leaveDuration = duration.chargedDays;
+
+        // The recalculated length decides whether a policy wants a supporting document
+        const documentPolicies = await getDocumentRequiringPolicies(leave.organization, employee.department, leave.leaveType, leaveDuration);
+        leave.documentRequired = documentPolicies.length > 0;
+        requireSupportingDocument(leave);
 
-        // Final check to ensure the employee still has enough leave
-        if (employee.leaveAvailability < leaveDuration) {
-            res.status(400);
-            throw new ApiError(400,`Cannot approve. Employee has insufficient leave balance. Available: ${employee.leaveAvailability}, Required: ${leaveDuration}`);
+        // Other leaves in the department may have been approved since the request was filed
+        await recheckStaffing(leave, employee.department);
+
+        // Unpaid leave is not drawn from any balance
+        if (isBalanceLeaveType(leave.leaveType)) {
+            // Final check to ensure the employee still has enough leave of this type
+            if (employee.leaveBalances[leave.leaveType] < leaveDuration) {
+                throw new ApiError(400,`Cannot approve. Employee has insufficient ${leave.leaveType} leave balance. Available: ${employee.leaveBalances[leave.leaveType]}, Required: ${leaveDuration}`);
+            }
         }
 
-        // Deduct the leave days from the employee's balance
-        employee.leaveAvailability -= leaveDuration;
-        await employee.save(); // Save the updated employee document
+        // Remember what was taken so it can be restored on cancellation
+        leave.deductedDays = isBalanceLeaveType(leave.leaveType) ? leaveDuration : 0;
     }
 
-    // 4. Update the leave request's status and save it
+    // 5. Update the leave request's status
     leave.status = status;
-    await leave.save(); // Save the updated leave document
+    syncPendingStep(leave);
+
+    // The deduction, the leave and its history commit together or not at all
+    await repositories.transaction(async (session) => {
+        if (status === LeaveStatus.APPROVED && isBalanceLeaveType(leave.leaveType) && leave.deductedDays) {
+            const entry = await postLedgerEntry({
+                employee: leave.employeId,
+                leaveType: leave.leaveType,
+                kind: LedgerEntryKind.DEDUCTION,
+                days: -leave.deductedDays,
+                leave: leave._id,
+                actor: req.user!._id
+            }, session);
+            // The balance was spent by another approval since the check above
+            if (!entry) {
+                throw new ApiError(400,`Cannot approve. Employee has insufficient ${leave.leaveType} leave balance. Required: ${leave.deductedDays}`);
+            }
+        }
+
+        await repositories.leaves.save(leave, session);
+
+        await recordLeaveEvent({
+            leave,
+            actor: req.user,
+            action: AuditAction.STATUS_CHANGED,
+            fromStatus: LeaveStatus.PENDING,
+            comment: onBehalfOf ? `${status}${onBehalfOf}${comment ? `: ${comment}` : ''}` : comment,
+            session
+        });
+    }).catch((error) => rethrowConcurrentUpdate(error, 'leave request'));
+
+    // An approver going on leave hands their approvals to their own manager meanwhile
+    if (status === LeaveStatus.APPROVED) {
+        delegateDuringLeave(leave);
+    }
+    notifyLeaveDecided(leave, req.user!, comment);
+    emitLeaveEvent(status === LeaveStatus.APPROVED ? WebhookEvent.LEAVE_APPROVED : WebhookEvent.LEAVE_REJECTED, leave);
 
-    // 5. Send a success response
+    // 6. Send a success response
     res.status(200).json(new ApiResponse(200,"Updated leave request status",leave));
 });
 
@@ -282,7 +757,7 @@ export const updateLeaveStatus = asyncHandler(async (req: Request, res: Response
  * @swagger
  * /api/v1/leaves:
  *   get:
- *     summary: Retrieve all leave requests with optional status filtering and pagination
+ *     summary: Retrieve all leave requests with filtering, sorting and page or cursor pagination
  *     tags:
  *       - Leaves
  *     parameters:
@@ -291,19 +766,78 @@ export const updateLeaveStatus = asyncHandler(async (req: Request, res: Response
  *         schema:
  *           type: integer
  *           default: 1
- *         description: The page number for pagination
+ *         description: The page number for pagination (ignored when a cursor is given)
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: The nextCursor of the previous response, to continue after it without skipping documents
  *       - in: query
  *         name: limit
  *         schema:
  *           type: integer
  *           default: 9
- *         description: The number of documents per page
+ *           maximum: 100
+ *         description: The number of documents per page (at most 100)
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, updatedAt, startDate, endDate, status, leaveType, duration.chargedDays]
+ *           default: -createdAt
+ *         description: The field to sort on; prefix it with - for descending order
  *       - in: query
  *         name: status
  *         schema:
  *           type: string
- *           enum: [Pending, Approved, Rejected]
+ *           enum: [Pending, Approved, Rejected, Withdrawn, Cancellation Requested, Cancelled]
  *         description: Filter leave requests by status
+ *       - in: query
+ *         name: leaveType
+ *         schema:
+ *           type: string
+ *           enum: [CASUAL, SICK, EARNED, UNPAID, PARENTAL, COMP_OFF]
+ *         description: Filter leave requests by leave type
+ *       - in: query
+ *         name: employee
+ *         schema:
+ *           type: string
+ *         description: Only the leaves of this employee ID
+ *       - in: query
+ *         name: department
+ *         schema:
+ *           type: string
+ *           example: SDE-I
+ *         description: Only the leaves of employees in this department
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only leaves ending on or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only leaves starting on or before this date
+ *       - in: query
+ *         name: createdFrom
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only requests made on or after this date
+ *       - in: query
+ *         name: createdTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only requests made on or before this date
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Case-insensitive text to look for in the reason
  *     responses:
  *       200:
  *         description: A list of leave requests with pagination metadata
@@ -320,6 +854,9 @@ export const updateLeaveStatus = asyncHandler(async (req: Request, res: Response
  *                       employeId:
  *                         type: string
  *                         description: The ID of the employee
+ *                       leaveType:
+ *                         type: string
+ *                         enum: [CASUAL, SICK, EARNED, UNPAID, PARENTAL, COMP_OFF]
  *                       startDate:
  *                         type: string
  *                         format: date
@@ -330,7 +867,7 @@ export const updateLeaveStatus = asyncHandler(async (req: Request, res: Response
  *                         type: string
  *                       status:
  *                         type: string
- *                         enum: [Pending, Approved, Rejected]
+ *                         enum: [Pending, Approved, Rejected, Withdrawn, Cancellation Requested, Cancelled]
  *                 pagination:
  *                   type: object
  *                   properties:
@@ -342,44 +879,166 @@ export const updateLeaveStatus = asyncHandler(async (req: Request, res: Response
  *                       type: integer
  *                     limit:
  *                       type: integer
+ *                     nextCursor:
+ *                       type: string
+ *                       nullable: true
+ *                       description: Pass as cursor to get the next page; null on the last page. Cursor pages only carry limit and nextCursor.
+ *       400:
+ *         description: Invalid filter, sort or cursor
  */
 
 /**
  * @function getAllLeaves
- * @description Retrieves a paginated list of all leave requests. Supports pagination via query params.
+ * @description Retrieves a filtered, sorted list of all leave requests, paginated by page number or by cursor.
+ * Cursor pagination continues after the last document seen, so it stays fast deep into large collections.
  * @route GET /api/leaves
- * @access Private (HR only)
+ * @access Private (Manager, HR, Admin)
  * @param {Request} req - Express request object
  * @param {Response} res - Express response object
  */
 export const getAllLeaves = asyncHandler(async (req: Request, res: Response) => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 9, 1), MAX_LEAVE_PAGE_LIMIT);
+    const cursor = req.query.cursor as string | undefined;
+
+    const sort = parseSort((req.query.sort as string | undefined) ?? '-createdAt', LEAVE_SORT_FIELDS);
+    if (!sort) {
+        throw new ApiError(400, `Invalid sort. Must be one of: ${LEAVE_SORT_FIELDS.join(', ')}, optionally prefixed with -`);
+    }
+
+    const criteria = await buildLeaveCriteria(req);
+    const { leaves: leaveRepository } = getRepositories();
+
+    if (cursor) {
+        const after = decodeCursor(cursor, sort, LEAVE_DATE_FIELDS);
+        if (!after) {
+            throw new ApiError(400, 'Invalid cursor.');
+        }
+
+        // One extra document tells whether there is a next page
+        const leaves = await leaveRepository.findPage(criteria, sort, { limit: limit + 1, after });
+        const hasMore = leaves.length > limit;
+        const data = leaves.slice(0, limit);
+
+        res.status(200).json(new ApiResponse(
+            200,
+            "Fetched Required Data",
+            {
+                data,
+                pagination: {
+                    limit,
+                    nextCursor: hasMore ? encodeCursor(data[data.length - 1], sort) : null
+                }
+            }
+        ));
+        return;
+    }
+
+    const skip = (page - 1) * limit;
+
+    // Fetch the data and the total document count in parallel for efficiency
+    const [leaves, totalDocuments] = await Promise.all([
+        leaveRepository.findPage(criteria, sort, { limit, skip }),
+        leaveRepository.count(criteria)
+    ]);
+
+    // Calculate the total number of pages
+    const totalPages = Math.ceil(totalDocuments / limit);
+
+    // Send the response with data and pagination metadata
+    res.status(200).json(new ApiResponse(
+        200,
+        "Fetched Required Data",
+        {
+            data:leaves,
+            pagination: {
+                totalDocuments,
+                totalPages,
+                currentPage: page,
+                limit,
+                // Lets a client switch to cursor pagination from any page
+                nextCursor: page < totalPages && leaves.length ? encodeCursor(leaves[leaves.length - 1], sort) : null
+            }
+        }
+    ));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/leaves/me:
+ *   get:
+ *     summary: Retrieve the logged in employee's own leave requests
+ *     tags:
+ *       - Leaves
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: The page number for pagination
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 9
+ *         description: The number of documents per page
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [Pending, Approved, Rejected, Withdrawn, Cancellation Requested, Cancelled]
+ *         description: Filter leave requests by status
+ *       - in: query
+ *         name: leaveType
+ *         schema:
+ *           type: string
+ *           enum: [CASUAL, SICK, EARNED, UNPAID, PARENTAL, COMP_OFF]
+ *         description: Filter leave requests by leave type
+ *     responses:
+ *       200:
+ *         description: A list of the employee's leave requests with pagination metadata
+ *       401:
+ *         description: Unauthorized
+ */
+
+/**
+ * @function getMyLeaves
+ * @description Retrieves a paginated list of the logged in employee's own leave requests.
+ * @route GET /api/leaves/me
+ * @access Private (Employee)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getMyLeaves = asyncHandler(async (req: Request, res: Response) => {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 9;
     const status = req.query.status as string; // Optional status filter
+    const leaveType = req.query.leaveType as string; // Optional leave type filter
 
     const skip = (page - 1) * limit;
 
-    // Build the query filter based on the status
-    const queryFilter: any = {};
-    if (status && [LeaveStatus.PENDING, LeaveStatus.APPROVED, LeaveStatus.REJECTED].includes(status as LeaveStatus)) {
+    const queryFilter: any = { employeId: req.user!._id };
+    if (status && Object.values(LeaveStatus).includes(status as LeaveStatus)) {
         queryFilter.status = status;
     }
+    if (leaveType && Object.values(LeaveType).includes(leaveType as LeaveType)) {
+        queryFilter.leaveType = leaveType;
+    }
 
-    // Fetch the data and the total document count in parallel for efficiency
     const [leaves, totalDocuments] = await Promise.all([
-        Leave.find(queryFilter).sort({ createdAt: -1 }).limit(limit).skip(skip).populate('employeId', 'fullName email'),
+        Leave.find(queryFilter).sort({ startDate: -1 }).limit(limit).skip(skip),
         Leave.countDocuments(queryFilter)
     ]);
 
-    // Calculate the total number of pages
     const totalPages = Math.ceil(totalDocuments / limit);
 
-    // Send the response with data and pagination metadata
     res.status(200).json(new ApiResponse(
         200,
         "Fetched Required Data",
         {
-            data:leaves,
+            data: leaves,
             pagination: {
                 totalDocuments,
                 totalPages,
@@ -388,4 +1047,647 @@ export const getAllLeaves = asyncHandler(async (req: Request, res: Response) =>
             }
         }
     ));
-});
\ No newline at end of file
+});
+
+
+/**
+ * @swagger
+ * /api/v1/leaves/{id}/withdraw:
+ *   patch:
+ *     summary: Withdraw a pending leave request
+ *     tags:
+ *       - Leaves
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the leave request to withdraw
+ *     responses:
+ *       200:
+ *         description: Leave request withdrawn
+ *       400:
+ *         description: Only pending leave requests can be withdrawn
+ *       403:
+ *         description: Forbidden - Not your leave request
+ *       404:
+ *         description: Leave request not found
+ */
+
+/**
+ * @function withdrawLeave
+ * @description Withdraws a pending leave request. Nothing has been deducted yet, so no balance is restored.
+ * @route PATCH /api/leaves/:id/withdraw
+ * @access Private (Owner, HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const withdrawLeave = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const currentUser = req.user!;
+
+    const repositories = getRepositories();
+    const leave = await repositories.leaves.findInOrganization(req.user!.organization, id);
+    if (!leave) {
+        throw new ApiError(404,'Leave request not found');
+    }
+
+    if (String(leave.employeId) !== currentUser.id && ![Role.HR, Role.ADMIN].includes(currentUser.role)) {
+        throw new ApiError(403,'You can only withdraw your own leave requests.');
+    }
+
+    if (leave.status !== LeaveStatus.PENDING) {
+        throw new ApiError(400,`Only pending leave requests can be withdrawn. This request is ${leave.status}.`);
+    }
+
+    leave.status = LeaveStatus.WITHDRAWN;
+    syncPendingStep(leave);
+
+    // The withdrawal and its history commit together
+    await repositories.transaction(async (session) => {
+        await repositories.leaves.save(leave, session);
+        await recordLeaveEvent({ leave, actor: currentUser, action: AuditAction.STATUS_CHANGED, fromStatus: LeaveStatus.PENDING, session });
+    }).catch((error) => rethrowConcurrentUpdate(error, 'leave request'));
+
+    emitLeaveEvent(WebhookEvent.LEAVE_WITHDRAWN, leave);
+
+    res.status(200).json(new ApiResponse(200,"Leave request withdrawn",leave));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/leaves/{id}/cancellation:
+ *   post:
+ *     summary: Request cancellation of an approved leave
+ *     description: Cancels the whole leave if it has not started yet, or cuts it short when `endDate` is given. A manager or HR has to confirm the cancellation before the days are restored.
+ *     tags:
+ *       - Leaves
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the approved leave
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 description: Why the leave is being cancelled
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *                 description: Optional. New last day of the leave for a partial cancellation
+ *               endSession:
+ *                 type: string
+ *                 enum: [FULL_DAY, FIRST_HALF, SECOND_HALF]
+ *                 description: Optional. Session of the new last day
+ *     responses:
+ *       200:
+ *         description: Cancellation requested
+ *       400:
+ *         description: Bad request
+ *       403:
+ *         description: Forbidden - Not your leave request
+ *       404:
+ *         description: Leave request not found
+ */
+
+/**
+ * @function requestLeaveCancellation
+ * @description Requests a full or partial cancellation of an approved leave. Only days that have not been taken yet can be cancelled.
+ * @route POST /api/leaves/:id/cancellation
+ * @access Private (Owner)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const requestLeaveCancellation = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { reason, endDate, endSession } = req.body;
+
+    if (!reason) {
+        throw new ApiError(400,'A reason is required to cancel a leave.');
+    }
+
+    const repositories = getRepositories();
+    const leave = await repositories.leaves.findInOrganization(req.user!.organization, id);
+    if (!leave) {
+        throw new ApiError(404,'Leave request not found');
+    }
+
+    if (String(leave.employeId) !== req.user!.id) {
+        throw new ApiError(403,'You can only cancel your own leaves.');
+    }
+
+    if (leave.status !== LeaveStatus.APPROVED) {
+        throw new ApiError(400,`Only approved leaves can be cancelled. This request is ${leave.status}.`);
+    }
+
+    const today = toUtcDay(new Date());
+
+    if (endDate === undefined) {
+        // Full cancellation: the leave must not have started
+        if (leave.startDate <= today) {
+            throw new ApiError(400,'This leave has already started. Pass a new endDate to cut it short instead.');
+        }
+        leave.cancellationRequest = { reason, requestedAt: new Date() };
+    } else {
+        // Partial cancellation: keep the start, move the end earlier
+        const newEnd = toUtcDay(new Date(endDate));
+        if (isNaN(newEnd.getTime()) || newEnd < leave.startDate || newEnd > leave.endDate) {
+            throw new ApiError(400,'The new end date must fall within the current leave dates.');
+        }
+
+        const sessions = resolveLeaveSessions(leave.startDate, newEnd, leave.startSession, endSession as DaySession);
+        if ('error' in sessions) {
+            throw new ApiError(400, sessions.error);
+        }
+
+        if (newEnd.getTime() === leave.endDate.getTime() && sessions.endSession === leave.endSession) {
+            throw new ApiError(400,'The new end date does not shorten the leave.');
+        }
+
+        // Only days from today onwards can be given back
+        const firstCancelledDay = new Date(newEnd.getTime() + 1000 * 3600 * 24);
+        if (firstCancelledDay < today) {
+            throw new ApiError(400,'Days that have already been taken cannot be cancelled.');
+        }
+
+        leave.cancellationRequest = {
+            reason,
+            requestedAt: new Date(),
+            newEndDate: newEnd,
+            newEndSession: sessions.endSession
+        };
+    }
+
+    leave.status = LeaveStatus.CANCELLATION_REQUESTED;
+
+    // The request and its history commit together
+    await repositories.transaction(async (session) => {
+        await repositories.leaves.save(leave, session);
+        await recordLeaveEvent({
+            leave,
+            actor: req.user,
+            action: AuditAction.STATUS_CHANGED,
+            fromStatus: LeaveStatus.APPROVED,
+            comment: reason,
+            session
+        });
+    }).catch((error) => rethrowConcurrentUpdate(error, 'leave request'));
+
+    res.status(200).json(new ApiResponse(200,"Cancellation requested",leave));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/leaves/{id}/cancellation:
+ *   patch:
+ *     summary: Confirm or decline a leave cancellation request
+ *     tags:
+ *       - Leaves
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the leave with a pending cancellation
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               decision:
+ *                 type: string
+ *                 enum: [Approved, Rejected]
+ *                 description: Approved restores the cancelled days to the employee's balance
+ *               comment:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: Optional. Reason for the decision, kept in the leave's history
+ *     responses:
+ *       200:
+ *         description: Cancellation decided
+ *       400:
+ *         description: Bad request
+ *       403:
+ *         description: Forbidden - Only the leave's manager approver (or their delegate), HR and admins can decide on cancellations
+ *       404:
+ *         description: Leave request not found
+ */
+
+/**
+ * @function decideLeaveCancellation
+ * @description Confirms or declines a cancellation request. On confirmation the leave is cancelled (or shortened) and the unused days are restored to the employee's balance.
+ * @route PATCH /api/leaves/:id/cancellation
+ * @access Private (The leave's manager approver or their delegate, HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const decideLeaveCancellation = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { decision, comment } = req.body;
+
+    if (!decision || !Object.values(CancellationDecision).includes(decision)) {
+        throw new ApiError(400,"Decision is required and must be 'Approved' or 'Rejected'.");
+    }
+    if (comment !== undefined && (typeof comment !== 'string' || comment.length > 500)) {
+        throw new ApiError(400,'Comment must be a string of at most 500 characters.');
+    }
+
+    const repositories = getRepositories();
+    const leave = await repositories.leaves.findInOrganization(req.user!.organization, id);
+    if (!leave) {
+        throw new ApiError(404,'Leave request not found');
+    }
+
+    if (leave.status !== LeaveStatus.CANCELLATION_REQUESTED || !leave.cancellationRequest) {
+        throw new ApiError(400,'This leave has no pending cancellation request.');
+    }
+
+    if (String(leave.employeId) === req.user!.id) {
+        throw new ApiError(403,'You cannot decide on your own cancellation request.');
+    }
+
+    // HR and admins decide any cancellation; otherwise the leave's manager approver, or someone they delegated to
+    const managerStep = leave.approvalSteps.find((step) => step.level === ApprovalLevel.MANAGER) ?? leave.approvalSteps[0];
+    const canDecideCancellation = req.user!.role === Role.HR
+        || canDecideStep(req.user!, managerStep)
+        || !!(await findActingDelegation(req.user!, managerStep));
+    if (!canDecideCancellation) {
+        throw new ApiError(403,"Only the leave's approver, their delegate, HR or an admin can decide on this cancellation.");
+    }
+
+    const cancellation = leave.cancellationRequest;
+    cancellation.decision = decision;
+    cancellation.decidedBy = req.user!._id;
+    cancellation.decidedAt = new Date();
+
+    if (decision === CancellationDecision.REJECTED) {
+        // The leave stands as it was approved
+        leave.status = LeaveStatus.APPROVED;
+        await repositories.transaction(async (session) => {
+            await repositories.leaves.save(leave, session);
+            await recordLeaveEvent({
+                leave,
+                actor: req.user,
+                action: AuditAction.STATUS_CHANGED,
+                fromStatus: LeaveStatus.CANCELLATION_REQUESTED,
+                comment: `Cancellation rejected${comment ? `: ${comment}` : ''}`,
+                session
+            });
+        }).catch((error) => rethrowConcurrentUpdate(error, 'leave request'));
+        res.status(200).json(new ApiResponse(200,"Cancellation request rejected",leave));
+        return;
+    }
+
+    const employee = await repositories.employees.findById(leave.employeId);
+    if (!employee) {
+        throw new ApiError(404,"Associated employee for this leave request could not be found.");
+    }
+
+    const deductedDays = getDeductedDays(leave);
+    let restoredDays: number;
+
+    if (!cancellation.newEndDate) {
+        // Full cancellation gives back everything that was deducted
+        restoredDays = deductedDays;
+        leave.status = LeaveStatus.CANCELLED;
+    } else {
+        // Partial cancellation: charge only the days that remain
+        const duration = await calculateLeaveDuration({
+            organization: leave.organization,
+            startDate: leave.startDate,
+            endDate: cancellation.newEndDate,
+            startSession: leave.startSession,
+            endSession: cancellation.newEndSession,
+            department: employee.department,
+            location: employee.location
+        });
+        const remainingCharge = isBalanceLeaveType(leave.leaveType) ? duration.chargedDays : 0;
+        restoredDays = deductedDays - remainingCharge;
+
+        leave.endDate = cancellation.newEndDate;
+        leave.endSession = cancellation.newEndSession ?? DaySession.FULL_DAY;
+        leave.duration = duration;
+        leave.status = LeaveStatus.APPROVED;
+    }
+
+    if (restoredDays > 0) {
+        leave.deductedDays = Math.max(0, deductedDays - restoredDays);
+    }
+
+    // The restoration, the leave and its history commit together or not at all
+    await repositories.transaction(async (session) => {
+        await restoreLeaveBalance(leave, restoredDays, req.user!._id, session);
+        await repositories.leaves.save(leave, session);
+        await recordLeaveEvent({
+            leave,
+            actor: req.user,
+            action: AuditAction.STATUS_CHANGED,
+            fromStatus: LeaveStatus.CANCELLATION_REQUESTED,
+            comment: `${cancellation.newEndDate ? 'Partial cancellation' : 'Cancellation'} approved${comment ? `: ${comment}` : ''}`,
+            session
+        });
+    }).catch((error) => rethrowConcurrentUpdate(error, 'leave request'));
+
+    syncLeaveDelegation(leave, req.user!._id);
+    // A partial cancellation is sent as leave.cancelled too, with the leave still Approved and its new end date
+    emitLeaveEvent(WebhookEvent.LEAVE_CANCELLED, leave);
+
+    res.status(200).json(new ApiResponse(200,"Leave cancellation confirmed",leave));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/leaves/pending-approval:
+ *   get:
+ *     summary: Retrieve the leave requests waiting for the logged in approver
+ *     description: Managers see requests whose current step is assigned to them, HR also sees every request at the HR step, admins see all pending requests. Requests waiting on the approvers the caller currently has a delegation from are included too.
+ *     tags:
+ *       - Leaves
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: The page number for pagination
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 9
+ *           maximum: 100
+ *         description: The number of documents per page (at most 100)
+ *     responses:
+ *       200:
+ *         description: A list of leave requests awaiting the caller's decision, oldest first, with pagination metadata
+ *       403:
+ *         description: Forbidden
+ */
+
+/**
+ * @function getPendingApprovals
+ * @description Retrieves the pending leave requests whose current approval step is waiting on the logged in user.
+ * @route GET /api/leaves/pending-approval
+ * @access Private (Manager, HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getPendingApprovals = asyncHandler(async (req: Request, res: Response) => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 9, 1), MAX_LEAVE_PAGE_LIMIT);
+
+    const skip = (page - 1) * limit;
+
+    const queryFilter = await pendingApprovalFilter(req.user!);
+
+    // Oldest first, so nothing waits forever at the bottom of the list
+    const [leaves, totalDocuments] = await Promise.all([
+        Leave.find(queryFilter).sort({ startDate: 1 }).limit(limit).skip(skip).populate('employeId', 'fullName email department'),
+        Leave.countDocuments(queryFilter)
+    ]);
+
+    const totalPages = Math.ceil(totalDocuments / limit);
+
+    res.status(200).json(new ApiResponse(
+        200,
+        "Fetched Required Data",
+        {
+            data: leaves,
+            pagination: {
+                totalDocuments,
+                totalPages,
+                currentPage: page,
+                limit,
+            }
+        }
+    ));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/leaves/{id}/history:
+ *   get:
+ *     summary: Retrieve the status history of a leave request
+ *     tags:
+ *       - Leaves
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the leave request
+ *     responses:
+ *       200:
+ *         description: Every change made to the leave request, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   action:
+ *                     type: string
+ *                     enum: [CREATED, STATUS_CHANGED, STEP_APPROVED]
+ *                   actor:
+ *                     type: object
+ *                     properties:
+ *                       _id:
+ *                         type: string
+ *                       fullName:
+ *                         type: string
+ *                       email:
+ *                         type: string
+ *                       role:
+ *                         type: string
+ *                   fromStatus:
+ *                     type: string
+ *                   toStatus:
+ *                     type: string
+ *                   comment:
+ *                     type: string
+ *                   createdAt:
+ *                     type: string
+ *                     format: date-time
+ *       403:
+ *         description: Forbidden - Not your leave request
+ *       404:
+ *         description: Leave request not found
+ */
+
+/**
+ * @function getLeaveHistory
+ * @description Retrieves the append-only history of a leave request: who changed its status, when, from what to what, and why.
+ * @route GET /api/leaves/:id/history
+ * @access Private (Owner, Manager, HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getLeaveHistory = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const currentUser = req.user!;
+
+    if (!isValidObjectId(id)) {
+        throw new ApiError(400,'Invalid leave request ID.');
+    }
+
+    const leave = await getRepositories().leaves.findInOrganization(req.user!.organization, id);
+    if (!leave) {
+        throw new ApiError(404,'Leave request not found');
+    }
+
+    if (String(leave.employeId) !== currentUser.id && currentUser.role === Role.EMPLOYEE) {
+        throw new ApiError(403,'You can only view the history of your own leave requests.');
+    }
+
+    const history = await getHistory(AuditEntityType.LEAVE, id);
+
+    res.status(200).json(new ApiResponse(200,"Fetched Required Data",history));
+});
+
+// Columns of the leave export, in order
+const EXPORT_COLUMNS = [
+    'leaveId', 'employeeId', 'employeeName', 'employeeEmail', 'department', 'leaveType', 'status',
+    'startDate', 'startSession', 'endDate', 'endSession', 'chargedDays', 'deductedDays', 'reason', 'createdAt', 'updatedAt'
+];
+
+/**
+ * @swagger
+ * /api/v1/leaves/export:
+ *   get:
+ *     summary: Export leave records as CSV or JSON
+ *     description: Returns every matching leave (no pagination) as a file download, oldest start date first. Also accepts the employee, createdFrom, createdTo and search filters of GET /api/v1/leaves.
+ *     tags:
+ *       - Leaves
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, json]
+ *           default: csv
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [Pending, Approved, Rejected, Withdrawn, Cancellation Requested, Cancelled]
+ *       - in: query
+ *         name: leaveType
+ *         schema:
+ *           type: string
+ *           enum: [CASUAL, SICK, EARNED, UNPAID, PARENTAL, COMP_OFF]
+ *       - in: query
+ *         name: department
+ *         schema:
+ *           type: string
+ *           example: SDE-I
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only leaves ending on or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only leaves starting on or before this date
+ *     responses:
+ *       200:
+ *         description: The export file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *       400:
+ *         description: Invalid filter
+ *       403:
+ *         description: Forbidden
+ */
+
+/**
+ * @function exportLeaves
+ * @description Streams the leaves matching the filters as a CSV or JSON download for spreadsheets and reporting.
+ * @route GET /api/v1/leaves/export
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const exportLeaves = asyncHandler(async (req: Request, res: Response) => {
+    const format = (req.query.format as string | undefined) ?? 'csv';
+
+    if (format !== 'csv' && format !== 'json') {
+        throw new ApiError(400, "Invalid format. Must be one of: csv, json");
+    }
+
+    const criteria = await buildLeaveCriteria(req);
+
+    const fileName = `leaves-${toDayKey(new Date())}.${format}`;
+    res.status(200);
+    res.attachment(fileName);
+    res.type(format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8');
+
+    // Stream the rows so large exports don't have to fit in memory
+    const records = getRepositories().leaves.exportRecords(criteria);
+
+    const chunks = async function* () {
+        yield format === 'csv' ? toCsvLine(EXPORT_COLUMNS) + '\r\n' : '[';
+
+        let first = true;
+        for await (const leave of records) {
+            const record = {
+                leaveId: String(leave._id),
+                employeeId: leave.employeId ? String(leave.employeId._id) : null,
+                employeeName: leave.employeId?.fullName ?? null,
+                employeeEmail: leave.employeId?.email ?? null,
+                department: leave.employeId?.department ?? null,
+                leaveType: leave.leaveType,
+                status: leave.status,
+                startDate: toDayKey(leave.startDate),
+                startSession: leave.startSession,
+                endDate: toDayKey(leave.endDate),
+                endSession: leave.endSession,
+                chargedDays: leave.duration?.chargedDays ?? null,
+                deductedDays: leave.deductedDays ?? null,
+                reason: leave.reason,
+                createdAt: leave.createdAt ?? null,
+                updatedAt: leave.updatedAt ?? null
+            };
+
+            yield format === 'csv'
+                ? toCsvLine(EXPORT_COLUMNS.map((column) => record[column as keyof typeof record])) + '\r\n'
+                : `${first ? '' : ','}\n${JSON.stringify(record)}`;
+            first = false;
+        }
+
+        if (format === 'json') {
+            yield '\n]\n';
+        }
+    };
+
+    // The next rows are only read once a slow client has taken the previous ones; a client that goes away stops the query
+    await pipeline(Readable.from(chunks()), res);
+});
@@ -0,0 +1,352 @@
+import { Request, Response } from 'express';
+import { isValidObjectId } from 'mongoose';
+import { Role } from '@/models/employee.model';
+import { IOrganization } from '@/models/organization.model';
+import { LeaveType } from '@/models/leave.model';
+import LeavePolicy from '@/models/leavePolicy.model';
+import { getApplicablePolicies } from '@/services/leavePolicy.service';
+import { isKnownDepartment } from '@/services/organization.service';
+import { asyncHandler } from '@/utils/asyncHandler';
+import { ApiError, ApiResponse } from '@/utils/ApiResponse';
+import { toUtcDay } from '@/utils/leaveDuration';
+
+/**
+ * Validates the scope, limits and blackout periods of a policy body.
+ * `null` clears a scope or limit on update.
+ */
+const validatePolicyFields = (body: any, organization: IOrganization) => {
+    const { name, department, leaveType, minNoticeDays, maxConsecutiveDays, probationDays, documentRequiredAfterDays, blackoutPeriods, active } = body;
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.length > 100)) {
+        throw new ApiError(400, 'name must be a non-empty string of at most 100 characters.');
+    }
+    if (department != null && !isKnownDepartment(organization, department)) {
+        throw new ApiError(400, `Invalid department. Must be one of: ${organization.settings.departments.join(', ')}`);
+    }
+    if (leaveType != null && !Object.values(LeaveType).includes(leaveType)) {
+        throw new ApiError(400, `Invalid leave type. Must be one of: ${Object.values(LeaveType).join(', ')}`);
+    }
+    for (const [field, value, min] of [['minNoticeDays', minNoticeDays, 0], ['maxConsecutiveDays', maxConsecutiveDays, 1], ['probationDays', probationDays, 0], ['documentRequiredAfterDays', documentRequiredAfterDays, 0]] as const) {
+        if (value != null && (typeof value !== 'number' || value < min)) {
+            throw new ApiError(400, `${field} must be a number greater than or equal to ${min}.`);
+        }
+    }
+    if (blackoutPeriods !== undefined) {
+        const valid = Array.isArray(blackoutPeriods) && blackoutPeriods.every((period: any) =>
+            period && typeof period.reason === 'string' && period.reason.trim() &&
+            !isNaN(new Date(period.startDate).getTime()) && !isNaN(new Date(period.endDate).getTime()) &&
+            new Date(period.startDate) <= new Date(period.endDate)
+        );
+        if (!valid) {
+            throw new ApiError(400, 'blackoutPeriods must be a list of { startDate, endDate, reason } with startDate on or before endDate.');
+        }
+    }
+    if (active !== undefined && typeof active !== 'boolean') {
+        throw new ApiError(400, 'active must be a boolean.');
+    }
+};
+
+const toBlackoutPeriods = (periods: any[]) => periods.map((period) => ({
+    startDate: toUtcDay(new Date(period.startDate)),
+    endDate: toUtcDay(new Date(period.endDate)),
+    reason: period.reason
+}));
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     LeavePolicy:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         name:
+ *           type: string
+ *           example: Release freeze for QA
+ *         department:
+ *           type: string
+ *           example: SDE-I
+ *           description: Leave out to cover every department
+ *         leaveType:
+ *           type: string
+ *           enum: [CASUAL, SICK, EARNED, UNPAID, PARENTAL, COMP_OFF]
+ *           description: Leave out to cover every leave type
+ *         minNoticeDays:
+ *           type: number
+ *           description: Calendar days between the request and the first day of leave
+ *         maxConsecutiveDays:
+ *           type: number
+ *           description: Longest single leave in calendar days, start and end included
+ *         probationDays:
+ *           type: number
+ *           description: Days after the joining date during which the leave can't be taken
+ *         documentRequiredAfterDays:
+ *           type: number
+ *           description: Leaves charging more working days than this need a supporting document before they can be approved; 0 means always
+ *         blackoutPeriods:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *               reason:
+ *                 type: string
+ *         active:
+ *           type: boolean
+ *     PolicyViolation:
+ *       type: object
+ *       properties:
+ *         policy:
+ *           type: string
+ *         policyName:
+ *           type: string
+ *         rule:
+ *           type: string
+ *           enum: [MIN_NOTICE, MAX_CONSECUTIVE_DAYS, PROBATION, BLACKOUT]
+ *         message:
+ *           type: string
+ */
+
+/**
+ * @swagger
+ * /api/v1/leave-policies:
+ *   get:
+ *     summary: List the active leave policies
+ *     description: With department and/or leaveType, only the policies covering them (including the unscoped ones).
+ *     tags:
+ *       - Leave Policies
+ *     parameters:
+ *       - in: query
+ *         name: department
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: leaveType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *         description: HR and admins only; lists every policy, ignoring the other filters
+ *     responses:
+ *       200:
+ *         description: Leave policies
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/LeavePolicy'
+ *       400:
+ *         description: Invalid filter
+ */
+
+/**
+ * @function getLeavePolicies
+ * @description Lists the active leave policies, optionally only those covering a department and leave type, so employees can see the rules before applying.
+ * @route GET /api/v1/leave-policies
+ * @access Private
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getLeavePolicies = asyncHandler(async (req: Request, res: Response) => {
+    const { department, leaveType, includeInactive } = req.query;
+    const organization = req.organization!;
+
+    if (includeInactive === 'true' && [Role.HR, Role.ADMIN].includes(req.user!.role)) {
+        const policies = await LeavePolicy.find({ organization: organization._id }).sort({ name: 1 });
+        res.status(200).json(new ApiResponse(200, "Fetched Required Data", policies));
+        return;
+    }
+
+    if (department && !isKnownDepartment(organization, department)) {
+        throw new ApiError(400, `Invalid department. Must be one of: ${organization.settings.departments.join(', ')}`);
+    }
+    if (leaveType && !Object.values(LeaveType).includes(leaveType as LeaveType)) {
+        throw new ApiError(400, `Invalid leave type. Must be one of: ${Object.values(LeaveType).join(', ')}`);
+    }
+
+    const policies = department || leaveType
+        ? await getApplicablePolicies(organization._id, department as string | undefined, leaveType as LeaveType | undefined)
+        : await LeavePolicy.find({ organization: organization._id, active: true }).sort({ name: 1 });
+
+    res.status(200).json(new ApiResponse(200, "Fetched Required Data", policies));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/leave-policies:
+ *   post:
+ *     summary: Create a leave policy
+ *     tags:
+ *       - Leave Policies
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LeavePolicy'
+ *     responses:
+ *       201:
+ *         description: Leave policy created
+ *       400:
+ *         description: Bad request
+ */
+
+/**
+ * @function createLeavePolicy
+ * @description Creates a leave policy. It needs at least one rule: a notice period, a maximum length, a probation period, a document requirement or a blackout period.
+ * @route POST /api/v1/leave-policies
+ * @access Private (Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const createLeavePolicy = asyncHandler(async (req: Request, res: Response) => {
+    const { name, department, leaveType, minNoticeDays, maxConsecutiveDays, probationDays, documentRequiredAfterDays, blackoutPeriods, active } = req.body;
+
+    if (!name) {
+        throw new ApiError(400, 'name is required.');
+    }
+    validatePolicyFields(req.body, req.organization!);
+
+    if (minNoticeDays == null && maxConsecutiveDays == null && probationDays == null && documentRequiredAfterDays == null && !blackoutPeriods?.length) {
+        throw new ApiError(400, 'Set at least one of minNoticeDays, maxConsecutiveDays, probationDays, documentRequiredAfterDays or blackoutPeriods.');
+    }
+
+    const policy = await LeavePolicy.create({
+        organization: req.user!.organization,
+        name,
+        department: department ?? undefined,
+        leaveType: leaveType ?? undefined,
+        minNoticeDays: minNoticeDays ?? undefined,
+        maxConsecutiveDays: maxConsecutiveDays ?? undefined,
+        probationDays: probationDays ?? undefined,
+        documentRequiredAfterDays: documentRequiredAfterDays ?? undefined,
+        blackoutPeriods: blackoutPeriods ? toBlackoutPeriods(blackoutPeriods) : [],
+        active
+    });
+
+    res.status(201).json(new ApiResponse(201, "Leave policy created", policy));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/leave-policies/{id}:
+ *   patch:
+ *     summary: Update a leave policy
+ *     description: Send null to remove a scope or rule. blackoutPeriods replaces the whole list. Existing leave requests are not re-checked.
+ *     tags:
+ *       - Leave Policies
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LeavePolicy'
+ *     responses:
+ *       200:
+ *         description: Leave policy updated
+ *       400:
+ *         description: Bad request
+ *       404:
+ *         description: Leave policy not found
+ */
+
+/**
+ * @function updateLeavePolicy
+ * @description Updates the name, scope, rules or active flag of a leave policy.
+ * @route PATCH /api/v1/leave-policies/:id
+ * @access Private (Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const updateLeavePolicy = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+        throw new ApiError(400, 'Invalid leave policy ID.');
+    }
+
+    validatePolicyFields(req.body, req.organization!);
+
+    const policy = await LeavePolicy.findOne({ _id: id, organization: req.user!.organization });
+    if (!policy) {
+        throw new ApiError(404, 'Leave policy not found');
+    }
+
+    const { name, department, leaveType, minNoticeDays, maxConsecutiveDays, probationDays, documentRequiredAfterDays, blackoutPeriods, active } = req.body;
+    if (name !== undefined) policy.name = name;
+    if (department !== undefined) policy.department = department ?? undefined;
+    if (leaveType !== undefined) policy.leaveType = leaveType ?? undefined;
+    if (minNoticeDays !== undefined) policy.minNoticeDays = minNoticeDays ?? undefined;
+    if (maxConsecutiveDays !== undefined) policy.maxConsecutiveDays = maxConsecutiveDays ?? undefined;
+    if (probationDays !== undefined) policy.probationDays = probationDays ?? undefined;
+    if (documentRequiredAfterDays !== undefined) policy.documentRequiredAfterDays = documentRequiredAfterDays ?? undefined;
+    if (blackoutPeriods !== undefined) policy.set('blackoutPeriods', toBlackoutPeriods(blackoutPeriods));
+    if (active !== undefined) policy.active = active;
+
+    await policy.save();
+
+    res.status(200).json(new ApiResponse(200, "Leave policy updated", policy));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/leave-policies/{id}:
+ *   delete:
+ *     summary: Delete a leave policy
+ *     tags:
+ *       - Leave Policies
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Leave policy deleted
+ *       400:
+ *         description: Invalid leave policy ID
+ *       404:
+ *         description: Leave policy not found
+ */
+
+/**
+ * @function deleteLeavePolicy
+ * @description Deletes a leave policy. Set active to false instead to keep it for later.
+ * @route DELETE /api/v1/leave-policies/:id
+ * @access Private (Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const deleteLeavePolicy = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+        throw new ApiError(400, 'Invalid leave policy ID.');
+    }
+
+    const policy = await LeavePolicy.findOneAndDelete({ _id: id, organization: req.user!.organization });
+    if (!policy) {
+        throw new ApiError(404, 'Leave policy not found');
+    }
+
+    res.status(200).json(new ApiResponse(200, "Leave policy deleted", policy));
+});
@@ -0,0 +1,453 @@
+import { Request, Response } from 'express';
+import mongoose, { isValidObjectId } from 'mongoose';
+import Employee, { Department, Role } from '@/models/employee.model';
+import Organization, { DEFAULT_ORGANIZATION_SLUG, IOrganization } from '@/models/organization.model';
+import { BALANCE_LEAVE_TYPES, BalanceLeaveType } from '@/models/leave.model';
+import { AuditAction } from '@/models/auditLog.model';
+import { recordEmployeeEvent } from '@/services/audit.service';
+import { recordOpeningBalances } from '@/services/ledger.service';
+import { getDefaultLeaveBalances } from '@/services/organization.service';
+import { asyncHandler } from '@/utils/asyncHandler';
+import { ApiError, ApiResponse } from '@/utils/ApiResponse';
+
+/**
+ * Validates the name and settings fields of an organization body.
+ */
+const validateOrganizationFields = (body: any) => {
+    const { name, departments, defaultLeaveBalances } = body;
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.length > 100)) {
+        throw new ApiError(400, 'name must be a non-empty string of at most 100 characters.');
+    }
+
+    if (departments !== undefined) {
+        if (!Array.isArray(departments) || !departments.length) {
+            throw new ApiError(400, 'departments must be a non-empty array of department names.');
+        }
+        for (const department of departments) {
+            if (typeof department !== 'string' || !department.trim() || department.length > 50) {
+                throw new ApiError(400, 'Every department must be a non-empty string of at most 50 characters.');
+            }
+        }
+        if (new Set(departments.map((department: string) => department.trim())).size !== departments.length) {
+            throw new ApiError(400, 'Department names must be unique.');
+        }
+    }
+
+    if (defaultLeaveBalances !== undefined) {
+        if (typeof defaultLeaveBalances !== 'object' || defaultLeaveBalances === null || Array.isArray(defaultLeaveBalances)) {
+            throw new ApiError(400, 'defaultLeaveBalances must be an object keyed by leave type.');
+        }
+        for (const [type, balance] of Object.entries(defaultLeaveBalances)) {
+            if (!(BALANCE_LEAVE_TYPES as string[]).includes(type)) {
+                throw new ApiError(400, `Invalid leave type in defaultLeaveBalances: ${type}. Must be one of: ${BALANCE_LEAVE_TYPES.join(', ')}`);
+            }
+            if (typeof balance !== 'number' || !Number.isFinite(balance) || balance < 0) {
+                throw new ApiError(400, `The default ${type} leave balance must be a number greater than or equal to 0.`);
+            }
+        }
+    }
+};
+
+/**
+ * Applies validated settings from the body to the organization.
+ */
+const applySettings = (organization: IOrganization, body: any) => {
+    const { departments, defaultLeaveBalances } = body;
+
+    if (departments !== undefined) {
+        organization.settings.departments = departments.map((department: string) => department.trim());
+    }
+    if (defaultLeaveBalances !== undefined) {
+        for (const [type, balance] of Object.entries(defaultLeaveBalances) as [BalanceLeaveType, number][]) {
+            organization.settings.defaultLeaveBalances[type] = balance;
+        }
+    }
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Organization:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         name:
+ *           type: string
+ *           example: Acme Corp
+ *         slug:
+ *           type: string
+ *           description: Lowercase letters, digits and dashes; sent at login when an email exists in several organizations
+ *           example: acme
+ *         settings:
+ *           type: object
+ *           properties:
+ *             departments:
+ *               type: array
+ *               items:
+ *                 type: string
+ *               description: Departments employees, policies, holidays and staffing rules can be assigned to
+ *               example: [SDE-I, SDE-II, SDE-III, DESIGNER-UI/UX, FRONTEND, TESTING, HR]
+ *             defaultLeaveBalances:
+ *               type: object
+ *               description: Balance every new employee starts with for each leave type
+ *               properties:
+ *                 CASUAL:
+ *                   type: number
+ *                 SICK:
+ *                   type: number
+ *                 EARNED:
+ *                   type: number
+ *                 PARENTAL:
+ *                   type: number
+ *                 COMP_OFF:
+ *                   type: number
+ *         isActive:
+ *           type: boolean
+ *           description: Members of an inactive organization can't log in
+ */
+
+/**
+ * @swagger
+ * /api/v1/organizations/current:
+ *   get:
+ *     summary: Get the caller's organization
+ *     tags:
+ *       - Organizations
+ *     responses:
+ *       200:
+ *         description: The organization with its settings
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Organization'
+ */
+
+/**
+ * @function getCurrentOrganization
+ * @description Returns the logged in employee's organization, including its departments and default leave balances.
+ * @route GET /api/v1/organizations/current
+ * @access Private
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getCurrentOrganization = asyncHandler(async (req: Request, res: Response) => {
+    res.status(200).json(new ApiResponse(200, "Fetched Required Data", req.organization));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/organizations/current:
+ *   patch:
+ *     summary: Update the caller's organization settings
+ *     tags:
+ *       - Organizations
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               departments:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Replaces the whole list; departments that employees still belong to can't be removed
+ *               defaultLeaveBalances:
+ *                 type: object
+ *                 description: Opening balances for employees created from now on, keyed by leave type
+ *     responses:
+ *       200:
+ *         description: Organization updated
+ *       400:
+ *         description: Bad request
+ *       409:
+ *         description: A removed department still has employees
+ */
+
+/**
+ * @function updateCurrentOrganization
+ * @description Renames the admin's organization or changes its departments and default leave balances.
+ * Existing balances are not touched; the new defaults only apply to employees created afterwards.
+ * @route PATCH /api/v1/organizations/current
+ * @access Private (Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const updateCurrentOrganization = asyncHandler(async (req: Request, res: Response) => {
+    if (req.body.slug !== undefined || req.body.isActive !== undefined) {
+        throw new ApiError(400, 'The slug and active flag of an organization can only be changed by the host organization.');
+    }
+    validateOrganizationFields(req.body);
+
+    const organization = req.organization!;
+
+    if (req.body.departments !== undefined) {
+        const kept = req.body.departments.map((department: string) => department.trim());
+        const stillUsed: string[] = await Employee.distinct('department', {
+            organization: organization._id,
+            department: { $nin: kept }
+        });
+        if (stillUsed.length) {
+            throw new ApiError(409, `These departments still have employees and can't be removed: ${stillUsed.join(', ')}`);
+        }
+    }
+
+    if (req.body.name !== undefined) organization.name = req.body.name;
+    applySettings(organization, req.body);
+    await organization.save();
+
+    res.status(200).json(new ApiResponse(200, "Organization updated", organization));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/organizations:
+ *   get:
+ *     summary: List the organizations
+ *     tags:
+ *       - Organizations
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 9
+ *     responses:
+ *       200:
+ *         description: A page of organizations with pagination metadata
+ *       403:
+ *         description: Forbidden - Only admins of the host organization
+ */
+
+/**
+ * @function getOrganizations
+ * @description Lists every organization, for the admins of the host (default) organization.
+ * @route GET /api/v1/organizations
+ * @access Private (Admin of the host organization)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getOrganizations = asyncHandler(async (req: Request, res: Response) => {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 9;
+
+    const skip = (page - 1) * limit;
+
+    const [organizations, totalDocuments] = await Promise.all([
+        Organization.find().sort({ name: 1 }).limit(limit).skip(skip),
+        Organization.countDocuments()
+    ]);
+
+    const totalPages = Math.ceil(totalDocuments / limit);
+
+    res.status(200).json(new ApiResponse(
+        200,
+        "Fetched Required Data",
+        {
+            data: organizations,
+            pagination: {
+                totalDocuments,
+                totalPages,
+                currentPage: page,
+                limit
+            }
+        }
+    ));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/organizations:
+ *   post:
+ *     summary: Create an organization with its first admin
+ *     tags:
+ *       - Organizations
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, slug, admin]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               slug:
+ *                 type: string
+ *               departments:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Defaults to SDE-I, SDE-II, SDE-III, DESIGNER-UI/UX, FRONTEND, TESTING, HR
+ *               defaultLeaveBalances:
+ *                 type: object
+ *                 description: Defaults to CASUAL 12, SICK 12, EARNED 16, PARENTAL 90, COMP_OFF 0
+ *               admin:
+ *                 type: object
+ *                 required: [fullName, email, password]
+ *                 properties:
+ *                   fullName:
+ *                     type: string
+ *                   email:
+ *                     type: string
+ *                   password:
+ *                     type: string
+ *                   department:
+ *                     type: string
+ *                     description: One of the organization's departments; defaults to HR if it has one, else the first
+ *     responses:
+ *       201:
+ *         description: Organization and admin created
+ *       400:
+ *         description: Bad request
+ *       403:
+ *         description: Forbidden - Only admins of the host organization
+ *       409:
+ *         description: The slug is already taken
+ */
+
+/**
+ * @function createOrganization
+ * @description Creates an organization and its first admin, who can then log in and set it up.
+ * @route POST /api/v1/organizations
+ * @access Private (Admin of the host organization)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const createOrganization = asyncHandler(async (req: Request, res: Response) => {
+    const { name, slug, admin } = req.body;
+
+    if (!name || !slug || !admin) {
+        throw new ApiError(400, 'name, slug and admin are required.');
+    }
+    if (typeof admin !== 'object' || !admin.fullName || !admin.email || !admin.password) {
+        throw new ApiError(400, 'admin needs a fullName, email and password.');
+    }
+    if (typeof admin.password !== 'string' || admin.password.length < 8) {
+        throw new ApiError(400, 'Password must be a string of at least 8 characters.');
+    }
+    validateOrganizationFields(req.body);
+
+    const existingOrganization = await Organization.findOne({ slug: String(slug).toLowerCase() });
+    if (existingOrganization) {
+        throw new ApiError(409, `The slug ${slug} is already taken.`);
+    }
+
+    const organization = new Organization({ name, slug });
+    applySettings(organization, req.body);
+
+    const departments = organization.settings.departments;
+    const department = admin.department ?? (departments.includes(Department.HR) ? Department.HR : departments[0]);
+    if (!departments.includes(department)) {
+        throw new ApiError(400, `Invalid admin department. Must be one of: ${departments.join(', ')}`);
+    }
+
+    // The organization, its admin and the admin's opening ledger entries and history commit together
+    const firstAdmin = await mongoose.connection.transaction(async (session) => {
+        await organization.save({ session });
+
+        const [employee] = await Employee.create([{
+            organization: organization._id,
+            fullName: admin.fullName,
+            email: admin.email,
+            password: admin.password,
+            role: Role.ADMIN,
+            department,
+            joiningDate: new Date(),
+            leaveBalances: getDefaultLeaveBalances(organization)
+        }], { session });
+
+        await recordOpeningBalances(employee, req.user!._id, session);
+        await recordEmployeeEvent({ employee, actor: req.user, action: AuditAction.CREATED, comment: 'First admin of the organization', session });
+        return employee;
+    });
+
+    const { password, ...adminData } = firstAdmin.toJSON();
+    res.status(201).json(new ApiResponse(201, "Organization created", { organization, admin: adminData }));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/organizations/{id}:
+ *   patch:
+ *     summary: Rename, activate or deactivate an organization
+ *     tags:
+ *       - Organizations
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               isActive:
+ *                 type: boolean
+ *                 description: Members of an inactive organization can't log in
+ *     responses:
+ *       200:
+ *         description: Organization updated
+ *       400:
+ *         description: Bad request
+ *       403:
+ *         description: Forbidden - Only admins of the host organization
+ *       404:
+ *         description: Organization not found
+ */
+
+/**
+ * @function updateOrganization
+ * @description Renames an organization or turns it on or off. The host organization can't be deactivated.
+ * @route PATCH /api/v1/organizations/:id
+ * @access Private (Admin of the host organization)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const updateOrganization = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { name, isActive } = req.body;
+
+    if (!isValidObjectId(id)) {
+        throw new ApiError(400, 'Invalid organization ID.');
+    }
+    if (isActive !== undefined && typeof isActive !== 'boolean') {
+        throw new ApiError(400, 'isActive must be a boolean.');
+    }
+    validateOrganizationFields({ name });
+
+    const organization = await Organization.findById(id);
+    if (!organization) {
+        throw new ApiError(404, 'Organization not found');
+    }
+    if (isActive === false && organization.slug === DEFAULT_ORGANIZATION_SLUG) {
+        throw new ApiError(400, 'The host organization cannot be deactivated.');
+    }
+
+    if (name !== undefined) organization.name = name;
+    if (isActive !== undefined) organization.isActive = isActive;
+    await organization.save();
+
+    res.status(200).json(new ApiResponse(200, "Organization updated", organization));
+});
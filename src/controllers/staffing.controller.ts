@@ -0,0 +1,265 @@
+import { Request, Response } from 'express';
+import { isValidObjectId } from 'mongoose';
+import StaffingRule, { StaffingEnforcement } from '@/models/staffingRule.model';
+import { asyncHandler } from '@/utils/asyncHandler';
+import { ApiError, ApiResponse } from '@/utils/ApiResponse';
+import { isKnownDepartment } from '@/services/organization.service';
+
+/**
+ * Validates the limit, enforcement and flag fields of a staffing rule body.
+ * `null` clears a limit on update.
+ */
+const validateRuleFields = (body: any) => {
+    const { maxConcurrentAbsences, minPresentPercent, enforcement, countPending, active } = body;
+
+    if (maxConcurrentAbsences != null && (typeof maxConcurrentAbsences !== 'number' || maxConcurrentAbsences < 0)) {
+        throw new ApiError(400, 'maxConcurrentAbsences must be a number greater than or equal to 0.');
+    }
+    if (minPresentPercent != null && (typeof minPresentPercent !== 'number' || minPresentPercent < 0 || minPresentPercent > 100)) {
+        throw new ApiError(400, 'minPresentPercent must be a number between 0 and 100.');
+    }
+    if (enforcement !== undefined && !Object.values(StaffingEnforcement).includes(enforcement)) {
+        throw new ApiError(400, `Invalid enforcement. Must be one of: ${Object.values(StaffingEnforcement).join(', ')}`);
+    }
+    if (countPending !== undefined && typeof countPending !== 'boolean') {
+        throw new ApiError(400, 'countPending must be a boolean.');
+    }
+    if (active !== undefined && typeof active !== 'boolean') {
+        throw new ApiError(400, 'active must be a boolean.');
+    }
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     StaffingRule:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         department:
+ *           type: string
+ *           example: SDE-I
+ *         maxConcurrentAbsences:
+ *           type: number
+ *           description: Most people allowed off on the same working day (half days count 0.5)
+ *           example: 2
+ *         minPresentPercent:
+ *           type: number
+ *           description: Share of the department that must be present on every working day
+ *           example: 60
+ *         enforcement:
+ *           type: string
+ *           enum: [BLOCK, WARN]
+ *           description: BLOCK refuses requests and approvals that break the rule; WARN lets them through with staffing warnings
+ *         countPending:
+ *           type: boolean
+ *           description: Count other people's pending requests as absences too
+ *         active:
+ *           type: boolean
+ */
+
+/**
+ * @swagger
+ * /api/v1/staffing-rules:
+ *   get:
+ *     summary: List the staffing rules
+ *     tags:
+ *       - Staffing Rules
+ *     responses:
+ *       200:
+ *         description: One rule per department at most
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/StaffingRule'
+ */
+
+/**
+ * @function getStaffingRules
+ * @description Lists every department's staffing rule.
+ * @route GET /api/v1/staffing-rules
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getStaffingRules = asyncHandler(async (req: Request, res: Response) => {
+    const rules = await StaffingRule.find({ organization: req.user!.organization }).sort({ department: 1 });
+
+    res.status(200).json(new ApiResponse(200, "Fetched Required Data", rules));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/staffing-rules:
+ *   post:
+ *     summary: Create the staffing rule of a department
+ *     tags:
+ *       - Staffing Rules
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/StaffingRule'
+ *     responses:
+ *       201:
+ *         description: Staffing rule created
+ *       400:
+ *         description: Bad request
+ *       409:
+ *         description: The department already has a staffing rule
+ */
+
+/**
+ * @function createStaffingRule
+ * @description Creates the staffing rule of a department. At least one of maxConcurrentAbsences and minPresentPercent is required.
+ * @route POST /api/v1/staffing-rules
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const createStaffingRule = asyncHandler(async (req: Request, res: Response) => {
+    const { department, maxConcurrentAbsences, minPresentPercent, enforcement, countPending, active } = req.body;
+
+    const organization = req.organization!;
+    if (!isKnownDepartment(organization, department)) {
+        throw new ApiError(400, `Department is required and must be one of: ${organization.settings.departments.join(', ')}`);
+    }
+    validateRuleFields(req.body);
+
+    const existing = await StaffingRule.findOne({ organization: organization._id, department });
+    if (existing) {
+        throw new ApiError(409, `${department} already has a staffing rule. Update it instead.`);
+    }
+
+    const rule = await StaffingRule.create({
+        organization: organization._id,
+        department,
+        maxConcurrentAbsences: maxConcurrentAbsences ?? undefined,
+        minPresentPercent: minPresentPercent ?? undefined,
+        enforcement,
+        countPending,
+        active
+    });
+
+    res.status(201).json(new ApiResponse(201, "Staffing rule created", rule));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/staffing-rules/{id}:
+ *   patch:
+ *     summary: Update a staffing rule
+ *     description: Send null to remove one of the two limits. Requests already filed keep their warnings until they are approved.
+ *     tags:
+ *       - Staffing Rules
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/StaffingRule'
+ *     responses:
+ *       200:
+ *         description: Staffing rule updated
+ *       400:
+ *         description: Bad request
+ *       404:
+ *         description: Staffing rule not found
+ */
+
+/**
+ * @function updateStaffingRule
+ * @description Updates the limits, enforcement or flags of a staffing rule. The department cannot be changed.
+ * @route PATCH /api/v1/staffing-rules/:id
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const updateStaffingRule = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+        throw new ApiError(400, 'Invalid staffing rule ID.');
+    }
+
+    if (req.body.department !== undefined) {
+        throw new ApiError(400, 'The department of a staffing rule cannot be changed.');
+    }
+
+    validateRuleFields(req.body);
+
+    const rule = await StaffingRule.findOne({ _id: id, organization: req.user!.organization });
+    if (!rule) {
+        throw new ApiError(404, 'Staffing rule not found');
+    }
+
+    const { maxConcurrentAbsences, minPresentPercent, enforcement, countPending, active } = req.body;
+    if (maxConcurrentAbsences !== undefined) rule.maxConcurrentAbsences = maxConcurrentAbsences ?? undefined;
+    if (minPresentPercent !== undefined) rule.minPresentPercent = minPresentPercent ?? undefined;
+    if (enforcement !== undefined) rule.enforcement = enforcement;
+    if (countPending !== undefined) rule.countPending = countPending;
+    if (active !== undefined) rule.active = active;
+
+    await rule.save();
+
+    res.status(200).json(new ApiResponse(200, "Staffing rule updated", rule));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/staffing-rules/{id}:
+ *   delete:
+ *     summary: Delete a staffing rule
+ *     tags:
+ *       - Staffing Rules
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Staffing rule deleted
+ *       400:
+ *         description: Invalid staffing rule ID
+ *       404:
+ *         description: Staffing rule not found
+ */
+
+/**
+ * @function deleteStaffingRule
+ * @description Removes a department's staffing rule; its requests are no longer checked.
+ * @route DELETE /api/v1/staffing-rules/:id
+ * @access Private (HR, Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const deleteStaffingRule = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+        throw new ApiError(400, 'Invalid staffing rule ID.');
+    }
+
+    const rule = await StaffingRule.findOneAndDelete({ _id: id, organization: req.user!.organization });
+    if (!rule) {
+        throw new ApiError(404, 'Staffing rule not found');
+    }
+
+    res.status(200).json(new ApiResponse(200, "Staffing rule deleted", rule));
+});
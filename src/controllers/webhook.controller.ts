@@ -0,0 +1,498 @@
+import { Request, Response } from 'express';
+import { randomBytes } from 'crypto';
+import { isValidObjectId } from 'mongoose';
+import WebhookSubscription, { IWebhookSubscription, WebhookEvent } from '@/models/webhookSubscription.model';
+import WebhookDelivery, { WebhookDeliveryStatus } from '@/models/webhookDelivery.model';
+import { asyncHandler } from '@/utils/asyncHandler';
+import { ApiError, ApiResponse } from '@/utils/ApiResponse';
+import { processDueDeliveries } from '@/services/webhook.service';
+
+/**
+ * Validates the url, events, description and isActive fields of a subscription body.
+ */
+const validateSubscriptionFields = (body: any) => {
+    const { url, events, description, isActive } = body;
+
+    if (url !== undefined) {
+        let parsed: URL | undefined;
+        try {
+            parsed = new URL(url);
+        } catch {
+            parsed = undefined;
+        }
+        if (!parsed || !['http:', 'https:'].includes(parsed.protocol)) {
+            throw new ApiError(400, 'url must be a valid http:// or https:// URL.');
+        }
+    }
+    if (events !== undefined) {
+        const validEvents = Object.values(WebhookEvent) as string[];
+        if (!Array.isArray(events) || !events.length || events.some((event) => !validEvents.includes(event))) {
+            throw new ApiError(400, `events must be a non-empty list of: ${validEvents.join(', ')}`);
+        }
+    }
+    if (description !== undefined && (typeof description !== 'string' || description.length > 200)) {
+        throw new ApiError(400, 'description must be a string of at most 200 characters.');
+    }
+    if (isActive !== undefined && typeof isActive !== 'boolean') {
+        throw new ApiError(400, 'isActive must be a boolean.');
+    }
+};
+
+/**
+ * Loads a subscription of the caller's organization by the `:id` route parameter or throws a 400/404.
+ */
+const findSubscriptionOrThrow = async (req: Request): Promise<IWebhookSubscription> => {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+        throw new ApiError(400, 'Invalid webhook subscription ID.');
+    }
+
+    const subscription = await WebhookSubscription.findOne({ _id: id, organization: req.user!.organization });
+    if (!subscription) {
+        throw new ApiError(404, 'Webhook subscription not found');
+    }
+    return subscription;
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     WebhookSubscription:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         url:
+ *           type: string
+ *           example: https://payroll.example.com/hooks/leave
+ *         events:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [leave.applied, leave.approved, leave.rejected, leave.withdrawn, leave.cancelled, employee.created, employee.updated, employee.deactivated, employee.reactivated]
+ *         description:
+ *           type: string
+ *         isActive:
+ *           type: boolean
+ *         createdBy:
+ *           type: string
+ *     WebhookDelivery:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         subscription:
+ *           type: string
+ *         event:
+ *           type: string
+ *         payload:
+ *           type: string
+ *           description: The JSON body that was sent
+ *         status:
+ *           type: string
+ *           enum: [PENDING, SUCCEEDED, FAILED]
+ *         attempts:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               attemptedAt:
+ *                 type: string
+ *                 format: date-time
+ *               statusCode:
+ *                 type: integer
+ *               error:
+ *                 type: string
+ *               durationMs:
+ *                 type: integer
+ *         nextAttemptAt:
+ *           type: string
+ *           format: date-time
+ *         deliveredAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/v1/webhooks:
+ *   post:
+ *     summary: Subscribe a URL to leave and employee events
+ *     description: The response contains the signing secret. It is only shown once.
+ *     tags:
+ *       - Webhooks
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - url
+ *               - events
+ *             properties:
+ *               url:
+ *                 type: string
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Subscription created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 subscription:
+ *                   $ref: '#/components/schemas/WebhookSubscription'
+ *                 secret:
+ *                   type: string
+ *                   description: Key for verifying the X-Webhook-Signature header
+ *       400:
+ *         description: Bad request
+ */
+
+/**
+ * @function createWebhookSubscription
+ * @description Creates a webhook subscription with a new random signing secret, returned only in this response.
+ * @route POST /api/v1/webhooks
+ * @access Private (Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const createWebhookSubscription = asyncHandler(async (req: Request, res: Response) => {
+    const { url, events, description } = req.body;
+
+    if (!url || !events) {
+        throw new ApiError(400, 'url and events are required.');
+    }
+    validateSubscriptionFields(req.body);
+
+    const secret = randomBytes(32).toString('hex');
+    const subscription = await WebhookSubscription.create({
+        organization: req.user!.organization,
+        url,
+        events: [...new Set(events)],
+        description,
+        secret,
+        createdBy: req.user!._id
+    });
+
+    const { secret: _secret, ...created } = subscription.toJSON();
+    res.status(201).json(new ApiResponse(201, "Webhook subscription created", { subscription: created, secret }));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/webhooks:
+ *   get:
+ *     summary: List webhook subscriptions
+ *     tags:
+ *       - Webhooks
+ *     responses:
+ *       200:
+ *         description: Subscriptions, newest first, without their secrets
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/WebhookSubscription'
+ */
+
+/**
+ * @function getWebhookSubscriptions
+ * @description Lists every webhook subscription. Secrets are never returned here.
+ * @route GET /api/v1/webhooks
+ * @access Private (Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getWebhookSubscriptions = asyncHandler(async (req: Request, res: Response) => {
+    const subscriptions = await WebhookSubscription.find({ organization: req.user!.organization }).sort({ createdAt: -1 });
+
+    res.status(200).json(new ApiResponse(200, "Fetched Required Data", subscriptions));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/webhooks/{id}:
+ *   patch:
+ *     summary: Change the URL, events or description of a subscription, or pause it
+ *     tags:
+ *       - Webhooks
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               url:
+ *                 type: string
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               description:
+ *                 type: string
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Subscription updated
+ *       400:
+ *         description: Bad request
+ *       404:
+ *         description: Webhook subscription not found
+ */
+
+/**
+ * @function updateWebhookSubscription
+ * @description Updates a webhook subscription. Paused subscriptions get no new deliveries and their pending ones fail.
+ * @route PATCH /api/v1/webhooks/:id
+ * @access Private (Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const updateWebhookSubscription = asyncHandler(async (req: Request, res: Response) => {
+    validateSubscriptionFields(req.body);
+    const subscription = await findSubscriptionOrThrow(req);
+
+    const { url, events, description, isActive } = req.body;
+    if (url !== undefined) subscription.url = url;
+    if (events !== undefined) subscription.events = [...new Set(events as WebhookEvent[])];
+    if (description !== undefined) subscription.description = description;
+    if (isActive !== undefined) subscription.isActive = isActive;
+
+    await subscription.save();
+
+    res.status(200).json(new ApiResponse(200, "Webhook subscription updated", subscription));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/webhooks/{id}:
+ *   delete:
+ *     summary: Delete a webhook subscription
+ *     description: Its delivery log is kept; deliveries still waiting are not sent.
+ *     tags:
+ *       - Webhooks
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Subscription deleted
+ *       404:
+ *         description: Webhook subscription not found
+ */
+
+/**
+ * @function deleteWebhookSubscription
+ * @description Deletes a webhook subscription. Pending deliveries fail on their next attempt.
+ * @route DELETE /api/v1/webhooks/:id
+ * @access Private (Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const deleteWebhookSubscription = asyncHandler(async (req: Request, res: Response) => {
+    const subscription = await findSubscriptionOrThrow(req);
+    await subscription.deleteOne();
+
+    res.status(200).json(new ApiResponse(200, "Webhook subscription deleted", subscription));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/webhooks/{id}/deliveries:
+ *   get:
+ *     summary: Delivery log of a subscription
+ *     description: Every delivery with its payload and each attempt's status code, error and duration, newest first.
+ *     tags:
+ *       - Webhooks
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, SUCCEEDED, FAILED]
+ *       - in: query
+ *         name: event
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 9
+ *     responses:
+ *       200:
+ *         description: Paginated deliveries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WebhookDelivery'
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     totalDocuments:
+ *                       type: integer
+ *                     totalPages:
+ *                       type: integer
+ *                     currentPage:
+ *                       type: integer
+ *                     limit:
+ *                       type: integer
+ *       400:
+ *         description: Invalid filter
+ *       404:
+ *         description: Webhook subscription not found
+ */
+
+/**
+ * @function getWebhookDeliveries
+ * @description Lists the deliveries of a subscription, optionally filtered by status and event.
+ * @route GET /api/v1/webhooks/:id/deliveries
+ * @access Private (Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const getWebhookDeliveries = asyncHandler(async (req: Request, res: Response) => {
+    const { status, event } = req.query;
+    if (status && !Object.values(WebhookDeliveryStatus).includes(status as WebhookDeliveryStatus)) {
+        throw new ApiError(400, `Invalid status. Must be one of: ${Object.values(WebhookDeliveryStatus).join(', ')}`);
+    }
+    if (event && !Object.values(WebhookEvent).includes(event as WebhookEvent)) {
+        throw new ApiError(400, `Invalid event. Must be one of: ${Object.values(WebhookEvent).join(', ')}`);
+    }
+
+    const subscription = await findSubscriptionOrThrow(req);
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 9;
+    const skip = (page - 1) * limit;
+
+    const filter = {
+        subscription: subscription._id,
+        ...(status ? { status } : {}),
+        ...(event ? { event } : {})
+    };
+
+    const [deliveries, totalDocuments] = await Promise.all([
+        WebhookDelivery.find(filter).sort({ createdAt: -1 }).skip(skip).limit(limit),
+        WebhookDelivery.countDocuments(filter)
+    ]);
+
+    res.status(200).json(new ApiResponse(200, "Fetched Required Data", {
+        data: deliveries,
+        pagination: {
+            totalDocuments,
+            totalPages: Math.ceil(totalDocuments / limit),
+            currentPage: page,
+            limit
+        }
+    }));
+});
+
+
+/**
+ * @swagger
+ * /api/v1/webhooks/deliveries/{id}/redeliver:
+ *   post:
+ *     summary: Send a delivery again
+ *     description: Queues the same payload for immediate delivery, with a fresh set of retries.
+ *     tags:
+ *       - Webhooks
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Delivery queued
+ *       400:
+ *         description: Invalid delivery ID or the subscription is paused
+ *       404:
+ *         description: Delivery or its subscription not found
+ */
+
+/**
+ * @function redeliverWebhook
+ * @description Queues a new delivery of the same event and payload, e.g. after fixing the receiver. The original delivery is left as is.
+ * @route POST /api/v1/webhooks/deliveries/:id/redeliver
+ * @access Private (Admin)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ */
+export const redeliverWebhook = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+        throw new ApiError(400, 'Invalid webhook delivery ID.');
+    }
+
+    const original = await WebhookDelivery.findById(id);
+    if (!original) {
+        throw new ApiError(404, 'Webhook delivery not found');
+    }
+
+    const subscription = await WebhookSubscription.findById(original.subscription);
+    // Deliveries of another organization's subscriptions don't exist for the caller
+    if (subscription && !subscription.organization.equals(req.user!.organization)) {
+        throw new ApiError(404, 'Webhook delivery not found');
+    }
+    if (!subscription) {
+        throw new ApiError(404, 'The subscription of this delivery was deleted.');
+    }
+    if (!subscription.isActive) {
+        throw new ApiError(400, 'The subscription is paused. Reactivate it before redelivering.');
+    }
+
+    const delivery = await WebhookDelivery.create({
+        subscription: original.subscription,
+        event: original.event,
+        payload: original.payload,
+        nextAttemptAt: new Date()
+    });
+
+    processDueDeliveries();
+
+    res.status(200).json(new ApiResponse(200, "Webhook delivery queued", delivery));
+});
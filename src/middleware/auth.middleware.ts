@@ -0,0 +1,79 @@
+import { Request, Response, NextFunction } from 'express';
+import { Role } from '@/models/employee.model';
+import { DEFAULT_ORGANIZATION_SLUG } from '@/models/organization.model';
+import { getRepositories } from '@/services/persistence.service';
+import { ApiError } from '@/utils/ApiResponse';
+import { asyncHandler } from '@/utils/asyncHandler';
+import { verifyAccessToken } from '@/utils/token';
+
+/**
+ * Authenticates the request using the `Authorization: Bearer <token>` header
+ * and attaches the employee to `req.user` and their organization to `req.organization`.
+ */
+export const authenticate = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers.authorization;
+    if (!header || !header.startsWith('Bearer ')) {
+        throw new ApiError(401, 'Authentication token is missing.');
+    }
+
+    let employeeId: string;
+    try {
+        employeeId = verifyAccessToken(header.slice('Bearer '.length).trim()).sub;
+    } catch (error) {
+        throw new ApiError(401, 'Authentication token is invalid or expired.');
+    }
+
+    // Load the employee on every request so role changes and deactivation take effect immediately
+    const { employees, organizations } = getRepositories();
+    const employee = await employees.findById(employeeId);
+    if (!employee) {
+        throw new ApiError(401, 'The employee for this token no longer exists.');
+    }
+    if (!employee.isActive) {
+        throw new ApiError(403, 'This employee account has been deactivated.');
+    }
+
+    const organization = await organizations.findById(employee.organization);
+    if (!organization) {
+        throw new ApiError(401, 'The organization of this employee no longer exists.');
+    }
+    if (!organization.isActive) {
+        throw new ApiError(403, 'This organization has been deactivated.');
+    }
+
+    req.user = employee;
+    req.organization = organization;
+    next();
+});
+
+/**
+ * Restricts a route to the given roles.
+ * Must be placed after `authenticate`.
+ */
+export const authorize = (...roles: Role[]) => {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (!req.user) {
+            return next(new ApiError(401, 'Authentication required.'));
+        }
+        if (!roles.includes(req.user.role)) {
+            return next(new ApiError(403, 'You do not have permission to perform this action.'));
+        }
+        next();
+    };
+};
+
+/**
+ * Restricts a route to members of the default organization, whose admins manage the other organizations.
+ * Must be placed after `authenticate`.
+ */
+export const requireHostOrganization = (req: Request, res: Response, next: NextFunction) => {
+    if (req.organization?.slug !== DEFAULT_ORGANIZATION_SLUG) {
+        return next(new ApiError(403, 'Only the host organization can manage other organizations.'));
+    }
+    next();
+};
+
+/**
+ * Roles allowed to review and decide on other employees' leave requests.
+ */
+export const LEAVE_APPROVER_ROLES = [Role.MANAGER, Role.HR, Role.ADMIN];
@@ -1,14 +1,100 @@
 import { Request, Response, NextFunction } from 'express';
+import { Error as MongooseError } from 'mongoose';
+import { ApiError, defaultErrorCode, ErrorCode, FieldError } from '@/utils/ApiResponse';
+import { PersistenceDriver } from '@/config/persistence';
+import { getRepositories } from '@/services/persistence.service';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Whether Mongoose failed because there is no database to talk to: no server could be selected,
+ * or a query was refused because commands aren't buffered until a connection is made.
+ */
+const isMissingConnection = (err: unknown): boolean =>
+    err instanceof MongooseError
+    && (err.name === 'MongooseServerSelectionError' || err.message.includes('bufferCommands = false'));
+
+/**
+ * Turns whatever was thrown into an ApiError, so every failure carries its own status and code.
+ */
+const toApiError = (err: any): ApiError => {
+    if (err instanceof ApiError) {
+        return err;
+    }
+
+    // Schema validation: one field error per invalid path. The values are left out, they may be passwords.
+    if (err instanceof MongooseError.ValidationError) {
+        const errors: FieldError[] = Object.values(err.errors).map((fieldError) => ({
+            field: fieldError.path,
+            message: fieldError.message
+        }));
+        return new ApiError(400, errors.map((fieldError) => fieldError.message).join(', '), { code: ErrorCode.VALIDATION_FAILED, errors });
+    }
+
+    // A value that can't be cast to its schema type, usually a malformed ObjectId.
+    // A malformed _id can't match anything, so the resource doesn't exist.
+    if (err instanceof MongooseError.CastError) {
+        if (err.path === '_id') {
+            return new ApiError(404, `Nothing was found with the ID ${JSON.stringify(err.value)}.`);
+        }
+        return new ApiError(400, `Invalid value for ${err.path}.`, {
+            code: ErrorCode.VALIDATION_FAILED,
+            errors: [{ field: err.path, message: `Expected a valid ${err.kind}.`, value: err.value }]
+        });
+    }
+
+    if (err?.code === DUPLICATE_KEY_ERROR) {
+        // Unique indexes are per organization; the caller only needs to know which of their own fields clash
+        const fields = Object.keys(err.keyValue ?? err.keyPattern ?? {}).filter((field) => field !== 'organization');
+        return new ApiError(409, fields.length ? `A record with this ${fields.join(', ')} already exists.` : 'A record with these values already exists.', {
+            code: ErrorCode.DUPLICATE_KEY,
+            errors: fields.map((field) => ({ field, message: `${field} is already taken.`, value: err.keyValue?.[field] }))
+        });
+    }
+
+    // Errors raised by Express itself and its body parser carry their own status
+    const status = err?.status ?? err?.statusCode;
+    if (typeof status === 'number' && status >= 400 && status < 500) {
+        return new ApiError(status, err.message, { code: err.type === 'entity.parse.failed' ? ErrorCode.INVALID_JSON : defaultErrorCode(status) });
+    }
+
+    // Without MongoDB, the queries of features the in-memory store doesn't cover fail at once (bufferCommands is off)
+    if (getRepositories().driver === PersistenceDriver.MEMORY && isMissingConnection(err)) {
+        return new ApiError(503, 'This feature needs MongoDB, and the API is running on the in-memory store.', { code: ErrorCode.PERSISTENCE_UNAVAILABLE });
+    }
+
+    return new ApiError(500, 'Something went wrong on our side.');
+};
 
 const errorHandler = (err: Error, req: Request, res: Response, next: NextFunction) => {
-    const statusCode = res.statusCode ? res.statusCode : 500;
+    // A streamed response (CSV export, attachment download) failed after it started; the status can't change any more,
+    // so Express's own handler closes the connection and the client sees an incomplete response
+    if (res.headersSent) {
+        console.error(`${req.method} ${req.originalUrl} failed while streaming the response:`, err);
+        return next(err);
+    }
 
-    res.status(statusCode);
+    const apiError = toApiError(err);
 
-    res.json({
-        message: err.message,
+    if (apiError.statusCode >= 500) {
+        console.error(`${req.method} ${req.originalUrl} failed:`, err);
+    }
+
+    res.status(apiError.statusCode).json({
+        statusCode: apiError.statusCode,
+        code: apiError.code,
+        message: process.env.NODE_ENV === 'development' && apiError.statusCode >= 500 ? err.message : apiError.message,
+        errors: apiError.errors,
+        ...(apiError.details !== undefined ? { details: apiError.details } : {}),
         stack: process.env.NODE_ENV === 'development' ? err.stack : null,
     });
 };
 
-export { errorHandler };
\ No newline at end of file
+/**
+ * Answers requests that matched no route with the same error envelope.
+ */
+const notFound = (req: Request, res: Response, next: NextFunction) => {
+    next(new ApiError(404, `Route not found: ${req.method} ${req.originalUrl}`, { code: ErrorCode.ROUTE_NOT_FOUND }));
+};
+
+export { errorHandler, notFound };
@@ -0,0 +1,120 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import IdempotencyKey, { IdempotencyKeyStatus } from '@/models/idempotencyKey.model';
+import { getIdempotencyKeyTtlHours } from '@/config/idempotency';
+import { ApiError, ErrorCode } from '@/utils/ApiResponse';
+import { asyncHandler } from '@/utils/asyncHandler';
+
+const DUPLICATE_KEY_ERROR = 11000;
+const MAX_KEY_LENGTH = 255;
+// A key still in progress after this long belongs to a request that died; a retry may take it over
+const STALE_IN_PROGRESS_MS = 60 * 1000;
+// Responses that may turn out differently on a retry (a concurrent update, rate limiting); their key is released
+const RETRYABLE_STATUSES = [409, 429];
+
+/**
+ * JSON with the object keys sorted, so the same body sent with its fields in another order hashes the same.
+ */
+const canonicalJson = (value: unknown): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        const entries = Object.keys(record).sort().map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+};
+
+const hashRequest = (req: Request) => crypto.createHash('sha256').update(canonicalJson(req.body ?? {})).digest('hex');
+
+/**
+ * Claims the key for this request. Returns the stored record when the key was already used.
+ */
+const claimKey = async (employee: unknown, key: string, route: string, requestHash: string) => {
+    const expiresAt = new Date(Date.now() + getIdempotencyKeyTtlHours() * 3600 * 1000);
+    try {
+        await IdempotencyKey.create({ employee, key, route, requestHash, expiresAt });
+        return undefined;
+    } catch (error: any) {
+        if (error?.code !== DUPLICATE_KEY_ERROR) throw error;
+    }
+
+    const existing = await IdempotencyKey.findOne({ employee, key });
+    if (!existing) {
+        // Deleted in the meantime (expired, or its request failed): try once more
+        return claimKey(employee, key, route, requestHash);
+    }
+
+    // Expired keys linger until MongoDB's TTL monitor removes them; they no longer count
+    const expired = existing.expiresAt.getTime() <= Date.now();
+    const abandoned = existing.status === IdempotencyKeyStatus.IN_PROGRESS && existing.updatedAt.getTime() <= Date.now() - STALE_IN_PROGRESS_MS;
+    if (expired || abandoned) {
+        const taken = await IdempotencyKey.findOneAndUpdate(
+            { _id: existing._id, updatedAt: existing.updatedAt },
+            { $set: { route, requestHash, status: IdempotencyKeyStatus.IN_PROGRESS, expiresAt }, $unset: { responseStatus: 1, responseBody: 1 } }
+        );
+        return taken ? undefined : IdempotencyKey.findOne({ employee, key });
+    }
+
+    return existing;
+};
+
+/**
+ * Makes a route safe to retry with an `Idempotency-Key` header.
+ * The first request with a key runs normally and its response is stored; a retry with the same key and body
+ * gets that response back (with `Idempotent-Replayed: true`) without running the handler again.
+ * Reusing a key for a different request is refused with a 422, and a retry while the first request
+ * is still running with a 409. Server errors, conflicts and rate limiting aren't stored, so the request can be retried.
+ * Requests without the header are not affected. Must be placed after `authenticate`.
+ */
+export const idempotent = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.get('Idempotency-Key');
+    if (key === undefined) {
+        return next();
+    }
+    if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+        throw new ApiError(400, `The Idempotency-Key header must be between 1 and ${MAX_KEY_LENGTH} characters.`);
+    }
+
+    const employee = req.user!._id;
+    const route = `${req.method} ${req.baseUrl}${req.path}`;
+    const requestHash = hashRequest(req);
+
+    const existing = await claimKey(employee, key, route, requestHash);
+    if (existing) {
+        if (existing.route !== route || existing.requestHash !== requestHash) {
+            throw new ApiError(422, 'This Idempotency-Key was already used for a different request. Use a new key for a new request.', {
+                code: ErrorCode.IDEMPOTENCY_KEY_REUSED
+            });
+        }
+        if (existing.status === IdempotencyKeyStatus.IN_PROGRESS) {
+            throw new ApiError(409, 'A request with this Idempotency-Key is still being processed. Retry later.', {
+                code: ErrorCode.IDEMPOTENCY_KEY_IN_USE
+            });
+        }
+        res.set('Idempotent-Replayed', 'true');
+        res.status(existing.responseStatus!).json(existing.responseBody);
+        return;
+    }
+
+    // Store the response before it is sent, so a retry arriving right after it finds it
+    const send = res.json.bind(res);
+    res.json = (body: unknown) => {
+        const definitive = res.statusCode < 500 && !RETRYABLE_STATUSES.includes(res.statusCode);
+        const stored = definitive
+            ? IdempotencyKey.updateOne(
+                { employee, key },
+                { $set: { status: IdempotencyKeyStatus.COMPLETED, responseStatus: res.statusCode, responseBody: JSON.parse(JSON.stringify(body ?? null)) } }
+            )
+            : IdempotencyKey.deleteOne({ employee, key });
+
+        stored
+            .catch((error) => console.error(`Failed to store the response for Idempotency-Key ${key}:`, error))
+            .finally(() => send(body));
+        return res;
+    };
+
+    next();
+});
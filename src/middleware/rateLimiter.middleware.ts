@@ -1,4 +1,16 @@
 import rateLimit from 'express-rate-limit';
+import { ErrorCode } from '@/utils/ApiResponse';
+
+/**
+ * Rate limit response in the same shape as every other error
+ */
+const tooManyRequests = (message: string, retryAfter: string) => ({
+    statusCode: 429,
+    code: ErrorCode.TOO_MANY_REQUESTS,
+    message,
+    errors: [],
+    details: { retryAfter }
+});
 
 /**
  * General API rate limiter
@@ -7,10 +19,7 @@ import rateLimit from 'express-rate-limit';
 export const generalLimiter = rateLimit({
     windowMs: 15 * 60 * 1000, // 15 minutes
     max: 100, // Limit each IP to 100 requests per windowMs
-    message: {
-        error: 'Too many requests from this IP, please try again later.',
-        retryAfter: '15 minutes'
-    },
+    message: tooManyRequests('Too many requests from this IP, please try again later.', '15 minutes'),
     standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
     legacyHeaders: false, // Disable the `X-RateLimit-*` headers
     skip: (req) => {
@@ -26,10 +35,7 @@ export const generalLimiter = rateLimit({
 export const strictLimiter = rateLimit({
     windowMs: 15 * 60 * 1000, // 15 minutes
     max: 5, // Limit each IP to 5 requests per windowMs
-    message: {
-        error: 'Too many attempts from this IP, please try again later.',
-        retryAfter: '15 minutes'
-    },
+    message: tooManyRequests('Too many attempts from this IP, please try again later.', '15 minutes'),
     standardHeaders: true,
     legacyHeaders: false,
     // skipSuccessfulRequests: true, // Removed - we want to count all requests including successful ones
@@ -42,10 +48,7 @@ export const strictLimiter = rateLimit({
 export const leaveLimiter = rateLimit({
     windowMs: 60 * 60 * 1000, // 1 hour
     max: 10, // Limit each IP to 10 leave applications per hour
-    message: {
-        error: 'Too many leave requests from this IP, please try again later.',
-        retryAfter: '1 hour'
-    },
+    message: tooManyRequests('Too many leave requests from this IP, please try again later.', '1 hour'),
     standardHeaders: true,
     legacyHeaders: false,
 });
@@ -57,10 +60,7 @@ export const leaveLimiter = rateLimit({
 export const readLimiter = rateLimit({
     windowMs: 15 * 60 * 1000, // 15 minutes
     max: 200, // Limit each IP to 200 requests per windowMs
-    message: {
-        error: 'Too many read requests from this IP, please try again later.',
-        retryAfter: '15 minutes'
-    },
+    message: tooManyRequests('Too many read requests from this IP, please try again later.', '15 minutes'),
     standardHeaders: true,
     legacyHeaders: false,
 });
@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { ALLOWED_ATTACHMENT_TYPES, getAttachmentMaxSizeBytes } from '@/config/storage';
+import { ApiError } from '@/utils/ApiResponse';
+
+/**
+ * Reads a single `file` field of a multipart request into memory (`req.file`), refusing files over
+ * ATTACHMENT_MAX_SIZE_MB with a 413 and types other than PDF, JPEG and PNG with a 400.
+ */
+export const uploadAttachment = (req: Request, res: Response, next: NextFunction) => {
+    const maxSize = getAttachmentMaxSizeBytes();
+    const upload = multer({
+        storage: multer.memoryStorage(),
+        limits: { fileSize: maxSize, files: 1 },
+        fileFilter: (req, file, callback) => {
+            if (!ALLOWED_ATTACHMENT_TYPES.includes(file.mimetype)) {
+                return callback(new ApiError(400, `Unsupported file type ${file.mimetype}. Allowed types: ${ALLOWED_ATTACHMENT_TYPES.join(', ')}`));
+            }
+            callback(null, true);
+        }
+    }).single('file');
+
+    upload(req, res, (error: unknown) => {
+        if (error instanceof multer.MulterError) {
+            if (error.code === 'LIMIT_FILE_SIZE') {
+                return next(new ApiError(413, `The file is too large. The maximum size is ${Math.round(maxSize / 1024 / 1024 * 10) / 10} MB.`));
+            }
+            return next(new ApiError(400, `Invalid upload: ${error.message}. Send one file in the "file" field.`));
+        }
+        next(error);
+    });
+};
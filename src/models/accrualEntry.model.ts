@@ -0,0 +1,63 @@
+import { Document, model, Schema, Types } from "mongoose";
+import { BALANCE_LEAVE_TYPES, BalanceLeaveType } from "./leave.model";
+
+export enum AccrualEntryKind {
+    CREDIT = "CREDIT",
+    YEAR_END = "YEAR_END"
+}
+
+export interface IAccrualEntry extends Document<Types.ObjectId> {
+    employee: Types.ObjectId;
+    policy: Types.ObjectId;
+    leaveType: BalanceLeaveType;
+    kind: AccrualEntryKind;
+    period: string;
+    days: number;
+    carriedForward?: number;
+    lapsed?: number;
+}
+
+const AccrualEntrySchema = new Schema<IAccrualEntry>(
+    {
+        employee: {
+            type: Schema.Types.ObjectId,
+            ref: "Employee",
+            required: true
+        },
+        policy: {
+            type: Schema.Types.ObjectId,
+            ref: "AccrualPolicy",
+            required: true
+        },
+        leaveType: {
+            type: String,
+            enum: BALANCE_LEAVE_TYPES,
+            required: true
+        },
+        kind: {
+            type: String,
+            enum: Object.values(AccrualEntryKind),
+            required: true
+        },
+        // "YYYY-MM" for monthly credits, "YYYY" for yearly credits and year-end rollovers
+        period: {
+            type: String,
+            required: true
+        },
+        // Change applied to the balance (negative when days lapsed)
+        days: {
+            type: Number,
+            required: true
+        },
+        carriedForward: Number,
+        lapsed: Number
+    },
+    {
+        timestamps: true,
+    }
+)
+
+// Makes accrual runs idempotent: an employee is credited or rolled over at most once per period
+AccrualEntrySchema.index({ employee: 1, leaveType: 1, kind: 1, period: 1 }, { unique: true });
+
+export default model<IAccrualEntry>("AccrualEntry", AccrualEntrySchema);
@@ -0,0 +1,65 @@
+import { Document, model, Schema, Types } from "mongoose";
+import { BALANCE_LEAVE_TYPES, BalanceLeaveType } from "./leave.model";
+
+export enum AccrualFrequency {
+    MONTHLY = "MONTHLY",
+    YEARLY = "YEARLY"
+}
+
+export interface IAccrualPolicy extends Document<Types.ObjectId> {
+    organization: Types.ObjectId;
+    leaveType: BalanceLeaveType;
+    frequency: AccrualFrequency;
+    annualAllowance: number;
+    carryForwardCap: number;
+    prorateOnJoining: boolean;
+    active: boolean;
+}
+
+const AccrualPolicySchema = new Schema<IAccrualPolicy>(
+    {
+        organization: {
+            type: Schema.Types.ObjectId,
+            ref: "Organization",
+            required: true
+        },
+        leaveType: {
+            type: String,
+            enum: BALANCE_LEAVE_TYPES,
+            required: [true, "Leave type is required"]
+        },
+        frequency: {
+            type: String,
+            enum: Object.values(AccrualFrequency),
+            required: [true, "Accrual frequency is required"]
+        },
+        // Days earned over a full year; monthly policies credit a twelfth of it each month
+        annualAllowance: {
+            type: Number,
+            required: [true, "Annual allowance is required"],
+            min: [0, "The annual allowance can't be negative"]
+        },
+        // Unused days kept at year end; anything above the cap lapses
+        carryForwardCap: {
+            type: Number,
+            default: 0,
+            min: [0, "The carry forward cap can't be negative"]
+        },
+        prorateOnJoining: {
+            type: Boolean,
+            default: true
+        },
+        active: {
+            type: Boolean,
+            default: true
+        }
+    },
+    {
+        timestamps: true,
+    }
+)
+
+// One policy per leave type of an organization
+AccrualPolicySchema.index({ organization: 1, leaveType: 1 }, { unique: true });
+
+export default model<IAccrualPolicy>("AccrualPolicy", AccrualPolicySchema);
@@ -0,0 +1,91 @@
+import { Document, model, Schema, Types } from "mongoose";
+
+export enum AuditEntityType {
+    LEAVE = "Leave",
+    EMPLOYEE = "Employee"
+}
+
+export enum AuditAction {
+    CREATED = "CREATED",
+    STATUS_CHANGED = "STATUS_CHANGED",
+    STEP_APPROVED = "STEP_APPROVED",
+    UPDATED = "UPDATED",
+    DEACTIVATED = "DEACTIVATED",
+    REACTIVATED = "REACTIVATED"
+}
+
+// Longest comment an entry keeps
+export const MAX_AUDIT_COMMENT_LENGTH = 500;
+
+export interface IFieldChange {
+    field: string;
+    from?: unknown;
+    to?: unknown;
+}
+
+export interface IAuditLog extends Document<Types.ObjectId> {
+    entityType: AuditEntityType;
+    entityId: Types.ObjectId;
+    action: AuditAction;
+    // Missing for changes made by the system (e.g. accrual runs)
+    actor?: Types.ObjectId;
+    fromStatus?: string;
+    toStatus?: string;
+    comment?: string;
+    changes: IFieldChange[];
+    createdAt: Date;
+}
+
+const AuditLogSchema = new Schema<IAuditLog>(
+    {
+        entityType: {
+            type: String,
+            enum: Object.values(AuditEntityType),
+            required: true
+        },
+        entityId: {
+            type: Schema.Types.ObjectId,
+            required: true
+        },
+        action: {
+            type: String,
+            enum: Object.values(AuditAction),
+            required: true
+        },
+        actor: {
+            type: Schema.Types.ObjectId,
+            ref: "Employee"
+        },
+        fromStatus: String,
+        toStatus: String,
+        comment: {
+            type: String,
+            maxlength: [MAX_AUDIT_COMMENT_LENGTH, "The comment is exceeding the length"]
+        },
+        changes: [{
+            field: { type: String, required: true },
+            from: Schema.Types.Mixed,
+            to: Schema.Types.Mixed,
+            _id: false
+        }]
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+)
+
+AuditLogSchema.index({ entityType: 1, entityId: 1, createdAt: 1 });
+
+// The audit trail is append-only: block every update and delete path
+const rejectChange = () => {
+    throw new Error("Audit log entries are append-only and cannot be modified or deleted");
+};
+AuditLogSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'], rejectChange);
+AuditLogSchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], rejectChange);
+AuditLogSchema.pre('save', function () {
+    if (!this.isNew) {
+        rejectChange();
+    }
+});
+
+export default model<IAuditLog>("AuditLog", AuditLogSchema);
@@ -0,0 +1,55 @@
+import { Document, model, Schema, Types } from "mongoose";
+
+export enum CalendarFeedScope {
+    PERSONAL = "PERSONAL",
+    DEPARTMENT = "DEPARTMENT"
+}
+
+export interface ICalendarFeed extends Document<Types.ObjectId> {
+    owner: Types.ObjectId;
+    scope: CalendarFeedScope;
+    department?: string;
+    // SHA-256 of the secret token; the token itself is only shown once, when the feed is created
+    tokenHash: string;
+    revokedAt?: Date;
+    lastAccessedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const CalendarFeedSchema = new Schema<ICalendarFeed>(
+    {
+        owner: {
+            type: Schema.Types.ObjectId,
+            ref: "Employee",
+            required: true
+        },
+        scope: {
+            type: String,
+            enum: Object.values(CalendarFeedScope),
+            required: true
+        },
+        department: {
+            type: String,
+            required: [
+                function (this: ICalendarFeed) { return this.scope === CalendarFeedScope.DEPARTMENT; },
+                "Department is required for a department feed"
+            ]
+        },
+        tokenHash: {
+            type: String,
+            required: true,
+            unique: true,
+            select: false
+        },
+        revokedAt: Date,
+        lastAccessedAt: Date
+    },
+    {
+        timestamps: true,
+    }
+)
+
+CalendarFeedSchema.index({ owner: 1 });
+
+export default model<ICalendarFeed>("CalendarFeed", CalendarFeedSchema);
@@ -0,0 +1,129 @@
+import { Document, model, Schema, Types } from "mongoose";
+import { ApprovalLevel } from "./leave.model";
+
+export enum CompOffStatus {
+    PENDING = "Pending",
+    APPROVED = "Approved",
+    REJECTED = "Rejected",
+    WITHDRAWN = "Withdrawn"
+}
+
+// Claims that stop another claim for the same day
+export const ACTIVE_COMP_OFF_STATUSES = [CompOffStatus.PENDING, CompOffStatus.APPROVED];
+
+export interface ICompOff extends Document<Types.ObjectId> {
+    organization: Types.ObjectId;
+    employee: Types.ObjectId;
+    // The weekend day or holiday that was worked
+    workedOn: Date;
+    hours: number;
+    reason: string;
+    // COMP_OFF days credited on approval, worked out from the hours
+    days: number;
+    // Who decides: the reporting manager when the claim was made, or HR if there was none
+    approverLevel: ApprovalLevel;
+    approver?: Types.ObjectId;
+    status: CompOffStatus;
+    decidedBy?: Types.ObjectId;
+    // Set when decidedBy stood in for the approver through a delegation
+    onBehalfOf?: Types.ObjectId;
+    decidedAt?: Date;
+    comment?: string;
+    // From this day on, whatever is left of the credit lapses
+    expiresOn: Date;
+    expiredAt?: Date;
+    // Part of the credit that was still unused when it expired
+    expiredDays?: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const CompOffSchema = new Schema<ICompOff>(
+    {
+        organization: {
+            type: Schema.Types.ObjectId,
+            ref: "Organization",
+            required: true
+        },
+        employee: {
+            type: Schema.Types.ObjectId,
+            ref: "Employee",
+            required: true
+        },
+        workedOn: {
+            type: Date,
+            required: [true, "The day worked is required"]
+        },
+        hours: {
+            type: Number,
+            required: [true, "Hours worked are required"],
+            min: [0.5, "At least half an hour must be claimed"],
+            max: [24, "A day has at most 24 hours"]
+        },
+        reason: {
+            type: String,
+            required: [true, "A justification is required"],
+            trim: true,
+            maxlength: [300, "The reason is exceeding the length"]
+        },
+        days: {
+            type: Number,
+            required: true,
+            min: [0.5, "A comp-off credit is at least half a day"]
+        },
+        approverLevel: {
+            type: String,
+            enum: Object.values(ApprovalLevel),
+            required: true
+        },
+        approver: {
+            type: Schema.Types.ObjectId,
+            ref: "Employee"
+        },
+        status: {
+            type: String,
+            enum: Object.values(CompOffStatus),
+            default: CompOffStatus.PENDING
+        },
+        decidedBy: {
+            type: Schema.Types.ObjectId,
+            ref: "Employee"
+        },
+        onBehalfOf: {
+            type: Schema.Types.ObjectId,
+            ref: "Employee"
+        },
+        decidedAt: Date,
+        comment: {
+            type: String,
+            maxlength: [500, "The comment is exceeding the length"]
+        },
+        expiresOn: {
+            type: Date,
+            required: true
+        },
+        expiredAt: Date,
+        expiredDays: {
+            type: Number,
+            min: 0
+        }
+    },
+    {
+        timestamps: true,
+        // Deciding a claim that someone else changed in the meantime fails instead of overwriting it
+        optimisticConcurrency: true,
+    }
+)
+
+CompOffSchema.pre('validate', function () {
+    if (this.approverLevel === ApprovalLevel.MANAGER && !this.approver) {
+        this.invalidate('approver', 'A manager-approved claim needs an approver');
+    }
+});
+
+// One employee's claims by day, the claims waiting on an approver, and the credit due to expire
+CompOffSchema.index({ employee: 1, workedOn: -1 });
+CompOffSchema.index({ organization: 1, status: 1, approver: 1 });
+CompOffSchema.index({ status: 1, expiresOn: 1, expiredAt: 1 });
+
+export default model<ICompOff>("CompOff", CompOffSchema);
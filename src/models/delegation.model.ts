@@ -0,0 +1,99 @@
+import { Document, model, Schema, Types } from "mongoose";
+
+export enum DelegationSource {
+    // Set up by the approver (or HR/an admin for them)
+    MANUAL = "MANUAL",
+    // Created when the approver's own leave was approved
+    LEAVE = "LEAVE"
+}
+
+export interface IDelegation extends Document<Types.ObjectId> {
+    organization: Types.ObjectId;
+    // The approver whose approval rights are handed over
+    delegator: Types.ObjectId;
+    // Who may decide in their place
+    delegate: Types.ObjectId;
+    // First and last day (inclusive) the delegation is in effect
+    startDate: Date;
+    endDate: Date;
+    reason?: string;
+    source: DelegationSource;
+    // The delegator's leave, for delegations created from it
+    leave?: Types.ObjectId;
+    // Missing for delegations created by the system
+    createdBy?: Types.ObjectId;
+    revokedAt?: Date;
+    revokedBy?: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const DelegationSchema = new Schema<IDelegation>(
+    {
+        organization: {
+            type: Schema.Types.ObjectId,
+            ref: "Organization",
+            required: true
+        },
+        delegator: {
+            type: Schema.Types.ObjectId,
+            ref: "Employee",
+            required: [true, "Delegator is required"]
+        },
+        delegate: {
+            type: Schema.Types.ObjectId,
+            ref: "Employee",
+            required: [true, "Delegate is required"]
+        },
+        startDate: {
+            type: Date,
+            required: [true, "Start date is required"]
+        },
+        endDate: {
+            type: Date,
+            required: [true, "End date is required"]
+        },
+        reason: {
+            type: String,
+            trim: true,
+            maxlength: [300, "The reason is exceeding the length"]
+        },
+        source: {
+            type: String,
+            enum: Object.values(DelegationSource),
+            default: DelegationSource.MANUAL
+        },
+        leave: {
+            type: Schema.Types.ObjectId,
+            ref: "Leave"
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: "Employee"
+        },
+        revokedAt: Date,
+        revokedBy: {
+            type: Schema.Types.ObjectId,
+            ref: "Employee"
+        }
+    },
+    {
+        timestamps: true,
+    }
+)
+
+DelegationSchema.pre('validate', function () {
+    if (this.startDate && this.endDate && this.startDate > this.endDate) {
+        this.invalidate('endDate', 'A delegation cannot end before it starts');
+    }
+    if (this.delegator && this.delegate && this.delegator.equals(this.delegate)) {
+        this.invalidate('delegate', 'An approver cannot delegate to themselves');
+    }
+});
+
+// Delegations a user currently holds, and those given by an approver
+DelegationSchema.index({ delegate: 1, startDate: 1, endDate: 1 });
+DelegationSchema.index({ delegator: 1, startDate: 1, endDate: 1 });
+DelegationSchema.index({ leave: 1 });
+
+export default model<IDelegation>("Delegation", DelegationSchema);
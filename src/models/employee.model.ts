@@ -1,5 +1,8 @@
-import { Document, Schema, model } from "mongoose";
+import { Document, Schema, Types, model } from "mongoose";
+import bcrypt from "bcrypt";
+import { BALANCE_LEAVE_TYPES, BalanceLeaveType } from "./leave.model";
 
+// Departments a new organization starts with; each organization can change its list in its settings
 export enum Department {
     SDE_I = "SDE-I",
     SDE_II = "SDE-II",
@@ -9,16 +12,63 @@ export enum Department {
     TESTING = "TESTING",
     HR = "HR"
 }
-export interface IEmployee extends Document {
+
+export enum Role {
+    EMPLOYEE = "EMPLOYEE",
+    MANAGER = "MANAGER",
+    HR = "HR",
+    ADMIN = "ADMIN"
+}
+
+export type LeaveBalances = Record<BalanceLeaveType, number>;
+
+// Balance a new organization gives its employees for each leave type unless its settings say otherwise
+export const DEFAULT_LEAVE_BALANCES: LeaveBalances = {
+    CASUAL: 12,
+    SICK: 12,
+    EARNED: 16,
+    PARENTAL: 90,
+    // Only earned by working on a weekend or holiday
+    COMP_OFF: 0
+};
+
+export interface IEmployee extends Document<Types.ObjectId> {
+    organization: Types.ObjectId;
     fullName: string;
     email: string;
-    department: Department;
+    password?: string;
+    role: Role;
+    // One of the organization's settings.departments
+    department: string;
+    location?: string;
+    reportingManager?: Types.ObjectId;
     joiningDate: Date;
-    leaveAvailability: number;
+    leaveBalances: LeaveBalances;
+    isActive: boolean;
+    deactivatedAt?: Date;
+    emailNotifications: boolean;
+    comparePassword(candidate: string): Promise<boolean>;
 }
 
+const PASSWORD_SALT_ROUNDS = 10;
+
+const LeaveBalancesSchema = new Schema<LeaveBalances>(
+    Object.fromEntries(BALANCE_LEAVE_TYPES.map((type) => [type, {
+        type: Number,
+        default: DEFAULT_LEAVE_BALANCES[type],
+        min: [0, `The ${type} leave balance can't be negative`]
+    }])),
+    { _id: false }
+);
+
 const EmployeeSchema = new Schema<IEmployee>(
     {
+        organization: {
+            type: Schema.Types.ObjectId,
+            ref: "Organization",
+            required: true,
+            index: true
+        },
         fullName: {
             type: String,
             required: true,
@@ -32,24 +82,55 @@ const EmployeeSchema = new Schema<IEmployee>(
             required: true,
             trim: true,
             lowercase: true,
-            unique: true,
             minlength: [5, 'Email must be at least 5 characters long'],
             maxlength: [254, 'Email cannot exceed 254 characters'],
             match: [/^\S+@\S+\.\S+$/, 'Invalid email format']
         },
+        password: {
+            type: String,
+            minlength: [8, 'Password must be at least 8 characters long'],
+            select: false
+        },
+        role: {
+            type: String,
+            enum: Object.values(Role),
+            default: Role.EMPLOYEE
+        },
         department: {
             type: String,
             required: [true,"Department is required"],
-            enum: Object.values(Department),
             trim: true
         },
+        location: {
+            type: String,
+            trim: true,
+            maxlength: [100, "The location can't exceed 100 characters"]
+        },
+        // First approver of this employee's leave requests
+        reportingManager: {
+            type: Schema.Types.ObjectId,
+            ref: "Employee"
+        },
         joiningDate: {
             type: Date,
             required: [true,"Joining Date is required"]
         },
-        leaveAvailability: {
-            type: Number,
-            default: 40
+        leaveBalances: {
+            type: LeaveBalancesSchema,
+            default: () => ({})
+        },
+        // Deactivated employees have left the company; they can't log in or apply for leave
+        isActive: {
+            type: Boolean,
+            default: true
+        },
+        deactivatedAt: {
+            type: Date
+        },
+        // Employees can opt out of leave notification emails
+        emailNotifications: {
+            type: Boolean,
+            default: true
         }
     },
     {
@@ -57,6 +138,26 @@ const EmployeeSchema = new Schema<IEmployee>(
     }
 )
 
+// An email can only be used once within an organization
+EmployeeSchema.index({ organization: 1, email: 1 }, { unique: true });
+
+export const hashPassword = (password: string) => bcrypt.hash(password, PASSWORD_SALT_ROUNDS);
+
+// Hash the password whenever it is set or changed
+EmployeeSchema.pre('save', async function () {
+    if (!this.isModified('password') || !this.password) {
+        return;
+    }
+    this.password = await hashPassword(this.password);
+});
+
+EmployeeSchema.methods.comparePassword = async function (candidate: string): Promise<boolean> {
+    if (!this.password) {
+        return false;
+    }
+    return bcrypt.compare(candidate, this.password);
+};
+
 const EmployeeModel = model<IEmployee>('Employee',EmployeeSchema);
 
-export default EmployeeModel;
\ No newline at end of file
+export default EmployeeModel;
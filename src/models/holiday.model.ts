@@ -0,0 +1,47 @@
+import { Document, model, Schema, Types } from "mongoose";
+
+export interface IHoliday extends Document {
+    organization: Types.ObjectId;
+    name: string;
+    date: Date;
+    department?: string;
+    location?: string;
+}
+
+const HolidaySchema = new Schema<IHoliday>(
+    {
+        organization: {
+            type: Schema.Types.ObjectId,
+            ref: "Organization",
+            required: true
+        },
+        name: {
+            type: String,
+            required: [true, "Holiday name is required"],
+            trim: true,
+            maxlength: [100, "The holiday name can't exceed 100 characters"]
+        },
+        date: {
+            type: Date,
+            required: [true, "Holiday date is required"]
+        },
+        // Leave both scopes empty for a company-wide holiday
+        department: {
+            type: String,
+            trim: true
+        },
+        location: {
+            type: String,
+            trim: true,
+            maxlength: [100, "The location can't exceed 100 characters"]
+        }
+    },
+    {
+        timestamps: true,
+    }
+)
+
+// One holiday per date and scope within an organization
+HolidaySchema.index({ organization: 1, date: 1, department: 1, location: 1 }, { unique: true });
+
+export default model<IHoliday>("Holiday", HolidaySchema);
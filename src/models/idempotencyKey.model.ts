@@ -0,0 +1,67 @@
+import { Document, model, Schema, Types } from "mongoose";
+
+export enum IdempotencyKeyStatus {
+    // The first request with the key is still running
+    IN_PROGRESS = "IN_PROGRESS",
+    COMPLETED = "COMPLETED"
+}
+
+export interface IIdempotencyKey extends Document<Types.ObjectId> {
+    // Keys are chosen by the client, so they are only unique per employee
+    employee: Types.ObjectId;
+    key: string;
+    // "METHOD /path" of the first request
+    route: string;
+    // SHA-256 of the first request's body, to refuse the key for a different request
+    requestHash: string;
+    status: IdempotencyKeyStatus;
+    responseStatus?: number;
+    responseBody?: unknown;
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const IdempotencyKeySchema = new Schema<IIdempotencyKey>(
+    {
+        employee: {
+            type: Schema.Types.ObjectId,
+            ref: "Employee",
+            required: true
+        },
+        key: {
+            type: String,
+            required: true,
+            maxlength: 255
+        },
+        route: {
+            type: String,
+            required: true
+        },
+        requestHash: {
+            type: String,
+            required: true
+        },
+        status: {
+            type: String,
+            enum: Object.values(IdempotencyKeyStatus),
+            default: IdempotencyKeyStatus.IN_PROGRESS
+        },
+        responseStatus: Number,
+        responseBody: Schema.Types.Mixed,
+        expiresAt: {
+            type: Date,
+            required: true
+        }
+    },
+    {
+        timestamps: true,
+    }
+)
+
+// Two retries racing each other can't both create the key
+IdempotencyKeySchema.index({ employee: 1, key: 1 }, { unique: true });
+// MongoDB deletes the keys once they expire
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default model<IIdempotencyKey>("IdempotencyKey", IdempotencyKeySchema);
@@ -1,26 +1,233 @@
 import { Document, model, Schema, Types } from "mongoose";
 
 export enum LeaveStatus {
+    PENDING = "Pending",
+    APPROVED = "Approved",
+    REJECTED = "Rejected",
+    WITHDRAWN = "Withdrawn",
+    CANCELLATION_REQUESTED = "Cancellation Requested",
+    CANCELLED = "Cancelled"
+}
+
+// Statuses in which a leave still blocks the employee's calendar
+export const ACTIVE_LEAVE_STATUSES = [
+    LeaveStatus.PENDING,
+    LeaveStatus.APPROVED,
+    LeaveStatus.CANCELLATION_REQUESTED
+];
+
+export enum CancellationDecision {
+    APPROVED = "Approved",
+    REJECTED = "Rejected"
+}
+
+export enum LeaveType {
+    CASUAL = "CASUAL",
+    SICK = "SICK",
+    EARNED = "EARNED",
+    UNPAID = "UNPAID",
+    PARENTAL = "PARENTAL",
+    // Drawn from days credited for approved comp-off claims
+    COMP_OFF = "COMP_OFF"
+}
+
+// Part of the day covered on the first/last day of a leave
+export enum DaySession {
+    FULL_DAY = "FULL_DAY",
+    FIRST_HALF = "FIRST_HALF",
+    SECOND_HALF = "SECOND_HALF"
+}
+
+// Leave types that are drawn from a balance. Unpaid leave is never limited by balance.
+export type BalanceLeaveType = Exclude<LeaveType, LeaveType.UNPAID>;
+
+export const BALANCE_LEAVE_TYPES = Object.values(LeaveType).filter(
+    (type): type is BalanceLeaveType => type !== LeaveType.UNPAID
+);
+
+export const isBalanceLeaveType = (type: LeaveType): type is BalanceLeaveType => type !== LeaveType.UNPAID;
+
+export interface ILeaveDuration {
+    calendarDays: number,
+    weekendDays: number,
+    holidayDays: number,
+    chargedDays: number,
+    holidays: { date: Date, name: string }[]
+}
+
+// Who has to sign off on a step of the approval chain
+export enum ApprovalLevel {
+    MANAGER = "MANAGER",
+    HR = "HR"
+}
+
+export enum ApprovalStepStatus {
     PENDING = "Pending",
     APPROVED = "Approved",
     REJECTED = "Rejected"
 }
 
-export interface ILeave extends Document {
-    employeId: Schema.Types.ObjectId,
+export interface IApprovalStep {
+    level: ApprovalLevel,
+    // Set for MANAGER steps: the employee's reporting manager when the leave was filed
+    approver?: Types.ObjectId,
+    status: ApprovalStepStatus,
+    decidedBy?: Types.ObjectId,
+    // Set when decidedBy stood in for the step's approver through a delegation
+    onBehalfOf?: Types.ObjectId,
+    decidedAt?: Date,
+    comment?: string
+}
+
+export interface ICancellationRequest {
+    reason: string,
+    requestedAt: Date,
+    // Set when only the tail of the leave is cancelled (leave cut short)
+    newEndDate?: Date,
+    newEndSession?: DaySession,
+    decision?: CancellationDecision,
+    decidedBy?: Types.ObjectId,
+    decidedAt?: Date
+}
+
+// A working day on which the leave would break the department's staffing rule
+export interface IStaffingWarning {
+    date: Date,
+    headcount: number,
+    // People off that day including this leave; half days count 0.5
+    absent: number,
+    message: string
+}
+
+// A supporting document (e.g. a medical certificate) uploaded for a leave
+export interface IAttachment {
+    _id: Types.ObjectId,
+    fileName: string,
+    mimeType: string,
+    size: number,
+    // Where the file is kept in the configured file storage; never sent to clients
+    storageKey: string,
+    uploadedBy: Types.ObjectId,
+    uploadedAt: Date
+}
+
+export interface ILeave extends Document<Types.ObjectId> {
+    organization: Types.ObjectId,
+    employeId: Types.ObjectId,
+    leaveType: LeaveType,
     reason: string,
     startDate: Date,
     endDate: Date,
-    status: LeaveStatus
+    startSession: DaySession,
+    endSession: DaySession,
+    duration: ILeaveDuration,
+    deductedDays?: number,
+    cancellationRequest?: ICancellationRequest,
+    approvalSteps: IApprovalStep[],
+    currentStep: number,
+    pendingLevel?: ApprovalLevel,
+    pendingApprover?: Types.ObjectId,
+    staffingWarnings: IStaffingWarning[],
+    attachments: Types.DocumentArray<IAttachment>,
+    documentRequired: boolean,
+    status: LeaveStatus,
+    createdAt: Date,
+    updatedAt: Date
 }
 
+const LeaveDurationSchema = new Schema<ILeaveDuration>(
+    {
+        calendarDays: { type: Number, required: true },
+        weekendDays: { type: Number, required: true },
+        holidayDays: { type: Number, required: true },
+        // Working days actually deducted from the balance, in steps of half a day
+        chargedDays: { type: Number, required: true },
+        holidays: [{ date: Date, name: String, _id: false }]
+    },
+    { _id: false }
+);
+
+const StaffingWarningSchema = new Schema<IStaffingWarning>(
+    {
+        date: { type: Date, required: true },
+        headcount: { type: Number, required: true },
+        absent: { type: Number, required: true },
+        message: { type: String, required: true }
+    },
+    { _id: false }
+);
+
+const AttachmentSchema = new Schema<IAttachment>(
+    {
+        fileName: {
+            type: String,
+            required: true,
+            maxlength: [255, "The file name is exceeding the length"]
+        },
+        mimeType: { type: String, required: true },
+        size: { type: Number, required: true, min: 0 },
+        storageKey: { type: String, required: true },
+        uploadedBy: { type: Schema.Types.ObjectId, ref: "Employee", required: true },
+        uploadedAt: { type: Date, required: true }
+    },
+    {
+        // Files are only served through the download endpoint, so the storage location stays internal
+        toJSON: {
+            transform: (doc, ret: Partial<IAttachment>) => {
+                delete ret.storageKey;
+                return ret;
+            }
+        }
+    }
+);
+
+const ApprovalStepSchema = new Schema<IApprovalStep>(
+    {
+        level: { type: String, enum: Object.values(ApprovalLevel), required: true },
+        approver: { type: Schema.Types.ObjectId, ref: "Employee" },
+        status: { type: String, enum: Object.values(ApprovalStepStatus), default: ApprovalStepStatus.PENDING },
+        decidedBy: { type: Schema.Types.ObjectId, ref: "Employee" },
+        onBehalfOf: { type: Schema.Types.ObjectId, ref: "Employee" },
+        decidedAt: Date,
+        comment: { type: String, maxlength: [500, "The comment is exceeding the length"] }
+    },
+    { _id: false }
+);
+
+const CancellationRequestSchema = new Schema<ICancellationRequest>(
+    {
+        reason: {
+            type: String,
+            required: true,
+            maxlength: [300, "The cancellation reason is exceeding the length"]
+        },
+        requestedAt: { type: Date, required: true },
+        newEndDate: Date,
+        newEndSession: { type: String, enum: Object.values(DaySession) },
+        decision: { type: String, enum: Object.values(CancellationDecision) },
+        decidedBy: { type: Schema.Types.ObjectId, ref: "Employee" },
+        decidedAt: Date
+    },
+    { _id: false }
+);
+
 const LeaveSchema = new Schema<ILeave>(
     {
+        organization: {
+            type: Schema.Types.ObjectId,
+            ref: "Organization",
+            required: true
+        },
         employeId:{
             type: Schema.Types.ObjectId,
             ref: "Employee",
             required: true
         },
+        leaveType: {
+            type: String,
+            enum: Object.values(LeaveType),
+            required: [true, "Leave type is required"]
+        },
         startDate: {
             type: Date,
             required: true
@@ -29,6 +236,58 @@ const LeaveSchema = new Schema<ILeave>(
             type: Date,
             required: true
         },
+        startSession: {
+            type: String,
+            enum: Object.values(DaySession),
+            default: DaySession.FULL_DAY
+        },
+        endSession: {
+            type: String,
+            enum: Object.values(DaySession),
+            default: DaySession.FULL_DAY
+        },
+        duration: {
+            type: LeaveDurationSchema,
+            required: true
+        },
+        // Days taken from the balance on approval, restored if the leave is cancelled
+        deductedDays: {
+            type: Number,
+            min: 0
+        },
+        cancellationRequest: CancellationRequestSchema,
+        // Steps are decided in order; the leave is only approved once the last step approves
+        approvalSteps: {
+            type: [ApprovalStepSchema],
+            default: []
+        },
+        currentStep: {
+            type: Number,
+            default: 0
+        },
+        // Copy of the current step's level/approver so "pending my approval" can be queried
+        pendingLevel: {
+            type: String,
+            enum: Object.values(ApprovalLevel)
+        },
+        pendingApprover: {
+            type: Schema.Types.ObjectId,
+            ref: "Employee"
+        },
+        // Set when the leave was applied for or approved despite a WARN staffing rule, so approvers see it
+        staffingWarnings: {
+            type: [StaffingWarningSchema],
+            default: []
+        },
+        attachments: {
+            type: [AttachmentSchema],
+            default: []
+        },
+        // Set when a leave policy requires a supporting document; the leave can't be approved until one is attached
+        documentRequired: {
+            type: Boolean,
+            default: false
+        },
         reason:{
             type: String,
             required: true,
@@ -39,7 +298,23 @@ const LeaveSchema = new Schema<ILeave>(
             enum: Object.values(LeaveStatus),
             default: LeaveStatus.PENDING
         }
+    },
+    {
+        timestamps: true,
+        // Saving a leave that someone else changed in the meantime fails instead of overwriting it
+        optimisticConcurrency: true,
     }
 )
 
+LeaveSchema.index({ organization: 1, status: 1, startDate: 1 });
+LeaveSchema.index({ status: 1, pendingApprover: 1 });
+LeaveSchema.index({ status: 1, pendingLevel: 1 });
+// Date range lookups for the team calendar
+LeaveSchema.index({ status: 1, startDate: 1, endDate: 1 });
+// Leave list: one employee's leaves by date, and the sort orders the cursor pagination walks within an organization
+LeaveSchema.index({ employeId: 1, startDate: -1 });
+LeaveSchema.index({ organization: 1, createdAt: -1, _id: -1 });
+LeaveSchema.index({ organization: 1, startDate: -1, _id: -1 });
+LeaveSchema.index({ organization: 1, leaveType: 1, status: 1, createdAt: -1 });
+
 export default model<ILeave>("Leave",LeaveSchema);
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { Document, model, Schema, Types } from "mongoose";
+import { LeaveType } from "./leave.model";
+
+export enum PolicyRule {
+    MIN_NOTICE = "MIN_NOTICE",
+    MAX_CONSECUTIVE_DAYS = "MAX_CONSECUTIVE_DAYS",
+    PROBATION = "PROBATION",
+    BLACKOUT = "BLACKOUT"
+}
+
+export interface IBlackoutPeriod {
+    startDate: Date;
+    endDate: Date;
+    reason: string;
+}
+
+export interface ILeavePolicy extends Document<Types.ObjectId> {
+    organization: Types.ObjectId;
+    name: string;
+    // Unset means the policy applies to every department / leave type
+    department?: string;
+    leaveType?: LeaveType;
+    minNoticeDays?: number;
+    maxConsecutiveDays?: number;
+    probationDays?: number;
+    documentRequiredAfterDays?: number;
+    blackoutPeriods: IBlackoutPeriod[];
+    active: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const BlackoutPeriodSchema = new Schema<IBlackoutPeriod>(
+    {
+        startDate: {
+            type: Date,
+            required: [true, "Blackout start date is required"]
+        },
+        endDate: {
+            type: Date,
+            required: [true, "Blackout end date is required"]
+        },
+        reason: {
+            type: String,
+            required: [true, "Blackout reason is required"],
+            trim: true,
+            maxlength: [200, "The blackout reason can't exceed 200 characters"]
+        }
+    },
+    { _id: false }
+);
+
+const LeavePolicySchema = new Schema<ILeavePolicy>(
+    {
+        organization: {
+            type: Schema.Types.ObjectId,
+            ref: "Organization",
+            required: true
+        },
+        name: {
+            type: String,
+            required: [true, "Name is required"],
+            trim: true,
+            maxlength: [100, "The name can't exceed 100 characters"]
+        },
+        department: {
+            type: String,
+            trim: true
+        },
+        leaveType: {
+            type: String,
+            enum: Object.values(LeaveType)
+        },
+        // Calendar days between the day of the request and the first day of leave
+        minNoticeDays: {
+            type: Number,
+            min: [0, "The minimum notice can't be negative"]
+        },
+        // Longest single leave, in calendar days from start to end
+        maxConsecutiveDays: {
+            type: Number,
+            min: [1, "The maximum consecutive days must be at least 1"]
+        },
+        // Days after the joining date during which the leave can't be taken
+        probationDays: {
+            type: Number,
+            min: [0, "The probation period can't be negative"]
+        },
+        // Leaves charging more working days than this can't be approved without a supporting document; 0 means always
+        documentRequiredAfterDays: {
+            type: Number,
+            min: [0, "The document threshold can't be negative"]
+        },
+        // Date ranges nobody covered by the policy can take leave in, e.g. release freezes
+        blackoutPeriods: {
+            type: [BlackoutPeriodSchema],
+            default: []
+        },
+        active: {
+            type: Boolean,
+            default: true
+        }
+    },
+    {
+        timestamps: true,
+    }
+)
+
+LeavePolicySchema.pre('validate', function () {
+    this.blackoutPeriods.forEach((period, index) => {
+        if (period.startDate && period.endDate && period.startDate > period.endDate) {
+            this.invalidate(`blackoutPeriods.${index}.endDate`, 'A blackout period cannot end before it starts');
+        }
+    });
+});
+
+LeavePolicySchema.index({ organization: 1, active: 1, department: 1, leaveType: 1 });
+
+export default model<ILeavePolicy>("LeavePolicy", LeavePolicySchema);
@@ -0,0 +1,97 @@
+import { Document, model, Schema, Types } from "mongoose";
+import { BALANCE_LEAVE_TYPES, BalanceLeaveType } from "./leave.model";
+
+export enum LedgerEntryKind {
+    OPENING_BALANCE = "OPENING_BALANCE",
+    ACCRUAL = "ACCRUAL",
+    DEDUCTION = "DEDUCTION",
+    RESTORATION = "RESTORATION",
+    ADJUSTMENT = "ADJUSTMENT",
+    LAPSE = "LAPSE",
+    COMP_OFF_CREDIT = "COMP_OFF_CREDIT"
+}
+
+export interface ILedgerEntry extends Document<Types.ObjectId> {
+    employee: Types.ObjectId;
+    leaveType: BalanceLeaveType;
+    kind: LedgerEntryKind;
+    days: number;
+    balanceAfter: number;
+    // The cause of the change, when there is one
+    leave?: Types.ObjectId;
+    accrualEntry?: Types.ObjectId;
+    compOff?: Types.ObjectId;
+    // Missing for changes made by the system (e.g. accrual runs)
+    actor?: Types.ObjectId;
+    note?: string;
+    createdAt: Date;
+}
+
+const LedgerEntrySchema = new Schema<ILedgerEntry>(
+    {
+        employee: {
+            type: Schema.Types.ObjectId,
+            ref: "Employee",
+            required: true
+        },
+        leaveType: {
+            type: String,
+            enum: BALANCE_LEAVE_TYPES,
+            required: true
+        },
+        kind: {
+            type: String,
+            enum: Object.values(LedgerEntryKind),
+            required: true
+        },
+        // Signed change applied to the balance (the full balance for an opening entry)
+        days: {
+            type: Number,
+            required: true
+        },
+        balanceAfter: {
+            type: Number,
+            required: true
+        },
+        leave: {
+            type: Schema.Types.ObjectId,
+            ref: "Leave"
+        },
+        accrualEntry: {
+            type: Schema.Types.ObjectId,
+            ref: "AccrualEntry"
+        },
+        compOff: {
+            type: Schema.Types.ObjectId,
+            ref: "CompOff"
+        },
+        actor: {
+            type: Schema.Types.ObjectId,
+            ref: "Employee"
+        },
+        note: {
+            type: String,
+            maxlength: [300, "The note is exceeding the length"]
+        }
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+)
+
+LedgerEntrySchema.index({ employee: 1, leaveType: 1, createdAt: 1 });
+LedgerEntrySchema.index({ leave: 1 });
+
+// The ledger is append-only: corrections are new ADJUSTMENT entries
+const rejectChange = () => {
+    throw new Error("Ledger entries are append-only and cannot be modified or deleted");
+};
+LedgerEntrySchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'], rejectChange);
+LedgerEntrySchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], rejectChange);
+LedgerEntrySchema.pre('save', function () {
+    if (!this.isNew) {
+        rejectChange();
+    }
+});
+
+export default model<ILedgerEntry>("LedgerEntry", LedgerEntrySchema);
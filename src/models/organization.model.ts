@@ -0,0 +1,94 @@
+import { Document, model, Schema, Types } from "mongoose";
+import { DEFAULT_LEAVE_BALANCES, Department, LeaveBalances } from "./employee.model";
+import { BALANCE_LEAVE_TYPES } from "./leave.model";
+
+// Slug of the organization that existing data is moved into; its admins manage the other organizations
+export const DEFAULT_ORGANIZATION_SLUG = "default";
+
+export interface IOrganizationSettings {
+    // Departments employees, policies, holidays and staffing rules can be assigned to
+    departments: string[];
+    // Balance every new employee of the organization starts with for each leave type
+    defaultLeaveBalances: LeaveBalances;
+}
+
+export interface IOrganization extends Document<Types.ObjectId> {
+    name: string;
+    slug: string;
+    settings: IOrganizationSettings;
+    // Members of an inactive organization can't log in
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const DefaultLeaveBalancesSchema = new Schema<LeaveBalances>(
+    Object.fromEntries(BALANCE_LEAVE_TYPES.map((type) => [type, {
+        type: Number,
+        default: DEFAULT_LEAVE_BALANCES[type],
+        min: [0, `The default ${type} leave balance can't be negative`]
+    }])),
+    { _id: false }
+);
+
+const OrganizationSettingsSchema = new Schema<IOrganizationSettings>(
+    {
+        departments: {
+            type: [{
+                type: String,
+                trim: true,
+                minlength: [1, "A department name can't be empty"],
+                maxlength: [50, "A department name can't exceed 50 characters"]
+            }],
+            default: () => Object.values(Department)
+        },
+        defaultLeaveBalances: {
+            type: DefaultLeaveBalancesSchema,
+            default: () => ({})
+        }
+    },
+    { _id: false }
+);
+
+const OrganizationSchema = new Schema<IOrganization>(
+    {
+        name: {
+            type: String,
+            required: [true, "Organization name is required"],
+            trim: true,
+            maxlength: [100, "The organization name can't exceed 100 characters"]
+        },
+        // Used to pick the organization at login when an email belongs to several of them
+        slug: {
+            type: String,
+            required: [true, "Organization slug is required"],
+            trim: true,
+            lowercase: true,
+            unique: true,
+            maxlength: [50, "The slug can't exceed 50 characters"],
+            match: [/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "The slug can only contain lowercase letters, digits and single dashes"]
+        },
+        settings: {
+            type: OrganizationSettingsSchema,
+            default: () => ({})
+        },
+        isActive: {
+            type: Boolean,
+            default: true
+        }
+    },
+    {
+        timestamps: true,
+    }
+)
+
+OrganizationSchema.pre('validate', function () {
+    const departments = this.settings?.departments ?? [];
+    if (departments.length === 0) {
+        this.invalidate('settings.departments', 'An organization needs at least one department');
+    } else if (new Set(departments).size !== departments.length) {
+        this.invalidate('settings.departments', 'Department names must be unique');
+    }
+});
+
+export default model<IOrganization>("Organization", OrganizationSchema);
@@ -0,0 +1,73 @@
+import { Document, model, Schema, Types } from "mongoose";
+
+export enum StaffingEnforcement {
+    // Requests that would break the rule are refused
+    BLOCK = "BLOCK",
+    // Requests go through but carry staffing warnings for the approvers
+    WARN = "WARN"
+}
+
+export interface IStaffingRule extends Document<Types.ObjectId> {
+    organization: Types.ObjectId;
+    department: string;
+    maxConcurrentAbsences?: number;
+    minPresentPercent?: number;
+    enforcement: StaffingEnforcement;
+    // Also count other people's pending requests as absences
+    countPending: boolean;
+    active: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const StaffingRuleSchema = new Schema<IStaffingRule>(
+    {
+        organization: {
+            type: Schema.Types.ObjectId,
+            ref: "Organization",
+            required: true
+        },
+        department: {
+            type: String,
+            required: [true, "Department is required"]
+        },
+        // Most people allowed off on the same working day; half days count as 0.5
+        maxConcurrentAbsences: {
+            type: Number,
+            min: [0, "The maximum number of concurrent absences can't be negative"]
+        },
+        // Share of the department that has to be present on every working day
+        minPresentPercent: {
+            type: Number,
+            min: [0, "The minimum percentage present can't be below 0"],
+            max: [100, "The minimum percentage present can't be above 100"]
+        },
+        enforcement: {
+            type: String,
+            enum: Object.values(StaffingEnforcement),
+            default: StaffingEnforcement.WARN
+        },
+        countPending: {
+            type: Boolean,
+            default: false
+        },
+        active: {
+            type: Boolean,
+            default: true
+        }
+    },
+    {
+        timestamps: true,
+    }
+)
+
+// One rule per department of an organization
+StaffingRuleSchema.index({ organization: 1, department: 1 }, { unique: true });
+
+StaffingRuleSchema.pre('validate', function () {
+    if (this.maxConcurrentAbsences == null && this.minPresentPercent == null) {
+        this.invalidate('maxConcurrentAbsences', 'Set maxConcurrentAbsences, minPresentPercent or both');
+    }
+});
+
+export default model<IStaffingRule>("StaffingRule", StaffingRuleSchema);
@@ -0,0 +1,89 @@
+import { Document, model, Schema, Types } from "mongoose";
+import { WebhookEvent } from "./webhookSubscription.model";
+
+export enum WebhookDeliveryStatus {
+    // Waiting for its first attempt or for a retry at nextAttemptAt
+    PENDING = "PENDING",
+    SUCCEEDED = "SUCCEEDED",
+    // Gave up after the maximum number of attempts
+    FAILED = "FAILED"
+}
+
+export interface IWebhookAttempt {
+    attemptedAt: Date;
+    // HTTP status of the response; missing when the request itself failed
+    statusCode?: number;
+    error?: string;
+    durationMs: number;
+}
+
+export interface IWebhookDelivery extends Document<Types.ObjectId> {
+    subscription: Types.ObjectId;
+    event: WebhookEvent;
+    // The exact JSON body sent; the signature is computed over it
+    payload: string;
+    status: WebhookDeliveryStatus;
+    attempts: IWebhookAttempt[];
+    nextAttemptAt?: Date;
+    deliveredAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const WebhookAttemptSchema = new Schema<IWebhookAttempt>(
+    {
+        attemptedAt: {
+            type: Date,
+            required: true
+        },
+        statusCode: Number,
+        error: {
+            type: String,
+            maxlength: 500
+        },
+        durationMs: {
+            type: Number,
+            required: true
+        }
+    },
+    { _id: false }
+);
+
+const WebhookDeliverySchema = new Schema<IWebhookDelivery>(
+    {
+        subscription: {
+            type: Schema.Types.ObjectId,
+            ref: "WebhookSubscription",
+            required: true
+        },
+        event: {
+            type: String,
+            enum: Object.values(WebhookEvent),
+            required: true
+        },
+        payload: {
+            type: String,
+            required: true
+        },
+        status: {
+            type: String,
+            enum: Object.values(WebhookDeliveryStatus),
+            default: WebhookDeliveryStatus.PENDING
+        },
+        attempts: {
+            type: [WebhookAttemptSchema],
+            default: []
+        },
+        nextAttemptAt: Date,
+        deliveredAt: Date
+    },
+    {
+        timestamps: true,
+    }
+)
+
+// The worker picks up due deliveries; the delivery log lists a subscription's deliveries newest first
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+WebhookDeliverySchema.index({ subscription: 1, createdAt: -1 });
+
+export default model<IWebhookDelivery>("WebhookDelivery", WebhookDeliverySchema);
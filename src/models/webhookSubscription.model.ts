@@ -0,0 +1,73 @@
+import { Document, model, Schema, Types } from "mongoose";
+
+export enum WebhookEvent {
+    LEAVE_APPLIED = "leave.applied",
+    LEAVE_APPROVED = "leave.approved",
+    LEAVE_REJECTED = "leave.rejected",
+    LEAVE_WITHDRAWN = "leave.withdrawn",
+    LEAVE_CANCELLED = "leave.cancelled",
+    EMPLOYEE_CREATED = "employee.created",
+    EMPLOYEE_UPDATED = "employee.updated",
+    EMPLOYEE_DEACTIVATED = "employee.deactivated",
+    EMPLOYEE_REACTIVATED = "employee.reactivated"
+}
+
+export interface IWebhookSubscription extends Document<Types.ObjectId> {
+    organization: Types.ObjectId;
+    url: string;
+    events: WebhookEvent[];
+    description?: string;
+    // Key for the HMAC signature of every delivery; only shown when the subscription is created
+    secret: string;
+    isActive: boolean;
+    createdBy: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const WebhookSubscriptionSchema = new Schema<IWebhookSubscription>(
+    {
+        organization: {
+            type: Schema.Types.ObjectId,
+            ref: "Organization",
+            required: true
+        },
+        url: {
+            type: String,
+            required: [true, "URL is required"],
+            trim: true,
+            maxlength: [2000, "The URL can't exceed 2000 characters"],
+            match: [/^https?:\/\/\S+$/i, "The URL must start with http:// or https://"]
+        },
+        events: {
+            type: [{ type: String, enum: Object.values(WebhookEvent) }],
+            validate: [(events: WebhookEvent[]) => events.length > 0, "Subscribe to at least one event"]
+        },
+        description: {
+            type: String,
+            trim: true,
+            maxlength: [200, "The description can't exceed 200 characters"]
+        },
+        secret: {
+            type: String,
+            required: true,
+            select: false
+        },
+        isActive: {
+            type: Boolean,
+            default: true
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: "Employee",
+            required: true
+        }
+    },
+    {
+        timestamps: true,
+    }
+)
+
+WebhookSubscriptionSchema.index({ organization: 1, events: 1, isActive: 1 });
+
+export default model<IWebhookSubscription>("WebhookSubscription", WebhookSubscriptionSchema);
@@ -0,0 +1,308 @@
+import { Document, Error as MongooseError, isValidObjectId, Types } from 'mongoose';
+import Employee, { hashPassword } from '@/models/employee.model';
+import Leave, { ACTIVE_LEAVE_STATUSES } from '@/models/leave.model';
+import Organization from '@/models/organization.model';
+import Delegation from '@/models/delegation.model';
+import AuditLog from '@/models/auditLog.model';
+import LedgerEntry from '@/models/ledgerEntry.model';
+import { LeaveListCriteria, MemorySession, PersistenceDriver, PersistenceSession, Repositories } from '@/config/persistence';
+import { toUtcDay } from '@/utils/leaveDuration';
+import { compareInSortOrder, compareToPosition } from '@/utils/pagination';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// What MongoDB reports for a unique index violation, so errorHandler answers with the same 409
+const duplicateKeyError = (keyValue: Record<string, unknown>) =>
+    Object.assign(new Error(`E11000 duplicate key error: ${JSON.stringify(keyValue)}`), { code: DUPLICATE_KEY_ERROR, keyValue });
+
+/**
+ * Validates a new document and gives it what MongoDB would on insert, then returns it as stored.
+ */
+const prepareInsert = async (document: Document) => {
+    await document.validate();
+    const now = new Date();
+    document.set({ createdAt: now, updatedAt: now, __v: 0 });
+    return document.toObject({ depopulate: true });
+};
+
+const findStored = (store: Map<string, any>, id: unknown) => isValidObjectId(id) ? store.get(String(id)) : undefined;
+
+/**
+ * Stores the object, and when a transaction's session is given, records how to put back what was there before.
+ */
+const write = (store: Map<string, any>, stored: any, session?: PersistenceSession) => {
+    const key = String(stored._id);
+    const previous = store.get(key);
+    (session as MemorySession | undefined)?.rollback.push(() => previous ? store.set(key, previous) : store.delete(key));
+    store.set(key, stored);
+};
+
+const overlaps = (stored: any, startDate: Date, endDate: Date) => stored.startDate <= endDate && stored.endDate >= startDate;
+
+const isActiveDelegation = (delegation: any) => {
+    const today = toUtcDay(new Date());
+    return !delegation.revokedAt && delegation.startDate <= today && delegation.endDate >= today;
+};
+
+const matchesCriteria = (leave: any, criteria: LeaveListCriteria): boolean =>
+    criteria.organization.equals(leave.organization)
+    && (!criteria.status || leave.status === criteria.status)
+    && (!criteria.leaveType || leave.leaveType === criteria.leaveType)
+    && (!criteria.employees || criteria.employees.some((employee) => employee.equals(leave.employeId)))
+    && (!criteria.overlapsFrom || leave.endDate >= criteria.overlapsFrom)
+    && (!criteria.overlapsTo || leave.startDate <= criteria.overlapsTo)
+    && (!criteria.createdFrom || leave.createdAt >= criteria.createdFrom)
+    && (!criteria.createdBefore || leave.createdAt < criteria.createdBefore)
+    && (!criteria.search || String(leave.reason ?? '').toLowerCase().includes(criteria.search.toLowerCase()));
+
+/**
+ * Repositories that keep everything in process memory, for running the API without MongoDB.
+ * Documents are stored as plain objects and handed out as fresh Mongoose documents, the way they
+ * would come from the database; schema validation and unique indexes are enforced the same way.
+ * Leave policies, holidays, staffing rules, accrual policies and webhook subscriptions can only be
+ * created with MongoDB, so there are none. Nothing survives a restart.
+ */
+export const createMemoryRepositories = (): Repositories => {
+    const employees = new Map<string, any>();
+    const leaves = new Map<string, any>();
+    const organizations = new Map<string, any>();
+    const delegations = new Map<string, any>();
+    const auditLogs = new Map<string, any>();
+    const ledgerEntries = new Map<string, any>();
+
+    // The password hash, like `select: false`, is only handed out to check a login
+    const toEmployee = ({ password, ...employee }: any, withPassword = false) =>
+        Employee.hydrate(withPassword ? { ...employee, password } : employee);
+
+    // Populates `employeId` with the fields the leave list shows, or null if the employee is gone
+    const toListedLeave = (stored: any) => {
+        const leave = Leave.hydrate(stored);
+        const employee = employees.get(String(stored.employeId));
+        leave.set('employeId', employee
+            ? Employee.hydrate({ _id: employee._id, fullName: employee.fullName, email: employee.email }, { _id: 1, fullName: 1, email: 1 })
+            : null);
+        return leave;
+    };
+
+    const findLeaves = (criteria: LeaveListCriteria) => [...leaves.values()].filter((leave) => matchesCriteria(leave, criteria));
+
+    return {
+        driver: PersistenceDriver.MEMORY,
+        employees: {
+            findById: async (id) => {
+                const stored = findStored(employees, id);
+                return stored ? toEmployee(stored) : null;
+            },
+            findByIds: async (ids) => ids.flatMap((id) => {
+                const stored = employees.get(String(id));
+                return stored ? [toEmployee(stored)] : [];
+            }),
+            findInOrganization: async (organization, id) => {
+                const stored = findStored(employees, id);
+                return stored && organization.equals(stored.organization) ? toEmployee(stored) : null;
+            },
+            findByEmail: async (organization, email) => {
+                const stored = [...employees.values()].find((employee) =>
+                    organization.equals(employee.organization) && employee.email === email.toLowerCase());
+                return stored ? toEmployee(stored) : null;
+            },
+            findForLogin: async (email, organization) => [...employees.values()]
+                .filter((employee) => employee.email === email.toLowerCase())
+                .filter((employee) => organization === undefined || (organization !== null && organization.equals(employee.organization)))
+                .map((employee) => toEmployee(employee, true)),
+            findIdsByDepartment: async (organization, department, employee) => [...employees.values()]
+                .filter((stored) => organization.equals(stored.organization) && stored.department === department)
+                .filter((stored) => !employee || String(stored._id) === String(employee))
+                .map((stored) => stored._id as Types.ObjectId),
+            findActiveByRole: async (organization, role) => [...employees.values()]
+                .filter((employee) => organization.equals(employee.organization) && employee.role === role && employee.isActive !== false)
+                .map((employee) => toEmployee(employee)),
+            hasActiveReports: async (manager) => [...employees.values()]
+                .some((employee) => manager.equals(employee.reportingManager) && employee.isActive !== false),
+            findEmployedDuring: async (organization, department, startDate, endDate) => [...employees.values()]
+                .filter((employee) => organization.equals(employee.organization)
+                    && employee.department === department
+                    && employee.joiningDate <= endDate
+                    && (employee.isActive !== false || employee.deactivatedAt >= startDate))
+                .map(({ _id, joiningDate, isActive, deactivatedAt }) => ({ _id, joiningDate, isActive, deactivatedAt })),
+            adjustBalance: async (employee, leaveType, days, allowNegative, session) => {
+                const stored = employees.get(String(employee));
+                const balance = stored?.leaveBalances?.[leaveType] ?? 0;
+                if (!stored || (days < 0 && !allowNegative && balance < -days)) {
+                    return null;
+                }
+                const updated = { ...stored, leaveBalances: { ...stored.leaveBalances, [leaveType]: balance + days }, updatedAt: new Date() };
+                write(employees, updated, session);
+                return toEmployee(updated);
+            },
+            create: async (fields, session) => {
+                const employee = new Employee(fields);
+                const stored = await prepareInsert(employee);
+                const taken = [...employees.values()].some((existing) =>
+                    existing.organization.equals(stored.organization) && existing.email === stored.email);
+                if (taken) {
+                    throw duplicateKeyError({ organization: stored.organization, email: stored.email });
+                }
+                if (stored.password) {
+                    stored.password = await hashPassword(stored.password);
+                }
+                write(employees, stored, session);
+                return toEmployee(stored);
+            }
+        },
+        leaves: {
+            findInOrganization: async (organization, id) => {
+                const stored = findStored(leaves, id);
+                return stored && organization.equals(stored.organization) ? Leave.hydrate(stored) : null;
+            },
+            findActiveOverlapping: async (employee, startDate, endDate) => [...leaves.values()]
+                .filter((leave) => employee.equals(leave.employeId)
+                    && ACTIVE_LEAVE_STATUSES.includes(leave.status)
+                    && overlaps(leave, startDate, endDate))
+                .map((leave) => Leave.hydrate(leave)),
+            findAbsences: async (employeeIds, statuses, startDate, endDate, excludeLeave) => [...leaves.values()]
+                .filter((leave) => employeeIds.some((employee) => employee.equals(leave.employeId))
+                    && statuses.includes(leave.status)
+                    && overlaps(leave, startDate, endDate)
+                    && !excludeLeave?.equals(leave._id))
+                .map(({ startDate, endDate, startSession, endSession }) => ({ startDate, endDate, startSession, endSession })),
+            findPage: async (criteria, sort, { limit, skip = 0, after }) => findLeaves(criteria)
+                .filter((leave) => !after || compareToPosition(leave, after, sort) > 0)
+                .sort((a, b) => compareInSortOrder(a, b, sort))
+                .slice(skip, skip + limit)
+                .map(toListedLeave),
+            count: async (criteria) => findLeaves(criteria).length,
+            exportRecords: async function* (criteria) {
+                const sorted = findLeaves(criteria).sort((a, b) => compareInSortOrder(a, b, { field: 'startDate', direction: 1 }));
+                for (const leave of sorted) {
+                    const employee = employees.get(String(leave.employeId));
+                    yield {
+                        ...leave,
+                        employeId: employee
+                            ? { _id: employee._id, fullName: employee.fullName, email: employee.email, department: employee.department }
+                            : null
+                    };
+                }
+            },
+            create: async (fields) => {
+                const stored = await prepareInsert(new Leave(fields));
+                leaves.set(String(stored._id), stored);
+                return Leave.hydrate(stored);
+            },
+            // Bumps the version like Mongoose's optimistic concurrency does
+            save: async (leave, session) => {
+                const stored = leaves.get(String(leave._id));
+                const version = leave.get('__v') ?? 0;
+                if (!stored || stored.__v !== version) {
+                    throw new MongooseError.VersionError(leave, version, leave.modifiedPaths());
+                }
+                await leave.validate();
+                leave.set({ updatedAt: new Date(), __v: stored.__v + 1 });
+                write(leaves, leave.toObject({ depopulate: true }), session);
+                return leave;
+            }
+        },
+        organizations: {
+            findById: async (id) => {
+                const stored = findStored(organizations, id);
+                return stored ? Organization.hydrate(stored) : null;
+            },
+            findBySlug: async (slug) => {
+                const stored = [...organizations.values()].find((organization) => organization.slug === slug.toLowerCase());
+                return stored ? Organization.hydrate(stored) : null;
+            },
+            create: async (fields) => {
+                const stored = await prepareInsert(new Organization(fields));
+                if ([...organizations.values()].some((organization) => organization.slug === stored.slug)) {
+                    throw duplicateKeyError({ slug: stored.slug });
+                }
+                organizations.set(String(stored._id), stored);
+                return Organization.hydrate(stored);
+            }
+        },
+        leavePolicies: {
+            findApplicable: async () => []
+        },
+        holidays: {
+            findApplicable: async () => []
+        },
+        staffingRules: {
+            findActive: async () => null
+        },
+        accrualPolicies: {
+            findActive: async () => []
+        },
+        delegations: {
+            findActiveForDelegate: async (delegate) => [...delegations.values()]
+                .filter((delegation) => delegate.equals(delegation.delegate) && isActiveDelegation(delegation))
+                .map((delegation) => Delegation.hydrate(delegation)),
+            findActiveForDelegator: async (delegator) => [...delegations.values()]
+                .filter((delegation) => delegator.equals(delegation.delegator) && isActiveDelegation(delegation))
+                .map((delegation) => Delegation.hydrate(delegation)),
+            create: async (fields) => {
+                const stored = await prepareInsert(new Delegation(fields));
+                delegations.set(String(stored._id), stored);
+                return Delegation.hydrate(stored);
+            },
+            endForLeave: async (leave, endDate) => {
+                for (const delegation of delegations.values()) {
+                    if (leave.equals(delegation.leave) && !delegation.revokedAt) {
+                        delegations.set(String(delegation._id), { ...delegation, endDate, updatedAt: new Date() });
+                    }
+                }
+            },
+            revokeForLeave: async (leave, revokedBy) => {
+                for (const delegation of delegations.values()) {
+                    if (leave.equals(delegation.leave) && !delegation.revokedAt) {
+                        const now = new Date();
+                        delegations.set(String(delegation._id), { ...delegation, revokedAt: now, revokedBy, updatedAt: now });
+                    }
+                }
+            }
+        },
+        auditLogs: {
+            create: async (entry, session) => {
+                const stored = await prepareInsert(new AuditLog(entry));
+                write(auditLogs, stored, session);
+                return AuditLog.hydrate(stored);
+            },
+            findHistory: async (entityType, entityId) => [...auditLogs.values()]
+                .filter((entry) => entry.entityType === entityType && String(entry.entityId) === entityId)
+                .sort((a, b) => a.createdAt - b.createdAt || String(a._id).localeCompare(String(b._id)))
+                .map((stored) => {
+                    const entry = AuditLog.hydrate(stored);
+                    if (stored.actor) {
+                        const actor = employees.get(String(stored.actor));
+                        entry.set('actor', actor
+                            ? Employee.hydrate({ _id: actor._id, fullName: actor.fullName, email: actor.email, role: actor.role }, { _id: 1, fullName: 1, email: 1, role: 1 })
+                            : null);
+                    }
+                    return entry;
+                })
+        },
+        ledgerEntries: {
+            create: async (entries, session) => {
+                const created = [];
+                for (const entry of entries) {
+                    const stored = await prepareInsert(new LedgerEntry(entry));
+                    write(ledgerEntries, stored, session);
+                    created.push(LedgerEntry.hydrate(stored));
+                }
+                return created;
+            }
+        },
+        webhookSubscriptions: {
+            findActiveForEvent: async () => []
+        },
+        // Undoes the writes made with the session, newest first, when the work fails
+        transaction: async (work) => {
+            const session: MemorySession = { rollback: [] };
+            try {
+                return await work(session);
+            } catch (error) {
+                session.rollback.reverse().forEach((undo) => undo());
+                throw error;
+            }
+        }
+    };
+};
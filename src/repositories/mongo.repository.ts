@@ -0,0 +1,176 @@
+import mongoose, { ClientSession, FilterQuery } from 'mongoose';
+import Employee from '@/models/employee.model';
+import Leave, { ACTIVE_LEAVE_STATUSES, ILeave } from '@/models/leave.model';
+import Organization from '@/models/organization.model';
+import LeavePolicy from '@/models/leavePolicy.model';
+import Holiday from '@/models/holiday.model';
+import StaffingRule from '@/models/staffingRule.model';
+import AccrualPolicy from '@/models/accrualPolicy.model';
+import Delegation from '@/models/delegation.model';
+import AuditLog from '@/models/auditLog.model';
+import LedgerEntry from '@/models/ledgerEntry.model';
+import WebhookSubscription from '@/models/webhookSubscription.model';
+import { LeaveAbsence, LeaveExportRecord, LeaveListCriteria, PersistenceDriver, PersistenceSession, Repositories, StaffingMember } from '@/config/persistence';
+import { activeDelegationFilter } from '@/services/delegation.service';
+import { cursorFilter, toMongoSort } from '@/utils/pagination';
+
+// These repositories only ever get the sessions of their own transactions
+const clientSession = (session?: PersistenceSession) => session as ClientSession | undefined;
+
+// Escape the search text so it is matched literally
+const toSearchPattern = (search: string) => new RegExp(search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+
+/**
+ * MongoDB query for the leave list criteria.
+ */
+const toLeaveFilter = (criteria: LeaveListCriteria): FilterQuery<ILeave> => {
+    const filter: FilterQuery<ILeave> = { organization: criteria.organization };
+    if (criteria.status) filter.status = criteria.status;
+    if (criteria.leaveType) filter.leaveType = criteria.leaveType;
+    if (criteria.employees) filter.employeId = { $in: criteria.employees };
+    // Leaves overlapping the range
+    if (criteria.overlapsFrom) filter.endDate = { $gte: criteria.overlapsFrom };
+    if (criteria.overlapsTo) filter.startDate = { $lte: criteria.overlapsTo };
+    if (criteria.createdFrom || criteria.createdBefore) {
+        filter.createdAt = {
+            ...(criteria.createdFrom ? { $gte: criteria.createdFrom } : {}),
+            ...(criteria.createdBefore ? { $lt: criteria.createdBefore } : {})
+        };
+    }
+    if (criteria.search) filter.reason = toSearchPattern(criteria.search);
+    return filter;
+};
+
+/**
+ * Repositories backed by the Mongoose models. The connection is opened by connectDB.
+ */
+export const createMongoRepositories = (): Repositories => ({
+    driver: PersistenceDriver.MONGO,
+    employees: {
+        findById: (id) => Employee.findById(id),
+        findByIds: (ids) => Employee.find({ _id: { $in: ids } }),
+        findInOrganization: (organization, id) => Employee.findOne({ _id: id, organization }),
+        findByEmail: (organization, email) => Employee.findOne({ organization, email: email.toLowerCase() }),
+        findForLogin: (email, organization) => Employee.find({
+            ...(organization !== undefined ? { organization } : {}),
+            email: email.toLowerCase()
+        }).select('+password'),
+        findIdsByDepartment: async (organization, department, employee) => {
+            const employees = await Employee.find({ organization, department, ...(employee ? { _id: employee } : {}) }).select('_id').lean();
+            return employees.map((found) => found._id);
+        },
+        findActiveByRole: (organization, role) => Employee.find({ organization, role, isActive: { $ne: false } }),
+        hasActiveReports: async (manager) => !!(await Employee.exists({ reportingManager: manager, isActive: { $ne: false } })),
+        findEmployedDuring: (organization, department, startDate, endDate) => Employee.find({
+            organization,
+            department,
+            joiningDate: { $lte: endDate },
+            $or: [{ isActive: { $ne: false } }, { deactivatedAt: { $gte: startDate } }]
+        })
+            .select('joiningDate isActive deactivatedAt')
+            .lean<StaffingMember[]>(),
+        adjustBalance: (employee, leaveType, days, allowNegative, session) => {
+            const field = `leaveBalances.${leaveType}`;
+            return Employee.findOneAndUpdate(
+                { _id: employee, ...(days < 0 && !allowNegative ? { [field]: { $gte: -days } } : {}) },
+                { $inc: { [field]: days } },
+                { new: true, session: clientSession(session), projection: { leaveBalances: 1 } }
+            );
+        },
+        create: async (fields, session) => {
+            const [employee] = await Employee.create([fields], { session: clientSession(session) });
+            return employee;
+        }
+    },
+    leaves: {
+        findInOrganization: (organization, id) => Leave.findOne({ _id: id, organization }),
+        findActiveOverlapping: (employee, startDate, endDate) => Leave.find({
+            employeId: employee,
+            status: { $in: ACTIVE_LEAVE_STATUSES },
+            startDate: { $lte: endDate },
+            endDate: { $gte: startDate }
+        }),
+        findAbsences: (employees, statuses, startDate, endDate, excludeLeave) => Leave.find({
+            employeId: { $in: employees },
+            status: { $in: statuses },
+            startDate: { $lte: endDate },
+            endDate: { $gte: startDate },
+            ...(excludeLeave ? { _id: { $ne: excludeLeave } } : {})
+        })
+            .select('startDate endDate startSession endSession')
+            .lean<LeaveAbsence[]>(),
+        findPage: (criteria, sort, { limit, skip = 0, after }) => {
+            const filter = toLeaveFilter(criteria);
+            return Leave.find(after ? { $and: [filter, cursorFilter(after, sort)] } : filter)
+                .sort(toMongoSort(sort))
+                .skip(skip)
+                .limit(limit)
+                .populate('employeId', 'fullName email');
+        },
+        count: (criteria) => Leave.countDocuments(toLeaveFilter(criteria)),
+        exportRecords: (criteria) => Leave.find(toLeaveFilter(criteria))
+            .sort({ startDate: 1, _id: 1 })
+            .populate<Pick<LeaveExportRecord, 'employeId'>>('employeId', 'fullName email department')
+            .lean<LeaveExportRecord[]>()
+            .cursor(),
+        create: (fields) => Leave.create(fields),
+        save: (leave, session) => leave.save({ session: clientSession(session) })
+    },
+    organizations: {
+        findById: (id) => Organization.findById(id),
+        findBySlug: (slug) => Organization.findOne({ slug: slug.toLowerCase() }),
+        create: (fields) => Organization.create(fields)
+    },
+    leavePolicies: {
+        findApplicable: (organization, department, leaveType) => LeavePolicy.find({
+            organization,
+            active: true,
+            department: { $in: [null, ...(department ? [department] : [])] },
+            leaveType: { $in: [null, ...(leaveType ? [leaveType] : [])] }
+        }).sort({ name: 1 })
+    },
+    holidays: {
+        // Holidays with no department/location apply to everyone
+        findApplicable: (organization, startDate, endDate, department, location) => Holiday.find({
+            organization,
+            date: { $gte: startDate, $lte: endDate },
+            $and: [
+                { $or: [{ department: null }, { department: department }] },
+                { $or: [{ location: null }, { location: location }] }
+            ]
+        }).sort({ date: 1 })
+    },
+    staffingRules: {
+        findActive: (organization, department) => StaffingRule.findOne({ organization, department, active: true })
+    },
+    accrualPolicies: {
+        findActive: (organization) => AccrualPolicy.find({ organization, active: true })
+    },
+    delegations: {
+        findActiveForDelegate: (delegate) => Delegation.find({ delegate, ...activeDelegationFilter() }),
+        findActiveForDelegator: (delegator) => Delegation.find({ delegator, ...activeDelegationFilter() }),
+        create: (fields) => Delegation.create(fields),
+        endForLeave: async (leave, endDate) => {
+            await Delegation.updateMany({ leave, revokedAt: { $exists: false } }, { $set: { endDate } });
+        },
+        revokeForLeave: async (leave, revokedBy) => {
+            await Delegation.updateMany({ leave, revokedAt: { $exists: false } }, { $set: { revokedAt: new Date(), revokedBy } });
+        }
+    },
+    auditLogs: {
+        create: async (entry, session) => {
+            const [created] = await AuditLog.create([entry], { session: clientSession(session) });
+            return created;
+        },
+        findHistory: (entityType, entityId) => AuditLog.find({ entityType, entityId })
+            .sort({ createdAt: 1, _id: 1 })
+            .populate('actor', 'fullName email role')
+    },
+    ledgerEntries: {
+        create: (entries, session) => LedgerEntry.create(entries, { session: clientSession(session), ordered: true })
+    },
+    webhookSubscriptions: {
+        findActiveForEvent: (organization, event) => WebhookSubscription.find({ organization, events: event, isActive: true }).select('_id')
+    },
+    transaction: (work) => mongoose.connection.transaction((session) => work(session))
+});
@@ -0,0 +1,20 @@
+import { createAccrualPolicy, getAccrualPolicies, runAccrualForPeriod, runYearEnd, updateAccrualPolicy } from "@/controllers/accrual.controller";
+import { authenticate, authorize } from "@/middleware/auth.middleware";
+import { readLimiter, strictLimiter } from "@/middleware/rateLimiter.middleware";
+import { Role } from "@/models/employee.model";
+import { Router } from "express";
+
+const router = Router();
+
+// Accruals are managed by HR / Admins only
+router.use(authenticate, authorize(Role.HR, Role.ADMIN));
+
+router.get('/policies', readLimiter, getAccrualPolicies);
+router.post('/policies', createAccrualPolicy);
+router.patch('/policies/:id', updateAccrualPolicy);
+
+// Running an accrual touches every employee's balance
+router.post('/run', strictLimiter, runAccrualForPeriod);
+router.post('/year-end', strictLimiter, runYearEnd);
+
+export default router;
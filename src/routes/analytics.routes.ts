@@ -0,0 +1,18 @@
+import { getApprovalStats, getBalanceLiability, getLowUsageEmployees, getTopReasons, getUtilization } from "@/controllers/analytics.controller";
+import { authenticate, authorize } from "@/middleware/auth.middleware";
+import { readLimiter } from "@/middleware/rateLimiter.middleware";
+import { Role } from "@/models/employee.model";
+import { Router } from "express";
+
+const router = Router();
+
+// Analytics are for HR and admins only
+router.use(authenticate, authorize(Role.HR, Role.ADMIN));
+
+router.get('/utilization', readLimiter, getUtilization);
+router.get('/approvals', readLimiter, getApprovalStats);
+router.get('/reasons', readLimiter, getTopReasons);
+router.get('/low-usage', readLimiter, getLowUsageEmployees);
+router.get('/liability', readLimiter, getBalanceLiability);
+
+export default router;
@@ -0,0 +1,13 @@
+import { getCurrentEmployee, login } from "@/controllers/auth.controller";
+import { authenticate } from "@/middleware/auth.middleware";
+import { readLimiter, strictLimiter } from "@/middleware/rateLimiter.middleware";
+import { Router } from "express";
+
+const router = Router();
+
+// Apply strict rate limiting to login attempts
+router.post('/login', strictLimiter, login);
+
+router.get('/me', readLimiter, authenticate, getCurrentEmployee);
+
+export default router;
@@ -0,0 +1,22 @@
+import { createCalendarFeed, getCalendarFeedIcs, getCalendarFeeds, getTeamCalendar, revokeCalendarFeed } from "@/controllers/calendar.controller";
+import { authenticate, authorize, LEAVE_APPROVER_ROLES } from "@/middleware/auth.middleware";
+import { readLimiter, strictLimiter } from "@/middleware/rateLimiter.middleware";
+import { Router } from "express";
+
+const router = Router();
+
+// iCalendar feeds are fetched by calendar apps, authenticated by the secret token in the URL
+router.get('/ical/:token.ics', readLimiter, getCalendarFeedIcs);
+
+// All other calendar routes require a logged in user
+router.use(authenticate);
+
+// GET who is off and who is available per day (managers, HR and admins)
+router.get('/team', readLimiter, authorize(...LEAVE_APPROVER_ROLES), getTeamCalendar);
+
+// Manage the logged in employee's iCalendar subscription feeds
+router.post('/feeds', strictLimiter, createCalendarFeed);
+router.get('/feeds', readLimiter, getCalendarFeeds);
+router.delete('/feeds/:id', revokeCalendarFeed);
+
+export default router;
@@ -0,0 +1,32 @@
+import { claimCompOff, decideCompOff, getAllCompOffs, getMyCompOffs, getPendingCompOffs, withdrawCompOff } from "@/controllers/compOff.controller";
+import { authenticate, authorize, LEAVE_APPROVER_ROLES } from "@/middleware/auth.middleware";
+import { leaveLimiter, readLimiter, strictLimiter } from "@/middleware/rateLimiter.middleware";
+import { Role } from "@/models/employee.model";
+import { Router } from "express";
+
+const router = Router();
+
+// All comp-off routes require a logged in user
+router.use(authenticate);
+
+// POST a claim for a weekend day or holiday worked
+router.post('/', leaveLimiter, claimCompOff);
+
+// GET the logged in employee's own claims
+router.get('/me', readLimiter, getMyCompOffs);
+
+// PATCH to withdraw a pending claim
+router.patch('/:id/withdraw', leaveLimiter, withdrawCompOff);
+
+// --- Routes for Managers / HR / Admins ---
+
+// GET every claim (HR / Admins)
+router.get('/', readLimiter, authorize(Role.HR, Role.ADMIN), getAllCompOffs);
+
+// GET the claims waiting on the logged in approver
+router.get('/pending-approval', readLimiter, authorize(...LEAVE_APPROVER_ROLES), getPendingCompOffs);
+
+// PATCH to approve (crediting the COMP_OFF balance) or reject a claim
+router.patch('/:id', strictLimiter, authorize(...LEAVE_APPROVER_ROLES), decideCompOff);
+
+export default router;
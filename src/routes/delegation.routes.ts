@@ -0,0 +1,15 @@
+import { createDelegation, getDelegations, revokeDelegation } from "@/controllers/delegation.controller";
+import { authenticate, authorize, LEAVE_APPROVER_ROLES } from "@/middleware/auth.middleware";
+import { readLimiter } from "@/middleware/rateLimiter.middleware";
+import { Router } from "express";
+
+const router = Router();
+
+// Only approvers have approval rights to hand over
+router.use(authenticate, authorize(...LEAVE_APPROVER_ROLES));
+
+router.get('/', readLimiter, getDelegations);
+router.post('/', createDelegation);
+router.patch('/:id/revoke', revokeDelegation);
+
+export default router;
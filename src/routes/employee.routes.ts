@@ -1,10 +1,40 @@
-import { createEmployee } from "@/controllers/employee.controller";
-import { strictLimiter } from "@/middleware/rateLimiter.middleware";
-import { Router } from "express";
+import { adjustLeaveBalance, createEmployee, importEmployees, deactivateEmployee, getEmployeeById, getEmployeeHistory, getEmployeeLedger, getEmployees, reactivateEmployee, reconcileEmployeeLedger, updateEmployee, updateNotificationPreferences } from "@/controllers/employee.controller";
+import { authenticate, authorize } from "@/middleware/auth.middleware";
+import { readLimiter, strictLimiter } from "@/middleware/rateLimiter.middleware";
+import { Role } from "@/models/employee.model";
+import express, { Router } from "express";
 
 const router = Router();
 
+// All employee routes require a logged in user
+router.use(authenticate);
+
 // Apply strict rate limiting to employee creation
-router.post('/create', strictLimiter, createEmployee);
+router.post('/create', strictLimiter, authorize(Role.HR, Role.ADMIN), createEmployee);
+
+// Bulk import from a CSV body; one request per file, so the strict limiter still applies
+router.post('/import', strictLimiter, authorize(Role.HR, Role.ADMIN), express.text({ type: ['text/csv', 'text/plain'], limit: '1mb' }), importEmployees);
+
+// GET the employee directory (paginated, filterable)
+router.get('/', readLimiter, authorize(Role.MANAGER, Role.HR, Role.ADMIN), getEmployees);
+
+// GET a single employee; employees can only fetch themselves
+router.get('/:id', readLimiter, getEmployeeById);
+
+// GET an employee's change history; employees can only fetch their own
+router.get('/:id/history', readLimiter, getEmployeeHistory);
+
+// GET an employee's balance ledger; employees can only fetch their own
+router.get('/:id/ledger', readLimiter, getEmployeeLedger);
+
+// Opt in to or out of notification emails; employees can only change their own
+router.patch('/:id/notifications', updateNotificationPreferences);
+
+// --- Routes for HR / Admins ---
+router.patch('/:id', authorize(Role.HR, Role.ADMIN), updateEmployee);
+router.patch('/:id/deactivate', strictLimiter, authorize(Role.HR, Role.ADMIN), deactivateEmployee);
+router.patch('/:id/reactivate', strictLimiter, authorize(Role.HR, Role.ADMIN), reactivateEmployee);
+router.get('/:id/ledger/reconcile', readLimiter, authorize(Role.HR, Role.ADMIN), reconcileEmployeeLedger);
+router.post('/:id/ledger/adjustments', authorize(Role.HR, Role.ADMIN), adjustLeaveBalance);
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,20 @@
+import { createHoliday, deleteHoliday, getHolidays, updateHoliday } from "@/controllers/holiday.controller";
+import { authenticate, authorize } from "@/middleware/auth.middleware";
+import { readLimiter } from "@/middleware/rateLimiter.middleware";
+import { Role } from "@/models/employee.model";
+import { Router } from "express";
+
+const router = Router();
+
+// All holiday routes require a logged in user
+router.use(authenticate);
+
+// Anyone can view the holiday calendar
+router.get('/', readLimiter, getHolidays);
+
+// --- Routes for HR / Admins ---
+router.post('/', authorize(Role.HR, Role.ADMIN), createHoliday);
+router.patch('/:id', authorize(Role.HR, Role.ADMIN), updateHoliday);
+router.delete('/:id', authorize(Role.HR, Role.ADMIN), deleteHoliday);
+
+export default router;
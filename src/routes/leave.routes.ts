@@ -1,20 +1,59 @@
-import { applyForLeave, getAllLeaves, updateLeaveStatus } from "@/controllers/leave.controller";
+import { applyForLeave, decideLeaveCancellation, exportLeaves, getAllLeaves, getLeaveHistory, getMyLeaves, getPendingApprovals, requestLeaveCancellation, updateLeaveStatus, withdrawLeave } from "@/controllers/leave.controller";
+import { deleteLeaveAttachment, downloadLeaveAttachment, uploadLeaveAttachment } from "@/controllers/attachment.controller";
+import { authenticate, authorize, LEAVE_APPROVER_ROLES } from "@/middleware/auth.middleware";
+import { idempotent } from "@/middleware/idempotency.middleware";
 import { leaveLimiter, readLimiter, strictLimiter } from "@/middleware/rateLimiter.middleware";
+import { uploadAttachment } from "@/middleware/upload.middleware";
+import { Role } from "@/models/employee.model";
 import { Router } from "express";
 
 const router = Router();
 
+// All leave routes require a logged in user
+router.use(authenticate);
+
 // Apply leave-specific rate limiting to leave applications
-router.post('/apply-leave', leaveLimiter, applyForLeave);
+// Retries with the same Idempotency-Key get the first response back instead of filing the leave twice
+router.post('/apply-leave', leaveLimiter, idempotent, applyForLeave);
+
+// GET the logged in employee's own leave requests
+router.get('/me', readLimiter, getMyLeaves);
+
+// GET the status history of a leave request (owner or approvers)
+router.get('/:id/history', readLimiter, getLeaveHistory);
+
+// PATCH to withdraw a pending leave request
+router.patch('/:id/withdraw', leaveLimiter, withdrawLeave);
+
+// POST to ask for an approved leave to be cancelled or cut short
+router.post('/:id/cancellation', leaveLimiter, requestLeaveCancellation);
+
+// POST a supporting document (PDF/image) for a leave request (owner, HR, Admins)
+router.post('/:id/attachments', leaveLimiter, uploadAttachment, uploadLeaveAttachment);
 
-// --- Routes for HR / Admins ---
+// GET an attached document (owner, approvers, HR, Admins)
+router.get('/:id/attachments/:attachmentId', readLimiter, downloadLeaveAttachment);
+
+// DELETE an attached document (owner while pending, HR, Admins)
+router.delete('/:id/attachments/:attachmentId', leaveLimiter, deleteLeaveAttachment);
+
+// --- Routes for Managers / HR / Admins ---
 
 // GET a paginated list of ALL leave requests (pending, approved, rejected)
 // Used for a master view or reporting.
-router.get('/', readLimiter, getAllLeaves);
+router.get('/', readLimiter, authorize(...LEAVE_APPROVER_ROLES), getAllLeaves);
+
+// GET every matching leave as a CSV or JSON download (HR / Admins)
+router.get('/export', readLimiter, authorize(Role.HR, Role.ADMIN), exportLeaves);
 
-// PATCH to update a specific leave request's status (Approve/Reject)
+// GET the leave requests waiting on the logged in approver
+router.get('/pending-approval', readLimiter, authorize(...LEAVE_APPROVER_ROLES), getPendingApprovals);
+
+// PATCH to record the current approver's decision (Approve/Reject)
 // The ':id' is the ID of the leave request.
-router.patch('/:id', strictLimiter, updateLeaveStatus);
+router.patch('/:id', strictLimiter, authorize(...LEAVE_APPROVER_ROLES), idempotent, updateLeaveStatus);
+
+// PATCH to confirm or decline a cancellation request, restoring the balance on confirmation
+router.patch('/:id/cancellation', strictLimiter, authorize(...LEAVE_APPROVER_ROLES), decideLeaveCancellation);
 
-export default router;
\ No newline at end of file
+export default router;
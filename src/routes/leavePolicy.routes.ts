@@ -0,0 +1,20 @@
+import { createLeavePolicy, deleteLeavePolicy, getLeavePolicies, updateLeavePolicy } from "@/controllers/leavePolicy.controller";
+import { authenticate, authorize } from "@/middleware/auth.middleware";
+import { readLimiter } from "@/middleware/rateLimiter.middleware";
+import { Role } from "@/models/employee.model";
+import { Router } from "express";
+
+const router = Router();
+
+// All leave policy routes require a logged in user
+router.use(authenticate);
+
+// Everyone can read the rules their leave requests are checked against
+router.get('/', readLimiter, getLeavePolicies);
+
+// --- Routes for Admins ---
+router.post('/', authorize(Role.ADMIN), createLeavePolicy);
+router.patch('/:id', authorize(Role.ADMIN), updateLeavePolicy);
+router.delete('/:id', authorize(Role.ADMIN), deleteLeavePolicy);
+
+export default router;
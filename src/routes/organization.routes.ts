@@ -0,0 +1,29 @@
+import { createOrganization, getCurrentOrganization, getOrganizations, updateCurrentOrganization, updateOrganization } from "@/controllers/organization.controller";
+import { authenticate, authorize, requireHostOrganization } from "@/middleware/auth.middleware";
+import { readLimiter, strictLimiter } from "@/middleware/rateLimiter.middleware";
+import { Role } from "@/models/employee.model";
+import { Router } from "express";
+
+const router = Router();
+
+// All organization routes require a logged in user
+router.use(authenticate);
+
+// GET the logged in employee's organization and its settings
+router.get('/current', readLimiter, getCurrentOrganization);
+
+// PATCH the organization's name, departments or default leave balances (Admins)
+router.patch('/current', authorize(Role.ADMIN), updateCurrentOrganization);
+
+// --- Routes for Admins of the host organization ---
+
+// GET every organization
+router.get('/', readLimiter, authorize(Role.ADMIN), requireHostOrganization, getOrganizations);
+
+// POST a new organization with its first admin
+router.post('/', strictLimiter, authorize(Role.ADMIN), requireHostOrganization, createOrganization);
+
+// PATCH to rename, activate or deactivate an organization
+router.patch('/:id', authorize(Role.ADMIN), requireHostOrganization, updateOrganization);
+
+export default router;
@@ -0,0 +1,17 @@
+import { createStaffingRule, deleteStaffingRule, getStaffingRules, updateStaffingRule } from "@/controllers/staffing.controller";
+import { authenticate, authorize } from "@/middleware/auth.middleware";
+import { readLimiter } from "@/middleware/rateLimiter.middleware";
+import { Role } from "@/models/employee.model";
+import { Router } from "express";
+
+const router = Router();
+
+// Staffing rules are managed by HR / Admins only
+router.use(authenticate, authorize(Role.HR, Role.ADMIN));
+
+router.get('/', readLimiter, getStaffingRules);
+router.post('/', createStaffingRule);
+router.patch('/:id', updateStaffingRule);
+router.delete('/:id', deleteStaffingRule);
+
+export default router;
@@ -0,0 +1,21 @@
+import { createWebhookSubscription, deleteWebhookSubscription, getWebhookDeliveries, getWebhookSubscriptions, redeliverWebhook, updateWebhookSubscription } from "@/controllers/webhook.controller";
+import { authenticate, authorize } from "@/middleware/auth.middleware";
+import { readLimiter, strictLimiter } from "@/middleware/rateLimiter.middleware";
+import { Role } from "@/models/employee.model";
+import { Router } from "express";
+
+const router = Router();
+
+// Webhooks send leave and employee data to other systems, so only admins manage them
+router.use(authenticate, authorize(Role.ADMIN));
+
+router.get('/', readLimiter, getWebhookSubscriptions);
+router.post('/', strictLimiter, createWebhookSubscription);
+router.patch('/:id', updateWebhookSubscription);
+router.delete('/:id', deleteWebhookSubscription);
+
+// Delivery log and manual redelivery for debugging receivers
+router.get('/:id/deliveries', readLimiter, getWebhookDeliveries);
+router.post('/deliveries/:id/redeliver', strictLimiter, redeliverWebhook);
+
+export default router;
@@ -1,15 +1,43 @@
 import * as dotenv from "dotenv";
 dotenv.config(); // Load environment variables from .env file
 
+import mongoose from 'mongoose';
 import app from './app'; // Import the configured Express app
 import connectDB from './config/db'; // Import the database connection function
+import seedOrganization from './config/seedOrganization'; // Creates the default organization
+import seedAdmin from './config/seedAdmin'; // Import the initial admin seeding function
+import { startWebhookWorker } from './services/webhook.service'; // Sends queued webhook deliveries
+import { startCompOffExpiryWorker } from './services/compOff.service'; // Lapses unused comp-off credit
+import { getRepositories } from './services/persistence.service'; // Picks MongoDB or the in-memory store
+import { PersistenceDriver } from './config/persistence';
 
 const PORT = process.env.PORT || 5000;
 
 const startServer = async () => {
     try {
-        // Connect to the database before starting the server
-        await connectDB();
+        const { driver } = getRepositories();
+        if (driver === PersistenceDriver.MONGO) {
+            // Connect to the database before starting the server
+            await connectDB();
+        } else {
+            // Queries of the features the in-memory store doesn't cover fail at once instead of waiting for a connection
+            mongoose.set('bufferCommands', false);
+            console.log('Running on the in-memory store: data is lost on restart and only some features are available');
+        }
+
+        // Make sure the default organization exists and owns the data from before organizations
+        await seedOrganization();
+
+        // Make sure there is an admin who can log in on a fresh database
+        await seedAdmin();
+
+        if (driver === PersistenceDriver.MONGO) {
+            // Deliver webhooks queued before a restart and retry failed ones in the background
+            startWebhookWorker();
+
+            // Lapse comp-off credit that was not used in time
+            startCompOffExpiryWorker();
+        }
 
         // Start listening for incoming requests
         app.listen(PORT, () => {
@@ -0,0 +1,281 @@
+import mongoose, { Types } from 'mongoose';
+import AccrualPolicy, { AccrualFrequency, IAccrualPolicy } from '@/models/accrualPolicy.model';
+import AccrualEntry, { AccrualEntryKind, IAccrualEntry } from '@/models/accrualEntry.model';
+import Employee, { IEmployee } from '@/models/employee.model';
+import { BalanceLeaveType } from '@/models/leave.model';
+import { LedgerEntryKind } from '@/models/ledgerEntry.model';
+import { toUtcDay } from '@/utils/leaveDuration';
+import { getLedgerBalancesBefore, postLedgerEntry } from '@/services/ledger.service';
+import { getRepositories } from '@/services/persistence.service';
+
+const MS_PER_DAY = 1000 * 3600 * 24;
+const DUPLICATE_KEY_ERROR = 11000;
+
+export interface AccrualPeriod {
+    label: string;
+    frequency: AccrualFrequency;
+    start: Date;
+    end: Date;
+}
+
+export enum AccrualRunStatus {
+    APPLIED = "APPLIED",
+    ALREADY_APPLIED = "ALREADY_APPLIED",
+    PREVIEW = "PREVIEW"
+}
+
+export interface AccrualRunItem {
+    employee: string;
+    fullName: string;
+    leaveType: BalanceLeaveType;
+    days: number;
+    carriedForward?: number;
+    lapsed?: number;
+    status: AccrualRunStatus;
+}
+
+export interface AccrualRunResult {
+    period: string;
+    dryRun: boolean;
+    totalDays: number;
+    items: AccrualRunItem[];
+}
+
+const roundDays = (days: number) => Math.round(days * 100) / 100;
+
+const daysBetween = (from: Date, to: Date) => Math.round((to.getTime() - from.getTime()) / MS_PER_DAY) + 1;
+
+/**
+ * Parses "YYYY-MM" (monthly credit) or "YYYY" (yearly credit) into an accrual period.
+ * Returns null if the format is invalid.
+ */
+export const parseAccrualPeriod = (period: string): AccrualPeriod | null => {
+    const monthly = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(period);
+    if (monthly) {
+        const year = Number(monthly[1]);
+        const month = Number(monthly[2]) - 1;
+        return {
+            label: period,
+            frequency: AccrualFrequency.MONTHLY,
+            start: new Date(Date.UTC(year, month, 1)),
+            end: new Date(Date.UTC(year, month + 1, 0))
+        };
+    }
+
+    if (/^\d{4}$/.test(period)) {
+        const year = Number(period);
+        return {
+            label: period,
+            frequency: AccrualFrequency.YEARLY,
+            start: new Date(Date.UTC(year, 0, 1)),
+            end: new Date(Date.UTC(year, 11, 31))
+        };
+    }
+
+    return null;
+};
+
+/**
+ * Days an employee earns under a policy for a period.
+ * Employees who join during the period get a share proportional to the days they were employed.
+ */
+export const calculateAccrualDays = (policy: IAccrualPolicy, employee: IEmployee, period: AccrualPeriod): number => {
+    const joiningDate = toUtcDay(employee.joiningDate);
+    if (joiningDate > period.end) {
+        return 0;
+    }
+
+    const fullCredit = policy.frequency === AccrualFrequency.MONTHLY
+        ? policy.annualAllowance / 12
+        : policy.annualAllowance;
+
+    if (!policy.prorateOnJoining || joiningDate <= period.start) {
+        return roundDays(fullCredit);
+    }
+
+    return roundDays(fullCredit * daysBetween(joiningDate, period.end) / daysBetween(period.start, period.end));
+};
+
+/**
+ * Leave types whose balance is driven by an active accrual policy of the organization.
+ * New employees start at zero for these and are credited by the accrual run.
+ */
+export const getAccruedLeaveTypes = async (organization: Types.ObjectId): Promise<BalanceLeaveType[]> => {
+    const policies = await getRepositories().accrualPolicies.findActive(organization);
+    return policies.map((policy) => policy.leaveType);
+};
+
+type AccrualEntryInput = Pick<IAccrualEntry, 'employee' | 'policy' | 'leaveType' | 'kind' | 'period' | 'days' | 'carriedForward' | 'lapsed'>;
+
+/**
+ * Records an accrual entry and applies its days to the balance through the ledger, in one transaction.
+ * Returns false if the entry already exists, which is what makes re-running a period safe.
+ */
+const applyEntry = async (entry: AccrualEntryInput, ledgerKind: LedgerEntryKind): Promise<boolean> => {
+    try {
+        await mongoose.connection.transaction(async (session) => {
+            const [accrualEntry] = await AccrualEntry.create([entry], { session });
+            if (entry.days === 0) {
+                return;
+            }
+
+            const ledgerEntry = await postLedgerEntry({
+                employee: entry.employee,
+                leaveType: entry.leaveType,
+                kind: ledgerKind,
+                days: entry.days,
+                accrualEntry: accrualEntry._id,
+                note: `${entry.kind === AccrualEntryKind.CREDIT ? 'Accrual' : 'Year-end lapse'} for ${entry.period}`
+            }, session);
+            // The balance dropped below what lapses since it was read; the rollover can simply be run again
+            if (!ledgerEntry) {
+                throw new Error(`The ${entry.leaveType} balance of employee ${entry.employee} changed during the run. Run it again.`);
+            }
+        });
+        return true;
+    } catch (error: any) {
+        if (error?.code === DUPLICATE_KEY_ERROR) {
+            return false;
+        }
+        throw error;
+    }
+};
+
+const loadExistingEntries = async (kind: AccrualEntryKind, period: string) => {
+    const entries = await AccrualEntry.find({ kind, period }).select('employee leaveType');
+    return new Set(entries.map((entry) => `${entry.employee}:${entry.leaveType}`));
+};
+
+/**
+ * Credits every active employee of the organization under its active policies matching the period's frequency.
+ * Idempotent: employees already credited for the period are reported and skipped.
+ * With `dryRun` nothing is written and the result is a preview.
+ */
+export const runAccrual = async (organization: Types.ObjectId, period: AccrualPeriod, dryRun: boolean): Promise<AccrualRunResult> => {
+    const policies = await AccrualPolicy.find({ organization, active: true, frequency: period.frequency });
+    const employees = await Employee.find({ organization, isActive: { $ne: false }, joiningDate: { $lte: period.end } });
+    const existing = await loadExistingEntries(AccrualEntryKind.CREDIT, period.label);
+
+    const items: AccrualRunItem[] = [];
+
+    for (const policy of policies) {
+        for (const employee of employees) {
+            const days = calculateAccrualDays(policy, employee, period);
+            if (days <= 0) {
+                continue;
+            }
+
+            const item: AccrualRunItem = {
+                employee: employee.id,
+                fullName: employee.fullName,
+                leaveType: policy.leaveType,
+                days,
+                status: AccrualRunStatus.PREVIEW
+            };
+            items.push(item);
+
+            if (existing.has(`${employee.id}:${policy.leaveType}`)) {
+                item.status = AccrualRunStatus.ALREADY_APPLIED;
+                continue;
+            }
+            if (dryRun) {
+                continue;
+            }
+
+            const recorded = await applyEntry({
+                employee: employee._id,
+                policy: policy._id,
+                leaveType: policy.leaveType,
+                kind: AccrualEntryKind.CREDIT,
+                period: period.label,
+                days
+            }, LedgerEntryKind.ACCRUAL);
+            if (!recorded) {
+                item.status = AccrualRunStatus.ALREADY_APPLIED;
+                continue;
+            }
+            item.status = AccrualRunStatus.APPLIED;
+        }
+    }
+
+    return {
+        period: period.label,
+        dryRun,
+        totalDays: roundDays(items
+            .filter((item) => item.status !== AccrualRunStatus.ALREADY_APPLIED)
+            .reduce((total, item) => total + item.days, 0)),
+        items
+    };
+};
+
+/**
+ * Closes a past year for every active policy of the organization: up to `carryForwardCap` of the days left
+ * on Dec 31 (from the ledger) are kept, the rest lapses. Days credited or taken since don't count, but a lapse
+ * never takes the current balance below zero. Idempotent per employee, leave type and year.
+ * With `dryRun` nothing is written and the result is a preview.
+ */
+export const runYearEndRollover = async (organization: Types.ObjectId, year: number, dryRun: boolean): Promise<AccrualRunResult> => {
+    const period = String(year);
+    const yearEnd = new Date(Date.UTC(year, 11, 31));
+    const nextYearStart = new Date(Date.UTC(year + 1, 0, 1));
+
+    const policies = await AccrualPolicy.find({ organization, active: true });
+    const employees = await Employee.find({ organization, isActive: { $ne: false }, joiningDate: { $lte: yearEnd } });
+    const existing = await loadExistingEntries(AccrualEntryKind.YEAR_END, period);
+
+    const items: AccrualRunItem[] = [];
+
+    for (const policy of policies) {
+        const yearEndBalances = await getLedgerBalancesBefore(employees.map((employee) => employee._id), policy.leaveType, nextYearStart);
+
+        for (const employee of employees) {
+            const balance = Math.max(0, yearEndBalances.get(employee.id) ?? 0);
+            const carriedForward = Math.min(balance, policy.carryForwardCap);
+            const lapsed = roundDays(Math.min(balance - carriedForward, Math.max(0, employee.leaveBalances[policy.leaveType] ?? 0)));
+
+            const item: AccrualRunItem = {
+                employee: employee.id,
+                fullName: employee.fullName,
+                leaveType: policy.leaveType,
+                days: -lapsed,
+                carriedForward,
+                lapsed,
+                status: AccrualRunStatus.PREVIEW
+            };
+            items.push(item);
+
+            if (existing.has(`${employee.id}:${policy.leaveType}`)) {
+                item.status = AccrualRunStatus.ALREADY_APPLIED;
+                continue;
+            }
+            if (dryRun) {
+                continue;
+            }
+
+            const recorded = await applyEntry({
+                employee: employee._id,
+                policy: policy._id,
+                leaveType: policy.leaveType,
+                kind: AccrualEntryKind.YEAR_END,
+                period,
+                days: -lapsed,
+                carriedForward,
+                lapsed
+            }, LedgerEntryKind.LAPSE);
+            if (!recorded) {
+                item.status = AccrualRunStatus.ALREADY_APPLIED;
+                continue;
+            }
+            item.status = AccrualRunStatus.APPLIED;
+        }
+    }
+
+    return {
+        period,
+        dryRun,
+        totalDays: roundDays(items
+            .filter((item) => item.status !== AccrualRunStatus.ALREADY_APPLIED)
+            .reduce((total, item) => total + item.days, 0)),
+        items
+    };
+};
@@ -0,0 +1,109 @@
+import { FilterQuery } from 'mongoose';
+import { IEmployee, Role } from '@/models/employee.model';
+import { ApprovalLevel, ApprovalStepStatus, IApprovalStep, ILeave, LeaveStatus } from '@/models/leave.model';
+import { getHrApprovalThresholdDays } from '@/config/approval';
+import { IDelegation } from '@/models/delegation.model';
+import { getActiveDelegations } from '@/services/delegation.service';
+
+/**
+ * Builds the approval chain for a new leave request:
+ * 1. the employee's reporting manager, if they have one;
+ * 2. HR, when the leave is longer than HR_APPROVAL_THRESHOLD_DAYS or there is no manager.
+ */
+export const buildApprovalChain = (employee: IEmployee, chargedDays: number): IApprovalStep[] => {
+    const steps: IApprovalStep[] = [];
+
+    if (employee.reportingManager) {
+        steps.push({
+            level: ApprovalLevel.MANAGER,
+            approver: employee.reportingManager,
+            status: ApprovalStepStatus.PENDING
+        });
+    }
+
+    if (!employee.reportingManager || chargedDays > getHrApprovalThresholdDays()) {
+        steps.push({ level: ApprovalLevel.HR, status: ApprovalStepStatus.PENDING });
+    }
+
+    return steps;
+};
+
+/**
+ * Returns the step waiting for a decision, or undefined for leaves filed before
+ * approval chains existed (those keep the one-shot decision).
+ */
+export const getCurrentStep = (leave: ILeave): IApprovalStep | undefined => {
+    return leave.approvalSteps?.[leave.currentStep];
+};
+
+/**
+ * Copies the current step's level and approver onto the leave, or clears them
+ * once the leave is no longer waiting for a decision.
+ */
+export const syncPendingStep = (leave: ILeave) => {
+    const step = leave.status === LeaveStatus.PENDING ? getCurrentStep(leave) : undefined;
+    leave.pendingLevel = step?.level;
+    leave.pendingApprover = step?.approver;
+};
+
+/**
+ * Checks whether a step is assigned to the user: a manager step to its manager, an HR step to HR.
+ */
+const holdsStep = (user: IEmployee, step: IApprovalStep): boolean => {
+    if (step.level === ApprovalLevel.MANAGER) {
+        return String(step.approver) === user.id;
+    }
+    return user.role === Role.HR;
+};
+
+/**
+ * Checks whether a user may decide on the given step.
+ * Manager steps belong to the assigned manager, HR steps to HR; admins can act on any step.
+ */
+export const canDecideStep = (user: IEmployee, step: IApprovalStep | undefined): boolean => {
+    if (user.role === Role.ADMIN) {
+        return true;
+    }
+    if (!step) {
+        return [Role.MANAGER, Role.HR].includes(user.role);
+    }
+    return holdsStep(user, step);
+};
+
+/**
+ * Finds an active delegation that lets the user decide on the step in someone else's place.
+ * Only the step's own approver can be stood in for; an admin delegator does not pass on the admin override.
+ */
+export const findActingDelegation = async (user: IEmployee, step: IApprovalStep | undefined): Promise<{ delegation: IDelegation; delegator: IEmployee } | undefined> => {
+    if (!step) {
+        return undefined;
+    }
+    const delegations = await getActiveDelegations(user._id);
+    return delegations.find(({ delegator }) => holdsStep(delegator, step));
+};
+
+/**
+ * Query for the pending leaves of the user's organization whose current step is waiting on them,
+ * including those of the approvers they currently stand in for (except their own leaves).
+ */
+export const pendingApprovalFilter = async (user: IEmployee): Promise<FilterQuery<ILeave>> => {
+    if (user.role === Role.ADMIN) {
+        return { organization: user.organization, status: LeaveStatus.PENDING };
+    }
+
+    const waitingOn: FilterQuery<ILeave>[] = [
+        { pendingApprover: user._id }
+    ];
+    if (user.role === Role.HR) {
+        waitingOn.push({ pendingLevel: ApprovalLevel.HR });
+    }
+
+    for (const { delegator } of await getActiveDelegations(user._id)) {
+        waitingOn.push({ pendingLevel: ApprovalLevel.MANAGER, pendingApprover: delegator._id, employeId: { $ne: user._id } });
+        if (delegator.role === Role.HR) {
+            waitingOn.push({ pendingLevel: ApprovalLevel.HR, employeId: { $ne: user._id } });
+        }
+    }
+
+    return { organization: user.organization, status: LeaveStatus.PENDING, $or: waitingOn };
+};
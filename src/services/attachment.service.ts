@@ -0,0 +1,52 @@
+import { randomBytes } from 'crypto';
+import { Types } from 'mongoose';
+import { createFileStorage, FileStorage } from '@/config/storage';
+
+let storage: FileStorage | undefined;
+
+// File extension stored with each accepted type
+const EXTENSIONS: Record<string, string> = {
+    'application/pdf': '.pdf',
+    'image/jpeg': '.jpg',
+    'image/png': '.png'
+};
+
+/**
+ * Returns the storage chosen by ATTACHMENT_STORAGE, created on first use.
+ */
+export const getFileStorage = (): FileStorage => {
+    if (!storage) {
+        storage = createFileStorage();
+    }
+    return storage;
+};
+
+/**
+ * Replaces the storage, e.g. with an in-memory one in tests.
+ */
+export const setFileStorage = (replacement: FileStorage) => {
+    storage = replacement;
+};
+
+/**
+ * Recognizes the accepted file types from their first bytes, since the type sent by the client can't be trusted.
+ * Returns undefined for anything else.
+ */
+export const detectFileType = (data: Buffer): string | undefined => {
+    if (data.subarray(0, 5).toString('latin1') === '%PDF-') {
+        return 'application/pdf';
+    }
+    if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+        return 'image/jpeg';
+    }
+    if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+        return 'image/png';
+    }
+    return undefined;
+};
+
+/**
+ * A new, unguessable storage key for a file of the given leave.
+ */
+export const buildStorageKey = (leaveId: Types.ObjectId, mimeType: string) =>
+    `leaves/${leaveId}/${randomBytes(16).toString('hex')}${EXTENSIONS[mimeType] ?? ''}`;
@@ -0,0 +1,100 @@
+import { PersistenceSession } from '@/config/persistence';
+import { AuditAction, AuditEntityType, IFieldChange, MAX_AUDIT_COMMENT_LENGTH } from '@/models/auditLog.model';
+import { IEmployee } from '@/models/employee.model';
+import { BALANCE_LEAVE_TYPES, ILeave, LeaveStatus } from '@/models/leave.model';
+import { getRepositories } from '@/services/persistence.service';
+
+/**
+ * Cuts a comment short to what an entry keeps. Comments are often a description of the change
+ * followed by the user's own comment, which alone may already take up the whole length.
+ */
+const toAuditComment = (comment?: string) =>
+    comment && comment.length > MAX_AUDIT_COMMENT_LENGTH ? `${comment.slice(0, MAX_AUDIT_COMMENT_LENGTH - 1)}…` : comment;
+
+interface LeaveEvent {
+    leave: ILeave;
+    actor?: IEmployee;
+    action: AuditAction;
+    fromStatus?: LeaveStatus;
+    comment?: string;
+    session?: PersistenceSession;
+}
+
+/**
+ * Appends an entry to a leave's history. The `toStatus` is the leave's current status,
+ * so call this after changing the status. Pass the session of the surrounding transaction, if any.
+ */
+export const recordLeaveEvent = async ({ leave, actor, action, fromStatus, comment, session }: LeaveEvent) => {
+    await getRepositories().auditLogs.create({
+        entityType: AuditEntityType.LEAVE,
+        entityId: leave._id,
+        action,
+        actor: actor?._id,
+        fromStatus,
+        toStatus: leave.status,
+        comment: toAuditComment(comment)
+    }, session);
+};
+
+export type EmployeeSnapshot = Record<string, unknown>;
+
+/**
+ * Captures the audited fields of an employee so changes can be diffed after an update.
+ * The password is never included.
+ */
+export const snapshotEmployee = (employee: IEmployee): EmployeeSnapshot => {
+    const snapshot: EmployeeSnapshot = {
+        fullName: employee.fullName,
+        email: employee.email,
+        role: employee.role,
+        department: employee.department,
+        location: employee.location,
+        reportingManager: employee.reportingManager ? String(employee.reportingManager) : undefined,
+        joiningDate: employee.joiningDate ? new Date(employee.joiningDate).toISOString() : undefined,
+        isActive: employee.isActive,
+        emailNotifications: employee.emailNotifications
+    };
+    for (const type of BALANCE_LEAVE_TYPES) {
+        snapshot[`leaveBalances.${type}`] = employee.leaveBalances?.[type];
+    }
+    return snapshot;
+};
+
+/**
+ * Lists the fields whose values differ between two snapshots.
+ */
+export const diffSnapshots = (before: EmployeeSnapshot, after: EmployeeSnapshot): IFieldChange[] => {
+    return Object.keys(after)
+        .filter((field) => before[field] !== after[field])
+        .map((field) => ({ field, from: before[field], to: after[field] }));
+};
+
+interface EmployeeEvent {
+    employee: IEmployee;
+    actor?: IEmployee;
+    action: AuditAction;
+    changes?: IFieldChange[];
+    comment?: string;
+    session?: PersistenceSession;
+}
+
+/**
+ * Appends an entry to an employee's history.
+ */
+export const recordEmployeeEvent = async ({ employee, actor, action, changes = [], comment, session }: EmployeeEvent) => {
+    await getRepositories().auditLogs.create({
+        entityType: AuditEntityType.EMPLOYEE,
+        entityId: employee._id,
+        action,
+        actor: actor?._id,
+        changes,
+        comment: toAuditComment(comment)
+    }, session);
+};
+
+/**
+ * Returns the full history of an entity, oldest first.
+ */
+export const getHistory = (entityType: AuditEntityType, entityId: string) => {
+    return getRepositories().auditLogs.findHistory(entityType, entityId);
+};
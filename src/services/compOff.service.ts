@@ -0,0 +1,162 @@
+import mongoose, { FilterQuery, Types } from 'mongoose';
+import CompOff, { CompOffStatus, ICompOff } from '@/models/compOff.model';
+import Employee, { IEmployee, Role } from '@/models/employee.model';
+import { ApprovalLevel, ApprovalStepStatus, IApprovalStep, LeaveType } from '@/models/leave.model';
+import { LedgerEntryKind } from '@/models/ledgerEntry.model';
+import { getCompOffExpiryCheckIntervalMs, getCompOffHoursPerDay } from '@/config/compOff';
+import { getActiveDelegations } from '@/services/delegation.service';
+import { postLedgerEntry } from '@/services/ledger.service';
+import { toDayKey, toUtcDay } from '@/utils/leaveDuration';
+
+export interface CompOffExpiryResult {
+    employees: number;
+    expiredDays: number;
+}
+
+let expiring: Promise<CompOffExpiryResult> | undefined;
+
+const roundDays = (days: number) => Math.round(days * 100) / 100;
+
+/**
+ * Days credited for hours worked: in half days, at most one day per day worked.
+ * Less than half of COMP_OFF_HOURS_PER_DAY earns nothing.
+ */
+export const calculateCompOffDays = (hours: number): number => {
+    return Math.min(1, Math.floor((hours / getCompOffHoursPerDay()) * 2) / 2);
+};
+
+/**
+ * The claim's approval as an approval step, so the leave approval checks and delegations apply to it.
+ */
+export const toApprovalStep = (claim: ICompOff): IApprovalStep => ({
+    level: claim.approverLevel,
+    approver: claim.approver,
+    status: ApprovalStepStatus.PENDING
+});
+
+/**
+ * Query for the pending claims of the user's organization waiting on them, including those of the approvers
+ * they currently stand in for (except their own claims).
+ */
+export const pendingCompOffFilter = async (user: IEmployee): Promise<FilterQuery<ICompOff>> => {
+    if (user.role === Role.ADMIN) {
+        return { organization: user.organization, status: CompOffStatus.PENDING };
+    }
+
+    const waitingOn: FilterQuery<ICompOff>[] = [
+        { approver: user._id }
+    ];
+    if (user.role === Role.HR) {
+        waitingOn.push({ approverLevel: ApprovalLevel.HR });
+    }
+
+    for (const { delegator } of await getActiveDelegations(user._id)) {
+        waitingOn.push({ approverLevel: ApprovalLevel.MANAGER, approver: delegator._id, employee: { $ne: user._id } });
+        if (delegator.role === Role.HR) {
+            waitingOn.push({ approverLevel: ApprovalLevel.HR, employee: { $ne: user._id } });
+        }
+    }
+
+    return { organization: user.organization, status: CompOffStatus.PENDING, $or: waitingOn };
+};
+
+/**
+ * Lapses whatever is left of one employee's expired comp-off credit.
+ * The balance is spent oldest credit first, so the unused part belongs to the most recent credits:
+ * everything above the credit that is still valid is taken from the expiring claims, newest first.
+ */
+const expireEmployeeCredits = async (employeeId: Types.ObjectId, today: Date): Promise<number> => {
+    let expiredDays = 0;
+
+    await mongoose.connection.transaction(async (session) => {
+        expiredDays = 0;
+        const [employee, claims] = await Promise.all([
+            Employee.findById(employeeId).select('leaveBalances').session(session),
+            CompOff.find({ employee: employeeId, status: CompOffStatus.APPROVED, expiredAt: { $exists: false } })
+                .sort({ expiresOn: 1, _id: 1 })
+                .session(session)
+        ]);
+        if (!employee) {
+            return;
+        }
+
+        const expired = claims.filter((claim) => claim.expiresOn <= today);
+        const stillValid = claims
+            .filter((claim) => claim.expiresOn > today)
+            .reduce((total, claim) => total + claim.days, 0);
+        let unused = Math.max(0, roundDays((employee.leaveBalances[LeaveType.COMP_OFF] ?? 0) - stillValid));
+
+        const now = new Date();
+        for (const claim of expired.reverse()) {
+            const lapsed = Math.min(unused, claim.days);
+            unused = roundDays(unused - lapsed);
+
+            claim.expiredAt = now;
+            claim.expiredDays = lapsed;
+            await claim.save({ session });
+
+            if (lapsed > 0) {
+                const entry = await postLedgerEntry({
+                    employee: employeeId,
+                    leaveType: LeaveType.COMP_OFF,
+                    kind: LedgerEntryKind.LAPSE,
+                    days: -lapsed,
+                    compOff: claim._id,
+                    note: `Unused comp-off for ${toDayKey(claim.workedOn)} expired`
+                }, session);
+                // The balance was spent since it was read; try again on the next run
+                if (!entry) {
+                    throw new Error(`The COMP_OFF balance of employee ${employeeId} changed during expiry`);
+                }
+                expiredDays += lapsed;
+            }
+        }
+    });
+
+    return expiredDays;
+};
+
+/**
+ * Expires every approved comp-off claim whose expiresOn has been reached, lapsing the unused credit.
+ * An employee that fails is logged and retried on the next run. Overlapping calls share the same run.
+ */
+export const expireCompOffCredits = (): Promise<CompOffExpiryResult> => {
+    if (!expiring) {
+        expiring = (async () => {
+            const result: CompOffExpiryResult = { employees: 0, expiredDays: 0 };
+            try {
+                const today = toUtcDay(new Date());
+                const employeeIds: Types.ObjectId[] = await CompOff.distinct('employee', {
+                    status: CompOffStatus.APPROVED,
+                    expiresOn: { $lte: today },
+                    expiredAt: { $exists: false }
+                });
+
+                for (const employeeId of employeeIds) {
+                    try {
+                        result.expiredDays = roundDays(result.expiredDays + await expireEmployeeCredits(employeeId, today));
+                        result.employees += 1;
+                    } catch (error) {
+                        console.error(`Failed to expire comp-off credit of employee ${employeeId}:`, error);
+                    }
+                }
+            } catch (error) {
+                console.error('Comp-off expiry failed:', error);
+            } finally {
+                expiring = undefined;
+            }
+            return result;
+        })();
+    }
+    return expiring;
+};
+
+/**
+ * Looks for expired comp-off credit every COMP_OFF_EXPIRY_CHECK_INTERVAL_MS milliseconds, hourly by default.
+ */
+export const startCompOffExpiryWorker = () => {
+    const timer = setInterval(expireCompOffCredits, getCompOffExpiryCheckIntervalMs());
+    timer.unref();
+    expireCompOffCredits();
+    return timer;
+};
@@ -0,0 +1,82 @@
+import { FilterQuery, Types } from 'mongoose';
+import { DelegationSource, IDelegation } from '@/models/delegation.model';
+import { IEmployee, Role } from '@/models/employee.model';
+import { ILeave, LeaveStatus } from '@/models/leave.model';
+import { getRepositories } from '@/services/persistence.service';
+import { toUtcDay } from '@/utils/leaveDuration';
+
+/**
+ * Query for the delegations in effect on the given day: started, not ended and not revoked.
+ */
+export const activeDelegationFilter = (at: Date = new Date()): FilterQuery<IDelegation> => {
+    const day = toUtcDay(at);
+    return { revokedAt: { $exists: false }, startDate: { $lte: day }, endDate: { $gte: day } };
+};
+
+/**
+ * The active approvers the user currently stands in for, with the delegation that allows it.
+ * A deactivated delegator's delegations no longer count.
+ */
+export const getActiveDelegations = async (delegateId: Types.ObjectId): Promise<{ delegation: IDelegation; delegator: IEmployee }[]> => {
+    const repositories = getRepositories();
+    const delegations = await repositories.delegations.findActiveForDelegate(delegateId);
+    if (!delegations.length) {
+        return [];
+    }
+
+    const delegators = await repositories.employees.findByIds(delegations.map((delegation) => delegation.delegator));
+    return delegations.flatMap((delegation) => {
+        const delegator = delegators.find((employee) => employee._id.equals(delegation.delegator) && employee.isActive !== false);
+        return delegator ? [{ delegation, delegator }] : [];
+    });
+};
+
+/**
+ * Hands an approver's approval rights to their own reporting manager for the time of an approved leave.
+ * Only employees who approve something (HR, or anyone with active direct reports) get one, and only
+ * if their reporting manager is active. Never throws: a failure is logged and the leave stays approved.
+ */
+export const delegateDuringLeave = async (leave: ILeave) => {
+    try {
+        const repositories = getRepositories();
+        const employee = await repositories.employees.findById(leave.employeId);
+        if (!employee?.reportingManager) {
+            return;
+        }
+
+        const isApprover = employee.role === Role.HR || await repositories.employees.hasActiveReports(employee._id);
+        const manager = isApprover ? await repositories.employees.findById(employee.reportingManager) : null;
+        if (!manager || manager.isActive === false) {
+            return;
+        }
+
+        await repositories.delegations.create({
+            organization: leave.organization,
+            delegator: employee._id,
+            delegate: manager._id,
+            startDate: toUtcDay(leave.startDate),
+            endDate: toUtcDay(leave.endDate),
+            reason: `On leave (${leave.leaveType})`,
+            source: DelegationSource.LEAVE,
+            leave: leave._id
+        });
+    } catch (error) {
+        console.error(`Failed to set up the approval delegation for leave ${leave._id}:`, error);
+    }
+};
+
+/**
+ * Brings the delegation created from a leave in line with it after a cancellation:
+ * revoked when the leave is no longer taken, shortened when it was cut short. Never throws.
+ */
+export const syncLeaveDelegation = async (leave: ILeave, actorId?: Types.ObjectId) => {
+    try {
+        if (leave.status === LeaveStatus.APPROVED) {
+            await getRepositories().delegations.endForLeave(leave._id, toUtcDay(leave.endDate));
+        } else {
+            await getRepositories().delegations.revokeForLeave(leave._id, actorId);
+        }
+    } catch (error) {
+        console.error(`Failed to update the approval delegation for leave ${leave._id}:`, error);
+    }
+};
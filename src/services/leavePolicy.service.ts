@@ -0,0 +1,92 @@
+import { Types } from 'mongoose';
+import { LeaveType } from '@/models/leave.model';
+import { ILeavePolicy, PolicyRule } from '@/models/leavePolicy.model';
+import { getRepositories } from '@/services/persistence.service';
+import { toDayKey, toUtcDay } from '@/utils/leaveDuration';
+
+const MS_PER_DAY = 1000 * 3600 * 24;
+
+export interface PolicyViolation {
+    policy: string;
+    policyName: string;
+    rule: PolicyRule;
+    message: string;
+}
+
+export interface PolicyCheckInput {
+    organization: Types.ObjectId;
+    department: string;
+    leaveType: LeaveType;
+    joiningDate: Date;
+    startDate: Date;
+    endDate: Date;
+    // Day the request is made; defaults to today
+    requestedOn?: Date;
+}
+
+/**
+ * Active policies of the organization covering a department and leave type: those scoped to them
+ * plus those that leave the department or leave type unset.
+ */
+export const getApplicablePolicies = (organization: Types.ObjectId, department?: string, leaveType?: LeaveType) => {
+    return getRepositories().leavePolicies.findApplicable(organization, department, leaveType);
+};
+
+const daysBetween = (from: Date, to: Date) => Math.round((toUtcDay(to).getTime() - toUtcDay(from).getTime()) / MS_PER_DAY);
+
+/**
+ * Lists the rules of one policy that a leave request breaks.
+ */
+export const checkPolicy = (policy: ILeavePolicy, input: PolicyCheckInput): PolicyViolation[] => {
+    const violations: PolicyViolation[] = [];
+    const violation = (rule: PolicyRule, message: string) => violations.push({
+        policy: String(policy._id),
+        policyName: policy.name,
+        rule,
+        message
+    });
+
+    const noticeDays = daysBetween(input.requestedOn ?? new Date(), input.startDate);
+    if (policy.minNoticeDays != null && noticeDays < policy.minNoticeDays) {
+        violation(PolicyRule.MIN_NOTICE, `Leave must be requested at least ${policy.minNoticeDays} days in advance; this request gives ${noticeDays}.`);
+    }
+
+    const consecutiveDays = daysBetween(input.startDate, input.endDate) + 1;
+    if (policy.maxConsecutiveDays != null && consecutiveDays > policy.maxConsecutiveDays) {
+        violation(PolicyRule.MAX_CONSECUTIVE_DAYS, `A single leave can be at most ${policy.maxConsecutiveDays} consecutive days; this one is ${consecutiveDays}.`);
+    }
+
+    if (policy.probationDays != null) {
+        const probationEnd = new Date(toUtcDay(input.joiningDate).getTime() + policy.probationDays * MS_PER_DAY);
+        if (toUtcDay(input.startDate) < probationEnd) {
+            violation(PolicyRule.PROBATION, `This leave can't be taken during the first ${policy.probationDays} days after joining, i.e. before ${toDayKey(probationEnd)}.`);
+        }
+    }
+
+    for (const blackout of policy.blackoutPeriods) {
+        if (toUtcDay(input.startDate) <= toUtcDay(blackout.endDate) && toUtcDay(input.endDate) >= toUtcDay(blackout.startDate)) {
+            violation(PolicyRule.BLACKOUT, `No leave between ${toDayKey(blackout.startDate)} and ${toDayKey(blackout.endDate)}: ${blackout.reason}.`);
+        }
+    }
+
+    return violations;
+};
+
+/**
+ * Checks a leave request against every active policy that covers the employee's department and the leave type.
+ */
+export const checkLeavePolicies = async (input: PolicyCheckInput): Promise<PolicyViolation[]> => {
+    const policies = await getApplicablePolicies(input.organization, input.department, input.leaveType);
+    return policies.flatMap((policy) => checkPolicy(policy, input));
+};
+
+/**
+ * Names the active policies that require a supporting document for a leave of this many charged days.
+ * An empty list means the leave can be approved without one.
+ */
+export const getDocumentRequiringPolicies = async (organization: Types.ObjectId, department: string, leaveType: LeaveType, chargedDays: number): Promise<string[]> => {
+    const policies = await getApplicablePolicies(organization, department, leaveType);
+    return policies
+        .filter((policy) => policy.documentRequiredAfterDays != null && chargedDays > policy.documentRequiredAfterDays)
+        .map((policy) => policy.name);
+};
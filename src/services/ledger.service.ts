@@ -0,0 +1,124 @@
+import { Types } from 'mongoose';
+import { PersistenceSession } from '@/config/persistence';
+import { IEmployee } from '@/models/employee.model';
+import LedgerEntry, { ILedgerEntry, LedgerEntryKind } from '@/models/ledgerEntry.model';
+import { BALANCE_LEAVE_TYPES, BalanceLeaveType, ILeave, isBalanceLeaveType } from '@/models/leave.model';
+import { getRepositories } from '@/services/persistence.service';
+
+export interface LedgerChange {
+    employee: Types.ObjectId;
+    leaveType: BalanceLeaveType;
+    kind: LedgerEntryKind;
+    days: number;
+    leave?: Types.ObjectId;
+    accrualEntry?: Types.ObjectId;
+    compOff?: Types.ObjectId;
+    actor?: Types.ObjectId;
+    note?: string;
+    // Deductions fail instead of taking the balance below zero unless this is set
+    allowNegative?: boolean;
+}
+
+export interface BalanceReconciliation {
+    leaveType: BalanceLeaveType;
+    balance: number;
+    ledgerBalance: number;
+    difference: number;
+    consistent: boolean;
+}
+
+const roundDays = (days: number) => Math.round(days * 100) / 100;
+
+/**
+ * Applies a change to an employee's balance and writes the matching ledger entry.
+ * The balance is changed with an atomic `$inc`, guarded so a deduction can't take it below zero.
+ * Returns null (and changes nothing) if the employee doesn't exist or the balance is insufficient.
+ * Pass the session of the surrounding transaction so the entry commits together with its cause.
+ */
+export const postLedgerEntry = async (change: LedgerChange, session?: PersistenceSession): Promise<ILedgerEntry | null> => {
+    const repositories = getRepositories();
+    const employee = await repositories.employees.adjustBalance(change.employee, change.leaveType, change.days, !!change.allowNegative, session);
+    if (!employee) {
+        return null;
+    }
+
+    const [entry] = await repositories.ledgerEntries.create([{
+        employee: change.employee,
+        leaveType: change.leaveType,
+        kind: change.kind,
+        days: change.days,
+        balanceAfter: employee.leaveBalances[change.leaveType],
+        leave: change.leave,
+        accrualEntry: change.accrualEntry,
+        compOff: change.compOff,
+        actor: change.actor,
+        note: change.note
+    }], session);
+
+    return entry;
+};
+
+/**
+ * Records the balances a new employee starts with as the first entries of their ledger.
+ * The balances are already on the employee document, so nothing is incremented.
+ */
+export const recordOpeningBalances = async (employee: IEmployee, actor?: Types.ObjectId, session?: PersistenceSession) => {
+    await getRepositories().ledgerEntries.create(BALANCE_LEAVE_TYPES.map((leaveType) => ({
+        employee: employee._id,
+        leaveType,
+        kind: LedgerEntryKind.OPENING_BALANCE,
+        days: employee.leaveBalances[leaveType] ?? 0,
+        balanceAfter: employee.leaveBalances[leaveType] ?? 0,
+        actor
+    })), session);
+};
+
+/**
+ * Gives days back to the employee's balance for the leave's type. Unpaid leave is ignored.
+ * The caller lowers the leave's `deductedDays` and saves it within the same transaction.
+ */
+export const restoreLeaveBalance = async (leave: ILeave, days: number, actor?: Types.ObjectId, session?: PersistenceSession) => {
+    if (!isBalanceLeaveType(leave.leaveType) || days <= 0) {
+        return;
+    }
+    await postLedgerEntry({
+        employee: leave.employeId,
+        leaveType: leave.leaveType,
+        kind: LedgerEntryKind.RESTORATION,
+        days,
+        leave: leave._id,
+        actor
+    }, session);
+};
+
+/**
+ * Balance of one leave type per employee as it stood just before `before`, summed from their ledger entries.
+ * Employees without entries by then are missing from the map.
+ */
+export const getLedgerBalancesBefore = async (employees: Types.ObjectId[], leaveType: BalanceLeaveType, before: Date): Promise<Map<string, number>> => {
+    const totals = await LedgerEntry.aggregate<{ _id: Types.ObjectId; total: number }>([
+        { $match: { employee: { $in: employees }, leaveType, createdAt: { $lt: before } } },
+        { $group: { _id: '$employee', total: { $sum: '$days' } } }
+    ]);
+    return new Map(totals.map((total) => [String(total._id), roundDays(total.total)]));
+};
+
+/**
+ * Recomputes every balance of an employee from their ledger and compares it with the stored balance.
+ * Employees created before the ledger existed have no opening entry, so they show up as inconsistent
+ * until an adjustment brings the ledger in line.
+ */
+export const reconcileBalances = async (employee: IEmployee): Promise<BalanceReconciliation[]> => {
+    const totals = await LedgerEntry.aggregate<{ _id: BalanceLeaveType; total: number }>([
+        { $match: { employee: employee._id } },
+        { $group: { _id: '$leaveType', total: { $sum: '$days' } } }
+    ]);
+    const ledgerBalances = new Map(totals.map((total) => [total._id, total.total]));
+
+    return BALANCE_LEAVE_TYPES.map((leaveType) => {
+        const balance = employee.leaveBalances[leaveType] ?? 0;
+        const ledgerBalance = roundDays(ledgerBalances.get(leaveType) ?? 0);
+        const difference = roundDays(balance - ledgerBalance);
+        return { leaveType, balance, ledgerBalance, difference, consistent: difference === 0 };
+    });
+};
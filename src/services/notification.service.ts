@@ -0,0 +1,104 @@
+import { IEmployee, Role } from '@/models/employee.model';
+import { ApprovalLevel, ILeave } from '@/models/leave.model';
+import { createMailTransport, getMailFrom, MailTransport } from '@/config/mail';
+import { getCurrentStep } from '@/services/approval.service';
+import { getRepositories } from '@/services/persistence.service';
+import { approvalRequestedEmail, EmailContent, leaveDecidedEmail, LeaveSummary } from '@/utils/emailTemplates';
+
+let transport: MailTransport | undefined;
+
+/**
+ * Returns the transport chosen by MAIL_TRANSPORT, created on first use.
+ */
+export const getMailTransport = (): MailTransport => {
+    if (!transport) {
+        transport = createMailTransport();
+    }
+    return transport;
+};
+
+/**
+ * Replaces the transport, e.g. with a recording one in tests.
+ */
+export const setMailTransport = (replacement: MailTransport) => {
+    transport = replacement;
+};
+
+type Recipient = Pick<IEmployee, 'fullName' | 'email' | 'isActive' | 'emailNotifications'>;
+
+/**
+ * Sends one email unless the recipient has left or opted out.
+ * Delivery failures are logged and never thrown, so they can't fail the API request that caused them.
+ */
+const sendEmail = async (recipient: Recipient, content: EmailContent): Promise<boolean> => {
+    if (recipient.isActive === false || recipient.emailNotifications === false) {
+        return false;
+    }
+    try {
+        await getMailTransport().send({ from: getMailFrom(), to: recipient.email, ...content });
+        return true;
+    } catch (error) {
+        console.error(`Failed to send "${content.subject}" to ${recipient.email}:`, error);
+        return false;
+    }
+};
+
+const summarizeLeave = (leave: ILeave, employee: Pick<IEmployee, 'fullName'>): LeaveSummary => ({
+    employeeName: employee.fullName,
+    leaveType: leave.leaveType,
+    startDate: leave.startDate,
+    endDate: leave.endDate,
+    chargedDays: leave.duration?.chargedDays ?? 0,
+    reason: leave.reason
+});
+
+/**
+ * Tells whoever has to decide the current step of a pending leave that it is waiting on them:
+ * the assigned manager and whoever currently stands in for them for manager steps, every HR employee of the organization for HR steps.
+ * Never rejects; call it without awaiting once the leave is saved.
+ */
+export const notifyApprovalRequested = async (leave: ILeave): Promise<void> => {
+    try {
+        const step = getCurrentStep(leave);
+        if (!step) {
+            return;
+        }
+
+        const repositories = getRepositories();
+        const delegations = step.level === ApprovalLevel.MANAGER && step.approver
+            ? await repositories.delegations.findActiveForDelegator(step.approver)
+            : [];
+        const [employee, candidates] = await Promise.all([
+            repositories.employees.findById(leave.employeId),
+            step.level === ApprovalLevel.MANAGER
+                ? repositories.employees.findByIds([...(step.approver ? [step.approver] : []), ...delegations.map((delegation) => delegation.delegate)])
+                : repositories.employees.findActiveByRole(leave.organization, Role.HR)
+        ]);
+        if (!employee) {
+            return;
+        }
+        const approvers = candidates.filter((approver) => !approver._id.equals(leave.employeId));
+
+        const summary = summarizeLeave(leave, employee);
+        await Promise.all(approvers.map((approver) => sendEmail(approver, approvalRequestedEmail(approver.fullName, summary))));
+    } catch (error) {
+        console.error(`Failed to send approval notifications for leave ${leave._id}:`, error);
+    }
+};
+
+/**
+ * Tells the employee that their leave request was approved or rejected.
+ * Never rejects; call it without awaiting once the decision is saved.
+ */
+export const notifyLeaveDecided = async (leave: ILeave, decidedBy: IEmployee, comment?: string): Promise<void> => {
+    try {
+        const employee = await getRepositories().employees.findById(leave.employeId);
+        if (!employee) {
+            return;
+        }
+
+        await sendEmail(employee, leaveDecidedEmail(employee.fullName, summarizeLeave(leave, employee), leave.status, decidedBy.fullName, comment));
+    } catch (error) {
+        console.error(`Failed to send the decision notification for leave ${leave._id}:`, error);
+    }
+};
@@ -0,0 +1,26 @@
+import { LeaveBalances } from '@/models/employee.model';
+import { DEFAULT_ORGANIZATION_SLUG, IOrganization } from '@/models/organization.model';
+import { BALANCE_LEAVE_TYPES } from '@/models/leave.model';
+import { getRepositories } from '@/services/persistence.service';
+
+/**
+ * The organization existing data was moved into when organizations were introduced.
+ */
+export const getDefaultOrganization = () => {
+    return getRepositories().organizations.findBySlug(DEFAULT_ORGANIZATION_SLUG);
+};
+
+/**
+ * Whether the department is one of the organization's configured departments.
+ */
+export const isKnownDepartment = (organization: IOrganization, department: unknown): department is string => {
+    return typeof department === 'string' && organization.settings.departments.includes(department);
+};
+
+/**
+ * Opening balances for a new employee of the organization.
+ */
+export const getDefaultLeaveBalances = (organization: IOrganization): LeaveBalances => {
+    const defaults = organization.settings.defaultLeaveBalances;
+    return Object.fromEntries(BALANCE_LEAVE_TYPES.map((type) => [type, defaults[type] ?? 0])) as LeaveBalances;
+};
@@ -0,0 +1,24 @@
+import { getPersistenceDriver, PersistenceDriver, Repositories } from '@/config/persistence';
+import { createMongoRepositories } from '@/repositories/mongo.repository';
+import { createMemoryRepositories } from '@/repositories/memory.repository';
+
+let repositories: Repositories | undefined;
+
+/**
+ * Returns the repositories of the driver chosen by PERSISTENCE_DRIVER, created on first use.
+ */
+export const getRepositories = (): Repositories => {
+    if (!repositories) {
+        repositories = getPersistenceDriver() === PersistenceDriver.MEMORY
+            ? createMemoryRepositories()
+            : createMongoRepositories();
+    }
+    return repositories;
+};
+
+/**
+ * Replaces the repositories, e.g. with in-memory ones in tests.
+ */
+export const setRepositories = (replacement: Repositories) => {
+    repositories = replacement;
+};
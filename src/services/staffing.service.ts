@@ -0,0 +1,105 @@
+import { Types } from 'mongoose';
+import { DaySession, IStaffingWarning, LeaveStatus } from '@/models/leave.model';
+import { IStaffingRule } from '@/models/staffingRule.model';
+import { getWeekendDays } from '@/config/workWeek';
+import { getRepositories } from '@/services/persistence.service';
+import { toDayKey, toUtcDay } from '@/utils/leaveDuration';
+
+const MS_PER_DAY = 1000 * 3600 * 24;
+
+// Leaves that keep someone off work
+const ABSENT_STATUSES = [LeaveStatus.APPROVED, LeaveStatus.CANCELLATION_REQUESTED];
+
+export interface StaffingCheckInput {
+    organization: Types.ObjectId;
+    department: string;
+    startDate: Date;
+    endDate: Date;
+    startSession: DaySession;
+    endSession: DaySession;
+    // Holidays of the leave (from its duration breakdown); nobody works on those days
+    holidays: { date: Date }[];
+    // The leave being approved, so it isn't counted twice
+    excludeLeaveId?: Types.ObjectId;
+}
+
+export interface StaffingCheckResult {
+    rule?: IStaffingRule;
+    warnings: IStaffingWarning[];
+}
+
+type DayRange = { startDate: Date; endDate: Date; startSession: DaySession; endSession: DaySession };
+
+/**
+ * How much of the given day a leave takes: 1 for a full day, 0.5 for a half day, 0 if it doesn't cover it.
+ */
+const absenceOnDay = (leave: DayRange, day: number): number => {
+    const start = toUtcDay(leave.startDate).getTime();
+    const end = toUtcDay(leave.endDate).getTime();
+    if (day < start || day > end) {
+        return 0;
+    }
+    if ((day === start && leave.startSession !== DaySession.FULL_DAY) || (day === end && leave.endSession !== DaySession.FULL_DAY)) {
+        return 0.5;
+    }
+    return 1;
+};
+
+const describeViolation = (rule: IStaffingRule, day: number, headcount: number, absent: number): string | undefined => {
+    const date = toDayKey(new Date(day));
+    if (rule.maxConcurrentAbsences != null && absent > rule.maxConcurrentAbsences) {
+        return `${absent} of ${headcount} people in ${rule.department} would be off on ${date}; at most ${rule.maxConcurrentAbsences} may be off at once.`;
+    }
+    const presentPercent = headcount ? ((headcount - absent) / headcount) * 100 : 0;
+    if (rule.minPresentPercent != null && presentPercent < rule.minPresentPercent) {
+        return `Only ${Math.round(presentPercent)}% of ${rule.department} would be present on ${date}; at least ${rule.minPresentPercent}% must be present.`;
+    }
+    return undefined;
+};
+
+/**
+ * Checks a leave against the active staffing rule of the employee's department.
+ * Every working day of the leave is checked: the people already off (and, if the rule says so,
+ * those with pending requests) plus this leave are compared with the department's headcount that day.
+ * Returns no rule when the department has none.
+ */
+export const checkStaffing = async (input: StaffingCheckInput): Promise<StaffingCheckResult> => {
+    const repositories = getRepositories();
+    const rule = await repositories.staffingRules.findActive(input.organization, input.department);
+    if (!rule) {
+        return { warnings: [] };
+    }
+
+    const start = toUtcDay(input.startDate);
+    const end = toUtcDay(input.endDate);
+
+    // Everyone employed at some point during the leave
+    const employees = await repositories.employees.findEmployedDuring(input.organization, input.department, start, end);
+
+    const statuses = rule.countPending ? [...ABSENT_STATUSES, LeaveStatus.PENDING] : ABSENT_STATUSES;
+    const others = await repositories.leaves.findAbsences(employees.map((employee) => employee._id), statuses, start, end, input.excludeLeaveId);
+
+    const weekendDays = getWeekendDays();
+    const holidays = new Set(input.holidays.map((holiday) => toDayKey(holiday.date)));
+    const warnings: IStaffingWarning[] = [];
+
+    for (let day = start.getTime(); day <= end.getTime(); day += MS_PER_DAY) {
+        const current = new Date(day);
+        if (weekendDays.includes(current.getUTCDay()) || holidays.has(toDayKey(current))) {
+            continue;
+        }
+
+        const headcount = employees.filter((employee) =>
+            toUtcDay(employee.joiningDate).getTime() <= day &&
+            (employee.isActive !== false || !employee.deactivatedAt || employee.deactivatedAt.getTime() > day)
+        ).length;
+        const absent = others.reduce((total, leave) => total + absenceOnDay(leave, day), absenceOnDay(input, day));
+
+        const message = describeViolation(rule, day, headcount, absent);
+        if (message) {
+            warnings.push({ date: current, headcount, absent, message });
+        }
+    }
+
+    return { rule, warnings };
+};
@@ -0,0 +1,174 @@
+import { createHmac, randomUUID } from 'crypto';
+import { Types } from 'mongoose';
+import { IEmployee } from '@/models/employee.model';
+import { ILeave } from '@/models/leave.model';
+import WebhookSubscription, { IWebhookSubscription, WebhookEvent } from '@/models/webhookSubscription.model';
+import WebhookDelivery, { IWebhookDelivery, WebhookDeliveryStatus } from '@/models/webhookDelivery.model';
+import { getRepositories } from '@/services/persistence.service';
+
+// A delivery is given up after this many attempts (spread over about four hours with the backoff below)
+export const MAX_DELIVERY_ATTEMPTS = 10;
+// Delay before the first retry; doubled after every failed attempt, up to MAX_RETRY_DELAY_MS
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 3600 * 1000;
+// How long a worker owns a delivery it picked up, so other instances don't send it at the same time
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Signs a payload as `sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">`.
+ * Receivers recompute it with their secret and the X-Webhook-Timestamp header, and should reject old timestamps.
+ */
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string => {
+    return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+};
+
+/**
+ * Delay before the attempt after the given number of failed attempts: 30s, 1m, 2m, 4m ... capped at 6h.
+ */
+export const getRetryDelayMs = (failedAttempts: number): number => {
+    return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(failedAttempts - 1, 0), MAX_RETRY_DELAY_MS);
+};
+
+let draining: Promise<void> | undefined;
+
+/**
+ * Queues one delivery per active subscription of the organization to the event. The deliveries are stored first
+ * and sent by the worker, so they survive restarts and are retried until they succeed.
+ * Never rejects; call it without awaiting so the API response isn't held up.
+ */
+export const emitWebhookEvent = async (organization: Types.ObjectId, event: WebhookEvent, data: unknown): Promise<void> => {
+    try {
+        const subscriptions = await getRepositories().webhookSubscriptions.findActiveForEvent(organization, event);
+        if (!subscriptions.length) {
+            return;
+        }
+
+        const payload = JSON.stringify({ id: randomUUID(), event, createdAt: new Date().toISOString(), data });
+        await WebhookDelivery.insertMany(subscriptions.map((subscription) => ({
+            subscription: subscription._id,
+            event,
+            payload,
+            nextAttemptAt: new Date()
+        })));
+
+        // Send right away instead of waiting for the next poll
+        processDueDeliveries();
+    } catch (error) {
+        console.error(`Failed to queue webhook deliveries for ${event}:`, error);
+    }
+};
+
+export const emitLeaveEvent = (event: WebhookEvent, leave: ILeave) => emitWebhookEvent(leave.organization, event, leave.toJSON());
+
+export const emitEmployeeEvent = (event: WebhookEvent, employee: IEmployee) => {
+    const { password, ...data } = employee.toJSON();
+    return emitWebhookEvent(employee.organization, event, data);
+};
+
+/**
+ * Posts a delivery to its subscription once and records the outcome.
+ * Any 2xx response counts as delivered; anything else is retried with exponential backoff.
+ */
+export const attemptDelivery = async (delivery: IWebhookDelivery): Promise<IWebhookDelivery> => {
+    const subscription = await WebhookSubscription.findById(delivery.subscription).select('+secret');
+    if (!subscription || !subscription.isActive) {
+        delivery.status = WebhookDeliveryStatus.FAILED;
+        delivery.nextAttemptAt = undefined;
+        delivery.attempts.push({ attemptedAt: new Date(), error: 'Subscription deleted or disabled', durationMs: 0 });
+        return delivery.save();
+    }
+
+    const startedAt = Date.now();
+    let statusCode: number | undefined;
+    let error: string | undefined;
+    try {
+        const response = await fetch(subscription.url, {
+            method: 'POST',
+            headers: buildHeaders(subscription, delivery),
+            body: delivery.payload,
+            redirect: 'manual',
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+        });
+        statusCode = response.status;
+        if (!response.ok) {
+            error = `Receiver responded with ${response.status}`;
+        }
+    } catch (requestError) {
+        error = requestError instanceof Error ? requestError.message : String(requestError);
+    }
+
+    delivery.attempts.push({ attemptedAt: new Date(startedAt), statusCode, error: error?.slice(0, 500), durationMs: Date.now() - startedAt });
+
+    if (!error) {
+        delivery.status = WebhookDeliveryStatus.SUCCEEDED;
+        delivery.deliveredAt = new Date();
+        delivery.nextAttemptAt = undefined;
+    } else if (delivery.attempts.length >= MAX_DELIVERY_ATTEMPTS) {
+        delivery.status = WebhookDeliveryStatus.FAILED;
+        delivery.nextAttemptAt = undefined;
+    } else {
+        delivery.status = WebhookDeliveryStatus.PENDING;
+        delivery.nextAttemptAt = new Date(Date.now() + getRetryDelayMs(delivery.attempts.length));
+    }
+    return delivery.save();
+};
+
+const buildHeaders = (subscription: IWebhookSubscription, delivery: IWebhookDelivery): Record<string, string> => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    return {
+        'Content-Type': 'application/json',
+        'User-Agent': 'simple-leave-management-webhooks',
+        'X-Webhook-Id': String(delivery._id),
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signWebhookPayload(subscription.secret, timestamp, delivery.payload)
+    };
+};
+
+/**
+ * Picks up one due delivery, pushing its nextAttemptAt out by the lease so no other worker takes it meanwhile.
+ */
+const claimDueDelivery = () => {
+    const now = new Date();
+    return WebhookDelivery.findOneAndUpdate(
+        { status: WebhookDeliveryStatus.PENDING, nextAttemptAt: { $lte: now } },
+        { $set: { nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS) } },
+        { new: true, sort: { nextAttemptAt: 1 } }
+    );
+};
+
+/**
+ * Sends every delivery that is due, one at a time. Overlapping calls share the same run.
+ */
+export const processDueDeliveries = (): Promise<void> => {
+    if (!draining) {
+        draining = (async () => {
+            try {
+                let delivery = await claimDueDelivery();
+                while (delivery) {
+                    await attemptDelivery(delivery);
+                    delivery = await claimDueDelivery();
+                }
+            } catch (error) {
+                console.error('Webhook worker failed:', error);
+            } finally {
+                draining = undefined;
+            }
+        })();
+    }
+    return draining;
+};
+
+/**
+ * Polls for due deliveries (retries and anything queued while the server was down)
+ * every WEBHOOK_POLL_INTERVAL_MS milliseconds, 15 seconds by default.
+ */
+export const startWebhookWorker = () => {
+    const interval = Number(process.env.WEBHOOK_POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS;
+    const timer = setInterval(processDueDeliveries, interval);
+    timer.unref();
+    processDueDeliveries();
+    return timer;
+};
@@ -0,0 +1,132 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import mongoose from 'mongoose';
+import { MailMessage } from '@/config/mail';
+import { createMemoryRepositories } from '@/repositories/memory.repository';
+import { setRepositories } from '@/services/persistence.service';
+import { setMailTransport } from '@/services/notification.service';
+import seedOrganization from '@/config/seedOrganization';
+import seedAdmin from '@/config/seedAdmin';
+import app from '@/app';
+
+process.env.JWT_SECRET = 'memory-mode-test-secret';
+process.env.ADMIN_EMAIL = 'admin@example.com';
+process.env.ADMIN_PASSWORD = 'admin-password';
+
+const MS_PER_DAY = 1000 * 3600 * 24;
+
+// YYYY-MM-DD of the first weekday at least `days` days from now
+const weekdayFromNow = (days: number) => {
+    const day = new Date(Date.now() + days * MS_PER_DAY);
+    while ([0, 6].includes(day.getUTCDay())) {
+        day.setTime(day.getTime() + MS_PER_DAY);
+    }
+    return day.toISOString().slice(0, 10);
+};
+
+describe('the API on the in-memory store', () => {
+    const sentMail: MailMessage[] = [];
+    let server: Server;
+    let baseUrl: string;
+
+    // Each user calls from their own address so the per-IP rate limits don't add up across the flow
+    const call = async (ip: string, method: string, path: string, token?: string, body?: unknown) => {
+        const response = await fetch(`${baseUrl}${path}`, {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+                'X-Forwarded-For': ip,
+                ...(token ? { Authorization: `Bearer ${token}` } : {})
+            },
+            body: body === undefined ? undefined : JSON.stringify(body)
+        });
+        // Employee creation answers with `body` where the other endpoints have `data`
+        return { status: response.status, body: await response.json() as { message: string; data: any; body?: any } };
+    };
+
+    const login = async (ip: string, email: string, password: string) => {
+        const { status, body } = await call(ip, 'POST', '/api/v1/auth/login', undefined, { email, password });
+        assert.equal(status, 200, body.message);
+        return body.data.token as string;
+    };
+
+    before(async () => {
+        // What server.ts does for PERSISTENCE_DRIVER=memory
+        setRepositories(createMemoryRepositories());
+        mongoose.set('bufferCommands', false);
+        setMailTransport({ name: 'test', send: async (message) => { sentMail.push(message); } });
+
+        await seedOrganization();
+        await seedAdmin();
+
+        server = app.listen(0);
+        await new Promise((resolve) => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => {
+        server.closeAllConnections();
+        server.close();
+    });
+
+    it('applies for a leave and approves it', async () => {
+        const adminToken = await login('10.0.0.1', 'admin@example.com', 'admin-password');
+        const joiningDate = weekdayFromNow(1);
+
+        const manager = await call('10.0.0.1', 'POST', '/api/v1/employees/create', adminToken, {
+            fullName: 'Maya Manager',
+            email: 'manager@example.com',
+            password: 'manager-password',
+            role: 'MANAGER',
+            department: 'SDE-I',
+            joiningDate
+        });
+        assert.equal(manager.status, 200, manager.body.message);
+
+        const employee = await call('10.0.0.1', 'POST', '/api/v1/employees/create', adminToken, {
+            fullName: 'Eli Employee',
+            email: 'employee@example.com',
+            password: 'employee-password',
+            role: 'EMPLOYEE',
+            department: 'SDE-I',
+            reportingManager: manager.body.body._id,
+            joiningDate
+        });
+        assert.equal(employee.status, 200, employee.body.message);
+
+        const employeeToken = await login('10.0.0.2', 'employee@example.com', 'employee-password');
+        const balanceBefore = (await call('10.0.0.2', 'GET', '/api/v1/auth/me', employeeToken)).body.data.leaveBalances.CASUAL;
+
+        const day = weekdayFromNow(3);
+        const applied = await call('10.0.0.2', 'POST', '/api/v1/leaves/apply-leave', employeeToken, {
+            leaveType: 'CASUAL',
+            startDate: day,
+            endDate: day,
+            reason: 'Family function'
+        });
+        assert.equal(applied.status, 201, applied.body.message);
+        assert.equal(applied.body.data.status, 'Pending');
+
+        const managerToken = await login('10.0.0.3', 'manager@example.com', 'manager-password');
+        const approved = await call('10.0.0.3', 'PATCH', `/api/v1/leaves/${applied.body.data._id}`, managerToken, { status: 'Approved' });
+        assert.equal(approved.status, 200, approved.body.message);
+        assert.equal(approved.body.data.status, 'Approved');
+        assert.equal(approved.body.data.deductedDays, 1);
+
+        const me = await call('10.0.0.2', 'GET', '/api/v1/auth/me', employeeToken);
+        assert.equal(me.body.data.leaveBalances.CASUAL, balanceBefore - 1);
+
+        const history = await call('10.0.0.2', 'GET', `/api/v1/leaves/${applied.body.data._id}/history`, employeeToken);
+        assert.equal(history.status, 200, history.body.message);
+        assert.deepEqual(history.body.data.map((entry: { action: string; toStatus: string }) => [entry.action, entry.toStatus]), [
+            ['CREATED', 'Pending'],
+            ['STATUS_CHANGED', 'Approved']
+        ]);
+        assert.equal(history.body.data[1].actor.email, 'manager@example.com');
+
+        assert.ok(sentMail.some((message) => message.to === 'manager@example.com'));
+        assert.ok(sentMail.some((message) => message.to === 'employee@example.com'));
+    });
+});
@@ -0,0 +1,15 @@
+import { IEmployee } from "@/models/employee.model";
+import { IOrganization } from "@/models/organization.model";
+
+declare global {
+    namespace Express {
+        interface Request {
+            // The authenticated employee, populated by the `authenticate` middleware
+            user?: IEmployee;
+            // The organization of the authenticated employee; every query is scoped to it
+            organization?: IOrganization;
+        }
+    }
+}
+
+export {};
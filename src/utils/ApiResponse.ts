@@ -10,14 +10,71 @@ export class ApiResponse<T> {
     }
 }
 
-export class ApiError {
-    statusCode: number;
+/**
+ * Stable, machine-readable error codes. Clients should branch on these rather than on the message.
+ */
+export enum ErrorCode {
+    BAD_REQUEST = "BAD_REQUEST",
+    VALIDATION_FAILED = "VALIDATION_FAILED",
+    INVALID_JSON = "INVALID_JSON",
+    POLICY_VIOLATION = "POLICY_VIOLATION",
+    DOCUMENT_REQUIRED = "DOCUMENT_REQUIRED",
+    UNAUTHORIZED = "UNAUTHORIZED",
+    FORBIDDEN = "FORBIDDEN",
+    NOT_FOUND = "NOT_FOUND",
+    ROUTE_NOT_FOUND = "ROUTE_NOT_FOUND",
+    CONFLICT = "CONFLICT",
+    DUPLICATE_KEY = "DUPLICATE_KEY",
+    IDEMPOTENCY_KEY_IN_USE = "IDEMPOTENCY_KEY_IN_USE",
+    IDEMPOTENCY_KEY_REUSED = "IDEMPOTENCY_KEY_REUSED",
+    PAYLOAD_TOO_LARGE = "PAYLOAD_TOO_LARGE",
+    TOO_MANY_REQUESTS = "TOO_MANY_REQUESTS",
+    PERSISTENCE_UNAVAILABLE = "PERSISTENCE_UNAVAILABLE",
+    INTERNAL_ERROR = "INTERNAL_ERROR"
+}
+
+// Code used when an error doesn't name one
+const DEFAULT_CODES: Record<number, ErrorCode> = {
+    400: ErrorCode.BAD_REQUEST,
+    401: ErrorCode.UNAUTHORIZED,
+    403: ErrorCode.FORBIDDEN,
+    404: ErrorCode.NOT_FOUND,
+    409: ErrorCode.CONFLICT,
+    413: ErrorCode.PAYLOAD_TOO_LARGE,
+    429: ErrorCode.TOO_MANY_REQUESTS
+};
+
+export const defaultErrorCode = (statusCode: number): ErrorCode =>
+    DEFAULT_CODES[statusCode] ?? (statusCode < 500 ? ErrorCode.BAD_REQUEST : ErrorCode.INTERNAL_ERROR);
+
+/**
+ * One invalid field of the request, e.g. { field: "email", message: "Email is required" }.
+ */
+export interface FieldError {
+    field: string;
     message: string;
-    stack?: string;
+    value?: unknown;
+}
 
-    constructor(statusCode: number, message: string, stack?: string) {
+export interface ApiErrorOptions {
+    code?: ErrorCode;
+    errors?: FieldError[];
+    // Machine-readable specifics of the error, e.g. the policy rules a leave request breaks
+    details?: unknown;
+}
+
+export class ApiError extends Error {
+    statusCode: number;
+    code: ErrorCode;
+    errors: FieldError[];
+    details?: unknown;
+
+    constructor(statusCode: number, message: string, options: ApiErrorOptions = {}) {
+        super(message);
+        this.name = 'ApiError';
         this.statusCode = statusCode;
-        this.message = message;
-        this.stack = stack;
+        this.code = options.code ?? defaultErrorCode(statusCode);
+        this.errors = options.errors ?? [];
+        this.details = options.details;
     }
 }
@@ -0,0 +1,13 @@
+import { Error as MongooseError } from 'mongoose';
+import { ApiError } from '@/utils/ApiResponse';
+
+/**
+ * Turns a save that lost a race with another update of the same record into a 409 instead of a server error.
+ * `record` names it for the message, e.g. "leave request".
+ */
+export const rethrowConcurrentUpdate = (error: unknown, record: string): never => {
+    if (error instanceof MongooseError.VersionError) {
+        throw new ApiError(409, `This ${record} was changed by someone else in the meantime. Reload it and try again.`);
+    }
+    throw error;
+};
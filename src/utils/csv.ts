@@ -0,0 +1,76 @@
+// Minimal RFC 4180 CSV reading and writing
+
+/**
+ * Parses CSV text into rows of cells. Handles quoted cells containing commas,
+ * quotes ("") and line breaks, CRLF or LF line endings and a leading byte order mark.
+ * Blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    const input = text.replace(/^\uFEFF/, '');
+    const endRow = () => {
+        row.push(cell);
+        if (row.length > 1 || row[0].trim() !== '') {
+            rows.push(row);
+        }
+        row = [];
+        cell = '';
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            endRow();
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || row.length) {
+        endRow();
+    }
+
+    return rows;
+};
+
+/**
+ * Formats one cell. Cells starting with =, +, - or @ are prefixed with a quote so
+ * spreadsheet apps don't run them as formulas.
+ */
+const formatCell = (value: unknown): string => {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    let text = value instanceof Date ? value.toISOString() : String(value);
+    if (/^[=+\-@\t\r]/.test(text) && typeof value !== 'number') {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Formats one CSV line (without the line break).
+ */
+export const toCsvLine = (cells: unknown[]): string => cells.map(formatCell).join(',');
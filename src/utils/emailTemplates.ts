@@ -0,0 +1,82 @@
+// Email templates for leave notifications
+
+export interface EmailContent {
+    subject: string;
+    text: string;
+    html: string;
+}
+
+export interface LeaveSummary {
+    employeeName: string;
+    leaveType: string;
+    startDate: Date;
+    endDate: Date;
+    chargedDays: number;
+    reason?: string;
+}
+
+const escapeHtml = (value: string): string => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatDay = (date: Date): string => new Date(date).toISOString().slice(0, 10);
+
+/**
+ * Renders a greeting, paragraphs and a table of details as plain text and as HTML.
+ * Every value is escaped in the HTML version.
+ */
+const render = (subject: string, greeting: string, paragraphs: string[], details: [string, string][]): EmailContent => {
+    const text = [
+        greeting,
+        '',
+        ...paragraphs.flatMap((paragraph) => [paragraph, '']),
+        ...details.map(([label, value]) => `${label}: ${value}`)
+    ].join('\n');
+
+    const html = [
+        `<p>${escapeHtml(greeting)}</p>`,
+        ...paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+        '<table>',
+        ...details.map(([label, value]) => `<tr><th align="left">${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`),
+        '</table>'
+    ].join('\n');
+
+    return { subject, text, html };
+};
+
+const leaveDetails = (leave: LeaveSummary): [string, string][] => [
+    ['Employee', leave.employeeName],
+    ['Leave type', leave.leaveType],
+    ['From', formatDay(leave.startDate)],
+    ['To', formatDay(leave.endDate)],
+    ['Working days', String(leave.chargedDays)]
+];
+
+/**
+ * Sent to the approver of the current step when a request is waiting on them.
+ */
+export const approvalRequestedEmail = (recipientName: string, leave: LeaveSummary): EmailContent => render(
+    `Leave request from ${leave.employeeName} waiting for your approval`,
+    `Hi ${recipientName},`,
+    [`${leave.employeeName} has requested ${leave.leaveType} leave. Please approve or reject it in the leave management portal.`],
+    [...leaveDetails(leave), ['Reason', leave.reason ?? '']]
+);
+
+/**
+ * Sent to the employee once their request has been approved or rejected.
+ */
+export const leaveDecidedEmail = (
+    recipientName: string,
+    leave: LeaveSummary,
+    decision: string,
+    decidedBy: string,
+    comment?: string
+): EmailContent => render(
+    `Your ${leave.leaveType} leave request was ${decision.toLowerCase()}`,
+    `Hi ${recipientName},`,
+    [`Your leave request was ${decision.toLowerCase()} by ${decidedBy}.`, ...(comment ? [`Comment: ${comment}`] : [])],
+    leaveDetails(leave).filter(([label]) => label !== 'Employee')
+);
@@ -0,0 +1,101 @@
+// Helpers to write RFC 5545 iCalendar documents
+
+export enum ICalEventStatus {
+    TENTATIVE = "TENTATIVE",
+    CONFIRMED = "CONFIRMED",
+    CANCELLED = "CANCELLED"
+}
+
+export interface ICalEvent {
+    // Must stay the same for the lifetime of the event so clients update it instead of adding a copy
+    uid: string;
+    // Raised on every change; clients keep the version with the highest sequence
+    sequence: number;
+    stamp: Date;
+    // All-day events: the end date is inclusive here and converted to the exclusive DTEND
+    startDate: Date;
+    endDate: Date;
+    summary: string;
+    description?: string;
+    status: ICalEventStatus;
+}
+
+export interface ICalCalendar {
+    name: string;
+    events: ICalEvent[];
+}
+
+const MS_PER_DAY = 1000 * 3600 * 24;
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escapes text values (backslash, semicolon, comma and new lines).
+ */
+const escapeText = (text: string) => text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Folds a content line into chunks of at most 75 octets; continuation lines start with a space.
+ * Splits on characters, never inside a multi-byte UTF-8 sequence.
+ */
+const foldLine = (line: string): string => {
+    const chunks: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = Buffer.byteLength(char);
+        // Continuation lines lose one octet to the leading space
+        const limit = chunks.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+        if (octets + size > limit) {
+            chunks.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    chunks.push(current);
+    return chunks.join('\r\n ');
+};
+
+// 20250801
+const formatDate = (date: Date) => date.toISOString().slice(0, 10).replace(/-/g, '');
+
+// 20250801T093000Z
+const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Renders a calendar of all-day events as an iCalendar document with CRLF line endings.
+ */
+export const buildICalendar = ({ name, events }: ICalCalendar): string => {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Simple Leave Management//Leave Calendar//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(name)}`
+    ];
+
+    for (const event of events) {
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${event.uid}`,
+            `SEQUENCE:${event.sequence}`,
+            `DTSTAMP:${formatDateTime(event.stamp)}`,
+            `DTSTART;VALUE=DATE:${formatDate(event.startDate)}`,
+            `DTEND;VALUE=DATE:${formatDate(new Date(event.endDate.getTime() + MS_PER_DAY))}`,
+            `SUMMARY:${escapeText(event.summary)}`,
+            ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+            `STATUS:${event.status}`,
+            'TRANSP:OPAQUE',
+            'END:VEVENT'
+        );
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,12 @@
+import { ILeave, isBalanceLeaveType } from '@/models/leave.model';
+
+/**
+ * Returns how many days were taken from the balance for a leave.
+ * Leaves approved before `deductedDays` was recorded fall back to the charged days.
+ */
+export const getDeductedDays = (leave: ILeave): number => {
+    if (!isBalanceLeaveType(leave.leaveType)) {
+        return 0;
+    }
+    return leave.deductedDays ?? leave.duration?.chargedDays ?? 0;
+};
@@ -0,0 +1,158 @@
+import { Types } from 'mongoose';
+import { DaySession } from '@/models/leave.model';
+import { getWeekendDays } from '@/config/workWeek';
+import { getRepositories } from '@/services/persistence.service';
+
+const MS_PER_DAY = 1000 * 3600 * 24;
+
+export interface LeaveDurationInput {
+    // Only this organization's holidays apply
+    organization: Types.ObjectId;
+    startDate: Date;
+    endDate: Date;
+    startSession?: DaySession;
+    endSession?: DaySession;
+    department?: string;
+    location?: string;
+}
+
+export interface LeaveDurationBreakdown {
+    calendarDays: number;
+    weekendDays: number;
+    holidayDays: number;
+    chargedDays: number;
+    holidays: { date: Date; name: string }[];
+}
+
+/**
+ * Normalises a date to midnight UTC so that calendar days can be compared reliably.
+ */
+export const toUtcDay = (date: Date): Date => {
+    const day = new Date(date);
+    day.setUTCHours(0, 0, 0, 0);
+    return day;
+};
+
+export const toDayKey = (date: Date): string => toUtcDay(date).toISOString().slice(0, 10);
+
+export interface LeaveSessions {
+    startSession: DaySession;
+    endSession: DaySession;
+}
+
+/**
+ * Validates the sessions requested for the first and last day of a leave and fills in defaults.
+ * - A single-day leave can be a full day or either half; both sessions must match.
+ * - A multi-day leave can only start in the second half and end in the first half,
+ *   otherwise there would be a gap in the middle of the leave.
+ * Returns an error message when the combination is not allowed.
+ */
+export const resolveLeaveSessions = (
+    startDate: Date,
+    endDate: Date,
+    startSession?: DaySession,
+    endSession?: DaySession
+): LeaveSessions | { error: string } => {
+    const sessions = Object.values(DaySession);
+    if ((startSession && !sessions.includes(startSession)) || (endSession && !sessions.includes(endSession))) {
+        return { error: `Invalid session. Must be one of: ${sessions.join(', ')}` };
+    }
+
+    if (toDayKey(startDate) === toDayKey(endDate)) {
+        const session = startSession || endSession || DaySession.FULL_DAY;
+        if (endSession && endSession !== session) {
+            return { error: 'A single-day leave must use the same session for its start and end.' };
+        }
+        return { startSession: session, endSession: session };
+    }
+
+    const resolved = {
+        startSession: startSession || DaySession.FULL_DAY,
+        endSession: endSession || DaySession.FULL_DAY
+    };
+    if (resolved.startSession === DaySession.FIRST_HALF) {
+        return { error: 'A multi-day leave can only start with a FULL_DAY or SECOND_HALF session.' };
+    }
+    if (resolved.endSession === DaySession.SECOND_HALF) {
+        return { error: 'A multi-day leave can only end with a FULL_DAY or FIRST_HALF session.' };
+    }
+    return resolved;
+};
+
+interface SessionRange {
+    startDate: Date;
+    endDate: Date;
+    startSession?: DaySession;
+    endSession?: DaySession;
+}
+
+/**
+ * Converts a leave into an inclusive range of half-day slots (two slots per calendar day).
+ */
+const toHalfDaySlots = ({ startDate, endDate, startSession, endSession }: SessionRange) => {
+    const firstDay = Math.round(toUtcDay(startDate).getTime() / MS_PER_DAY);
+    const lastDay = Math.round(toUtcDay(endDate).getTime() / MS_PER_DAY);
+    return {
+        first: firstDay * 2 + (startSession === DaySession.SECOND_HALF ? 1 : 0),
+        last: lastDay * 2 + (endSession === DaySession.FIRST_HALF ? 0 : 1)
+    };
+};
+
+/**
+ * Checks whether two leaves overlap, taking half-day sessions into account,
+ * so a morning leave and an afternoon leave on the same day do not clash.
+ */
+export const leavesOverlap = (a: SessionRange, b: SessionRange): boolean => {
+    const first = toHalfDaySlots(a);
+    const second = toHalfDaySlots(b);
+    return first.first <= second.last && second.first <= first.last;
+};
+
+/**
+ * Works out how many days a leave should be charged for.
+ * Weekend days (see WEEKEND_DAYS) and company holidays that apply to the employee's
+ * department/location are not charged. A holiday falling on a weekend is counted as a weekend day.
+ * Half-day sessions on the first/last day are charged as half a day when that day is a working day.
+ */
+export const calculateLeaveDuration = async ({ organization, startDate, endDate, startSession, endSession, department, location }: LeaveDurationInput): Promise<LeaveDurationBreakdown> => {
+    const start = toUtcDay(startDate);
+    const end = toUtcDay(endDate);
+
+    const holidays = await getRepositories().holidays.findApplicable(organization, start, end, department, location);
+
+    const holidaysByDay = new Map(holidays.map((holiday) => [toDayKey(holiday.date), holiday]));
+    const weekendDays = getWeekendDays();
+
+    const breakdown: LeaveDurationBreakdown = {
+        calendarDays: 0,
+        weekendDays: 0,
+        holidayDays: 0,
+        chargedDays: 0,
+        holidays: []
+    };
+
+    const isHalfDay = (day: number) =>
+        (day === start.getTime() && startSession !== undefined && startSession !== DaySession.FULL_DAY) ||
+        (day === end.getTime() && endSession !== undefined && endSession !== DaySession.FULL_DAY);
+
+    for (let day = start.getTime(); day <= end.getTime(); day += MS_PER_DAY) {
+        const current = new Date(day);
+        breakdown.calendarDays += 1;
+
+        if (weekendDays.includes(current.getUTCDay())) {
+            breakdown.weekendDays += 1;
+            continue;
+        }
+
+        const holiday = holidaysByDay.get(toDayKey(current));
+        if (holiday) {
+            breakdown.holidayDays += 1;
+            breakdown.holidays.push({ date: holiday.date, name: holiday.name });
+            continue;
+        }
+
+        breakdown.chargedDays += isHalfDay(day) ? 0.5 : 1;
+    }
+
+    return breakdown;
+};
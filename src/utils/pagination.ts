@@ -0,0 +1,126 @@
+import { isValidObjectId, Types } from 'mongoose';
+
+export type SortDirection = 1 | -1;
+
+export interface SortSpec {
+    field: string;
+    direction: SortDirection;
+}
+
+interface CursorPayload {
+    // Value of the sort field in the last document of the previous page
+    value: unknown;
+    id: string;
+}
+
+/**
+ * A decoded cursor: the sort value and _id of the last document of the previous page.
+ */
+export interface CursorPosition {
+    value: unknown;
+    id: Types.ObjectId;
+}
+
+/**
+ * Parses `field` (ascending) or `-field` (descending) against the allowed fields.
+ * Returns undefined for anything else.
+ */
+export const parseSort = (sort: string, allowedFields: readonly string[]): SortSpec | undefined => {
+    const direction: SortDirection = sort.startsWith('-') ? -1 : 1;
+    const field = sort.replace(/^[-+]/, '');
+    return allowedFields.includes(field) ? { field, direction } : undefined;
+};
+
+/**
+ * Mongo sort for a sort spec, with _id as tie-breaker so the order is stable across pages.
+ */
+export const toMongoSort = ({ field, direction }: SortSpec): Record<string, SortDirection> => ({
+    [field]: direction,
+    _id: direction
+});
+
+const readPath = (document: any, path: string): unknown => path.split('.').reduce((value, key) => value?.[key], document);
+
+/**
+ * Opaque cursor pointing after the given document: base64url JSON of its sort value and _id.
+ */
+export const encodeCursor = (document: any, { field }: SortSpec): string => {
+    const value = readPath(document, field);
+    const payload: CursorPayload = { value: value instanceof Date ? value.toISOString() : value ?? null, id: String(document._id) };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+// Sort values a cursor may carry; anything else (e.g. an object like {"$ne": null}) would end up in the query as an operator
+const isScalar = (value: unknown) => value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+/**
+ * Turns a cursor back into the position it points after. Values of `dateFields` are revived as dates.
+ * Returns undefined for a malformed cursor, including one whose value isn't a string, number, boolean,
+ * null or, for `dateFields`, an ISO date.
+ */
+export const decodeCursor = (cursor: string, { field }: SortSpec, dateFields: readonly string[]): CursorPosition | undefined => {
+    let payload: CursorPayload;
+    try {
+        payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        return undefined;
+    }
+    if (!payload || typeof payload !== 'object' || typeof payload.id !== 'string' || !isValidObjectId(payload.id) || !isScalar(payload.value)) {
+        return undefined;
+    }
+
+    if (payload.value === null || !dateFields.includes(field)) {
+        return { value: payload.value, id: new Types.ObjectId(payload.id) };
+    }
+    // encodeCursor writes dates with toISOString, so a genuine one reads back the same
+    const value = typeof payload.value === 'string' ? new Date(payload.value) : undefined;
+    if (!value || isNaN(value.getTime()) || value.toISOString() !== payload.value) {
+        return undefined;
+    }
+    return { value, id: new Types.ObjectId(payload.id) };
+};
+
+/**
+ * MongoDB filter for the documents after a cursor position in the given order.
+ * Missing values (null) sort before everything else in MongoDB, so they come last in a descending order.
+ */
+export const cursorFilter = ({ value, id }: CursorPosition, { field, direction }: SortSpec): Record<string, unknown> => {
+    const after = direction === 1 ? '$gt' : '$lt';
+    if (value === null || value === undefined) {
+        return direction === 1
+            ? { $or: [{ [field]: null, _id: { $gt: id } }, { [field]: { $ne: null } }] }
+            : { [field]: null, _id: { $lt: id } };
+    }
+    return {
+        $or: [
+            { [field]: { [after]: value } },
+            { [field]: value, _id: { [after]: id } },
+            ...(direction === -1 ? [{ [field]: null }] : [])
+        ]
+    };
+};
+
+// Missing values sort before everything else, as in MongoDB
+const compareValues = (a: unknown, b: unknown): number => {
+    const aMissing = a === null || a === undefined;
+    const bMissing = b === null || b === undefined;
+    if (aMissing || bMissing) {
+        return aMissing === bMissing ? 0 : aMissing ? -1 : 1;
+    }
+    const left = a instanceof Date ? a.getTime() : a as number | string;
+    const right = b instanceof Date ? b.getTime() : b as number | string;
+    return left < right ? -1 : left > right ? 1 : 0;
+};
+
+/**
+ * Where a document falls relative to a cursor position in the sort order of toMongoSort:
+ * negative before it, positive after it. For sorting and paginating outside MongoDB.
+ */
+export const compareToPosition = (document: any, { value, id }: CursorPosition, { field, direction }: SortSpec): number =>
+    direction * (compareValues(readPath(document, field), value) || compareValues(String(document._id), String(id)));
+
+/**
+ * Compares two documents in the sort order of toMongoSort, for sorting outside MongoDB.
+ */
+export const compareInSortOrder = (a: any, b: any, sort: SortSpec): number =>
+    compareToPosition(a, { value: readPath(b, sort.field), id: b._id }, sort);
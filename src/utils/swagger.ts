@@ -20,6 +20,47 @@ const swaggerOptions: swaggerJsdoc.Options = {
                 description: "Production Server"
             }
         ],
+        components: {
+            securitySchemes: {
+                bearerAuth: {
+                    type: 'http',
+                    scheme: 'bearer',
+                    bearerFormat: 'JWT',
+                    description: 'Access token returned by POST /api/v1/auth/login',
+                },
+            },
+            schemas: {
+                ErrorResponse: {
+                    type: 'object',
+                    description: 'Body of every error response',
+                    properties: {
+                        statusCode: { type: 'integer', example: 400 },
+                        code: {
+                            type: 'string',
+                            description: 'Stable, machine-readable error code',
+                            enum: ['BAD_REQUEST', 'VALIDATION_FAILED', 'INVALID_JSON', 'POLICY_VIOLATION', 'DOCUMENT_REQUIRED', 'UNAUTHORIZED', 'FORBIDDEN', 'NOT_FOUND', 'ROUTE_NOT_FOUND', 'CONFLICT', 'DUPLICATE_KEY', 'IDEMPOTENCY_KEY_IN_USE', 'IDEMPOTENCY_KEY_REUSED', 'PAYLOAD_TOO_LARGE', 'TOO_MANY_REQUESTS', 'INTERNAL_ERROR'],
+                        },
+                        message: { type: 'string' },
+                        errors: {
+                            type: 'array',
+                            description: 'Field-level violations, empty when the error is not about specific fields',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    field: { type: 'string', example: 'email' },
+                                    message: { type: 'string' },
+                                    value: {},
+                                },
+                            },
+                        },
+                        details: { type: 'object', description: 'Extra machine-readable data for some codes, e.g. policy violations' },
+                        stack: { type: 'string', nullable: true, description: 'Only in development' },
+                    },
+                },
+            },
+        },
+        // Every route requires a bearer token unless it overrides `security`
+        security: [{ bearerAuth: [] }],
     },
     apis: ['./src/controllers/*.ts'], // Path to your controller files
 };
@@ -0,0 +1,38 @@
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { Role } from '@/models/employee.model';
+
+export interface AccessTokenPayload {
+    sub: string;
+    role: Role;
+}
+
+const getJwtSecret = (): string => {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+        throw new Error("JWT_SECRET is not defined in the .env file");
+    }
+    return secret;
+};
+
+/**
+ * Signs a JWT access token for the given employee.
+ */
+export const signAccessToken = (payload: AccessTokenPayload): string => {
+    const expiresIn = (process.env.JWT_EXPIRES_IN || '1d') as SignOptions['expiresIn'];
+    return jwt.sign({ role: payload.role }, getJwtSecret(), {
+        subject: payload.sub,
+        expiresIn
+    });
+};
+
+/**
+ * Verifies a JWT access token and returns its payload.
+ * Throws if the token is invalid or expired.
+ */
+export const verifyAccessToken = (token: string): AccessTokenPayload => {
+    const decoded = jwt.verify(token, getJwtSecret()) as jwt.JwtPayload;
+    return {
+        sub: decoded.sub as string,
+        role: decoded.role as Role
+    };
+};